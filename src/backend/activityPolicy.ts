@@ -0,0 +1,162 @@
+/**
+ * Activity policy: the rules deciding whether a feed is active or inactive
+ * Users can override the default policy, and each category can override the user's policy.
+ * Has no runtime dependencies so it can be shared with the frontend.
+ */
+import { ActivityPolicy, ActivityPolicySettings } from "./types/validation.types.ts";
+import { FeedRecord } from "./types/feed.types.ts";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * The built-in policy: active if updated within the last two years, updates counted over 90 days
+ */
+export const DEFAULT_ACTIVITY_POLICY: ActivityPolicy = {
+  inactiveAfterDays: 730,
+  countWindowsDays: [90],
+  minPosts: 1
+};
+
+/** Longest accepted threshold or counting window (ten years) */
+export const MAX_POLICY_DAYS = 3650;
+
+/** Maximum number of counting windows */
+const MAX_COUNT_WINDOWS = 5;
+
+/**
+ * Creates the settings used for users who have not saved any
+ * @returns Settings with the built-in policy and no category overrides
+ */
+export function createDefaultPolicySettings(): ActivityPolicySettings {
+  return {
+    default: { ...DEFAULT_ACTIVITY_POLICY, countWindowsDays: [...DEFAULT_ACTIVITY_POLICY.countWindowsDays] },
+    categories: {},
+    updatedAt: new Date().toISOString()
+  };
+}
+
+/**
+ * Resolves the policy that applies to a feed
+ * @param settings The user's policy settings, or null if the user has none
+ * @param category The feed's category
+ * @returns The category's override merged over the user's policy
+ */
+export function resolveActivityPolicy(settings: ActivityPolicySettings | null | undefined, category?: string): ActivityPolicy {
+  const base = settings?.default ?? DEFAULT_ACTIVITY_POLICY;
+  const override = category ? settings?.categories[category] : undefined;
+  return { ...base, ...override };
+}
+
+/**
+ * Re-derives the activity of a working feed that is unchanged since its last analysis
+ * The entries are not read again, so the stored last update and window counts are measured against
+ * the current time and policy: a feed whose last entry is older than the policy's threshold is inactive.
+ * With `minPosts` above one, the feed is inactive if a counted window at least as long as the threshold
+ * held fewer entries; an unchanged feed cannot have gained entries since. Whether it still has enough
+ * recent entries to be active cannot be told from the counts, as entries age out of the windows.
+ * @param stored The feed's stored analysis
+ * @param policy The activity policy in effect
+ * @param now The current time
+ * @returns The status, or null if the stored analysis cannot decide it or was counted over other windows
+ */
+export function deriveActivityStatus(
+  stored: Pick<FeedRecord, 'lastUpdate' | 'updateCounts'>,
+  policy: ActivityPolicy,
+  now: Date = new Date()
+): 'active' | 'inactive' | null {
+  const lastUpdate = stored.lastUpdate ? Date.parse(stored.lastUpdate) : NaN;
+  const updateCounts = stored.updateCounts ?? {};
+  // The counts are kept with the feed and must describe the policy's windows
+  if (isNaN(lastUpdate) || !policy.countWindowsDays.every((days) => Object.hasOwn(updateCounts, days))) {
+    return null;
+  }
+  if (lastUpdate <= now.getTime() - policy.inactiveAfterDays * DAY_MS) {
+    return 'inactive';
+  }
+  if (policy.minPosts <= 1) {
+    return 'active';
+  }
+  const tooFewPosts = Object.entries(updateCounts)
+    .some(([days, count]) => +days >= policy.inactiveAfterDays && count < policy.minPosts);
+  return tooFewPosts ? 'inactive' : null;
+}
+
+/**
+ * Tests if a value is a whole number of days within the accepted range
+ */
+function isValidDays(value: unknown): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value >= 1 && value <= MAX_POLICY_DAYS;
+}
+
+/**
+ * Validates a (partial) policy received from untrusted input
+ * @param input The policy to validate
+ * @param path Name of the policy in error messages
+ * @returns The validated fields that were given, or an error message
+ */
+function parsePolicy(input: unknown, path: string): Partial<ActivityPolicy> | { error: string } {
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    return { error: `${path} must be an object` };
+  }
+  const { inactiveAfterDays, countWindowsDays, minPosts } = input as Partial<ActivityPolicy>;
+  const policy: Partial<ActivityPolicy> = {};
+
+  if (inactiveAfterDays !== undefined) {
+    if (!isValidDays(inactiveAfterDays)) {
+      return { error: `${path}.inactiveAfterDays must be a whole number of days between 1 and ${MAX_POLICY_DAYS}` };
+    }
+    policy.inactiveAfterDays = inactiveAfterDays;
+  }
+  if (countWindowsDays !== undefined) {
+    if (
+      !Array.isArray(countWindowsDays) || countWindowsDays.length === 0 ||
+      countWindowsDays.length > MAX_COUNT_WINDOWS || !countWindowsDays.every(isValidDays)
+    ) {
+      return { error: `${path}.countWindowsDays must be 1 to ${MAX_COUNT_WINDOWS} whole numbers of days between 1 and ${MAX_POLICY_DAYS}` };
+    }
+    policy.countWindowsDays = Array.from(new Set(countWindowsDays)).sort((a, b) => a - b);
+  }
+  if (minPosts !== undefined) {
+    if (typeof minPosts !== "number" || !Number.isInteger(minPosts) || minPosts < 1) {
+      return { error: `${path}.minPosts must be a positive whole number` };
+    }
+    policy.minPosts = minPosts;
+  }
+  return policy;
+}
+
+/**
+ * Validates policy settings received from untrusted input (e.g. a request body)
+ * Missing fields of the default policy fall back to the built-in policy; category overrides may be partial.
+ * @param input The settings to validate
+ * @returns The default policy and category overrides, or an error message
+ */
+export function parsePolicySettings(
+  input: unknown
+): Pick<ActivityPolicySettings, 'default' | 'categories'> | { error: string } {
+  const { default: defaultInput, categories: categoriesInput } = (input ?? {}) as Partial<ActivityPolicySettings>;
+
+  const defaultPolicy = parsePolicy(defaultInput ?? {}, "default");
+  if ("error" in defaultPolicy) {
+    return defaultPolicy;
+  }
+
+  const categories: Record<string, Partial<ActivityPolicy>> = {};
+  if (categoriesInput !== undefined) {
+    if (!categoriesInput || typeof categoriesInput !== "object" || Array.isArray(categoriesInput)) {
+      return { error: "categories must be an object keyed by category name" };
+    }
+    for (const [category, override] of Object.entries(categoriesInput)) {
+      const policy = parsePolicy(override, `categories.${category}`);
+      if ("error" in policy) {
+        return policy;
+      }
+      categories[category] = policy;
+    }
+  }
+
+  return {
+    default: { ...DEFAULT_ACTIVITY_POLICY, ...defaultPolicy },
+    categories
+  };
+}
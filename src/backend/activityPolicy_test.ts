@@ -0,0 +1,55 @@
+import { assertEquals } from "@std/assert";
+import { deriveActivityStatus, parsePolicySettings, resolveActivityPolicy } from "./activityPolicy.ts";
+import type { ActivityPolicy, ActivityPolicySettings } from "./types/validation.types.ts";
+
+const NOW = new Date("2024-06-01T00:00:00Z");
+const POLICY: ActivityPolicy = { inactiveAfterDays: 30, countWindowsDays: [30, 90], minPosts: 1 };
+
+function daysAgo(days: number): string {
+  return new Date(NOW.getTime() - days * 24 * 60 * 60 * 1000).toISOString();
+}
+
+Deno.test("deriveActivityStatus lets an unchanged feed age into inactivity", () => {
+  const counts = { "30": 1, "90": 3 };
+  assertEquals(deriveActivityStatus({ lastUpdate: daysAgo(10), updateCounts: counts }, POLICY, NOW), "active");
+  assertEquals(deriveActivityStatus({ lastUpdate: daysAgo(45), updateCounts: counts }, POLICY, NOW), "inactive");
+});
+
+Deno.test("deriveActivityStatus applies a changed threshold", () => {
+  const stored = { lastUpdate: daysAgo(45), updateCounts: { "30": 0, "90": 3 } };
+  assertEquals(deriveActivityStatus(stored, POLICY, NOW), "inactive");
+  assertEquals(deriveActivityStatus(stored, { ...POLICY, inactiveAfterDays: 60 }, NOW), "active");
+});
+
+Deno.test("deriveActivityStatus decides minPosts only from a window covering the threshold", () => {
+  const policy = { ...POLICY, minPosts: 3 };
+  assertEquals(deriveActivityStatus({ lastUpdate: daysAgo(5), updateCounts: { "30": 2, "90": 5 } }, policy, NOW), "inactive");
+  assertEquals(deriveActivityStatus({ lastUpdate: daysAgo(5), updateCounts: { "30": 4, "90": 5 } }, policy, NOW), null);
+});
+
+Deno.test("deriveActivityStatus cannot decide without counts for the policy's windows", () => {
+  assertEquals(deriveActivityStatus({ lastUpdate: daysAgo(5), updateCounts: { "90": 3 } }, POLICY, NOW), null);
+  assertEquals(deriveActivityStatus({ lastUpdate: daysAgo(5) }, POLICY, NOW), null);
+  assertEquals(deriveActivityStatus({ lastUpdate: "", updateCounts: { "30": 1, "90": 3 } }, POLICY, NOW), null);
+});
+
+Deno.test("resolveActivityPolicy merges category overrides over the user's policy", () => {
+  const settings: ActivityPolicySettings = {
+    default: POLICY,
+    categories: { News: { inactiveAfterDays: 7 } },
+    updatedAt: NOW.toISOString()
+  };
+  assertEquals(resolveActivityPolicy(settings, "News"), { ...POLICY, inactiveAfterDays: 7 });
+  assertEquals(resolveActivityPolicy(settings, "Blogs"), POLICY);
+  assertEquals(resolveActivityPolicy(null).inactiveAfterDays, 730);
+});
+
+Deno.test("parsePolicySettings validates and normalizes untrusted input", () => {
+  assertEquals(parsePolicySettings({ default: { countWindowsDays: [90, 30, 90] }, categories: { News: { minPosts: 2 } } }), {
+    default: { inactiveAfterDays: 730, countWindowsDays: [30, 90], minPosts: 1 },
+    categories: { News: { minPosts: 2 } }
+  });
+  assertEquals("error" in parsePolicySettings({ default: { inactiveAfterDays: 0 } }), true);
+  assertEquals("error" in parsePolicySettings({ categories: { News: { minPosts: 1.5 } } }), true);
+  assertEquals("error" in parsePolicySettings({ categories: [] }), true);
+});
@@ -1,33 +1,45 @@
 /**
- * Checks if a feed URL is accessible by making a HEAD request
- * Falls back to GET if HEAD request fails or returns zero content length
+ * Checks if a fetched feed response indicates an accessible feed
+ * Pure analyzer: it inspects the shared response and performs no network requests
  */
+import { FeedResponse } from "./types/fetch.types.ts";
+import { FeedError } from "./types/feed.types.ts";
+import { classifyHttpStatus } from "./feedErrors.ts";
 import { createLogger } from "../utils/logger.ts";
 
 const logger = createLogger("feedAccessibility");
 
 /**
- * @param feedUrl The URL of the feed to check
- * @returns Promise<boolean> true if the feed is accessible, false otherwise
+ * @param response The fetched feed response to analyze
+ * @returns Whether the feed is accessible, with the classified failure if it is not
  */
-export async function checkFeedAccessibility(feedUrl: string): Promise<boolean> {
-  try {
-    // First try a lightweight HEAD request
-    const headResponse = await fetch(feedUrl, { method: "HEAD" });
-    
-    // If HEAD succeeds and returns content length, we're done
-    const contentLength = headResponse.headers.get('content-length');
-    if (headResponse.ok && contentLength && parseInt(contentLength) > 0) {
-      return true;
-    }
-
-    // If HEAD fails or returns no content length, try GET
-    const getResponse = await fetch(feedUrl);
-    return getResponse.ok;
-  } catch (error) {
+export function checkFeedAccessibility(response: FeedResponse): { accessible: boolean; failure?: FeedError } {
+  // The request never produced a response (DNS, TLS, connection errors)
+  if (response.error) {
     // Log warning messages if feed is inaccessible
-    logger.warn(`Unable to access feed at ${feedUrl}. Error: ${error}`);
+    logger.warn(`Unable to access feed at ${response.url}. Error: ${response.error}`);
     logger.warn(`Please check the URL or your network connection.`);
-    return false;
+    return {
+      accessible: false,
+      failure: {
+        code: response.errorCode ?? 'NETWORK_ERROR',
+        message: `Error accessing feed: ${response.error}`
+      }
+    };
+  }
+
+  // The server answered, but not with a successful status
+  if (!response.ok) {
+    logger.warn(`Feed at ${response.url} returned HTTP ${response.status} ${response.statusText}`);
+    return {
+      accessible: false,
+      failure: {
+        code: classifyHttpStatus(response.status),
+        message: `HTTP error: ${response.status} ${response.statusText}`,
+        httpStatus: response.status
+      }
+    };
   }
-}
\ No newline at end of file
+
+  return { accessible: true };
+}
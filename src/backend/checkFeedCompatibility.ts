@@ -1,95 +1,66 @@
 /**
- * Module for checking RSS/Atom feed compatibility
- * Validates if a feed URL returns valid RSS/Atom formatted content
+ * Module for checking RSS/Atom and JSON Feed compatibility
+ * Validates if a fetched feed response contains valid RSS/Atom or JSON Feed content
  */
-import { FeedStatus } from "./types/feed.types.ts";
-import { parse } from "@libs/xml";
+import { FeedError, FeedStatus } from "./types/feed.types.ts";
+import { FeedResponse } from "./types/fetch.types.ts";
+import type { ParsedFeed } from "./types/rule.types.ts";
+import { isJsonFeedContentType } from "./jsonFeed.ts";
 import { createLogger } from "../utils/logger.ts";
 
 const logger = createLogger("feedCompatibility");
 
-interface ParsedFeed {
-  rss?: unknown;
-  "rdf:RDF"?: unknown;
-  feed?: {
-    entry?: unknown[];
-    title?: string;
-    [key: string]: unknown;
-  };
-  [key: string]: unknown;
-}
-
 /**
- * Tests if a string appears to be RSS/Atom XML
- * @param content The content to check for RSS/Atom format
- * @returns true if content appears to be RSS/Atom format
+ * Tests if a response body looks like an HTML document
+ * @param content The response body
+ * @returns true if the body starts like an HTML page
  */
-function isRssOrAtomFormat(content: string): boolean {
-  try {
-    const parsed = parse(content) as ParsedFeed;
-    // Check for RSS format
-    if (parsed.rss || parsed["rdf:RDF"]) {
-      return true;
-    }
-    // Check for Atom format
-    if (parsed.feed && (parsed.feed.entry || parsed.feed.title)) {
-      return true;
-    }
-    return false;
-  } catch {
-    return false;
-  }
+function looksLikeHtml(content: string): boolean {
+  const start = content.trimStart().slice(0, 256).toLowerCase();
+  return start.startsWith('<!doctype html') || start.startsWith('<html');
 }
 
 /**
- * Check if a feed URL returns valid RSS/Atom content
- * @param url The URL to check for feed compatibility
- * @returns Promise resolving to feed compatibility status
+ * Check if a fetched feed response contains valid RSS/Atom or JSON Feed content
+ * Pure analyzer: it inspects the shared response and performs no network requests
+ * @param response The fetched feed response to check for feed compatibility
+ * @param feed The response body parsed with parseFeedDocument
+ * @returns Feed compatibility status, with the classified failure if incompatible
  */
-export async function checkFeedCompatibility(feedUrl: string): Promise<{ status: FeedStatus; incompatibleReason?: string }> {
-  try {
-    const response = await fetch(feedUrl);
-    if (!response.ok) {
-      logger.error(`HTTP error when checking feed compatibility: ${response.status} ${response.statusText}`);
-      return {
-        status: 'dead',
-        incompatibleReason: `HTTP error: ${response.status} ${response.statusText}`
-      };
-    }
+export function checkFeedCompatibility(
+  response: FeedResponse,
+  feed: ParsedFeed | null
+): { status: FeedStatus; failure?: FeedError } {
+  const feedUrl = response.url;
+  const content = response.body;
 
-    const content = await response.text();
-    
-    // First try to parse as RSS/Atom
-    if (isRssOrAtomFormat(content)) {
-      logger.debug(`Feed ${feedUrl} is valid RSS/Atom format`);
-      return { status: 'active' };
-    }
+  if (feed) {
+    logger.debug(`Feed ${feedUrl} is valid ${feed.format === 'json' ? 'JSON Feed' : 'RSS/Atom'} format`);
+    return { status: 'active' };
+  }
 
-    // If not RSS/Atom, check content type and provide detailed reason
-    const contentType = response.headers.get('content-type') || 'unknown';
-    let reason = `Invalid feed format. Content-Type: ${contentType}.`;
-    
-    // If HTML, add specific message
-    if (contentType.includes('text/html')) {
-      reason += ' Received HTML page instead of RSS/Atom feed.';
-    }
-    
-    // Truncate reason to 100 chars as specified
-    const truncatedReason = reason.length > 100 ? reason.slice(0, 97) + '...' : reason;
-    
-    logger.error(`Feed ${feedUrl} is incompatible: ${truncatedReason}`);
-    return {
-      status: 'incompatible',
-      incompatibleReason: truncatedReason
-    };
-    
-  } catch (error: unknown) {
-    // Network or other errors are considered dead feeds
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
-    logger.error(`Error accessing feed ${feedUrl}: ${errorMessage}`);
-    return {
-      status: 'dead',
-      incompatibleReason: `Error accessing feed: ${errorMessage}`
-    };
+  // If not a feed, check content type and provide detailed reason
+  const contentType = response.contentType || 'unknown';
+  let reason = `Invalid feed format. Content-Type: ${contentType}.`;
+
+  // If HTML, add specific message
+  const isHtml = contentType.includes('text/html') || looksLikeHtml(content);
+  if (isHtml) {
+    reason += ' Received HTML page instead of RSS/Atom feed.';
+  } else if (isJsonFeedContentType(contentType)) {
+    reason += ' JSON document is not a JSON Feed.';
   }
-}
\ No newline at end of file
+
+  // Truncate reason to 100 chars as specified
+  const truncatedReason = reason.length > 100 ? reason.slice(0, 97) + '...' : reason;
+
+  logger.error(`Feed ${feedUrl} is incompatible: ${truncatedReason}`);
+  return {
+    status: 'incompatible',
+    failure: {
+      code: isHtml ? 'HTML_PAGE' : 'NOT_XML',
+      message: truncatedReason,
+      contentType: response.contentType ?? undefined
+    }
+  };
+}
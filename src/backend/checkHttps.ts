@@ -0,0 +1,135 @@
+/**
+ * HTTPS checks
+ * Probes the https:// equivalent of feeds still subscribed over http:// and flags https feeds
+ * whose entries link to or embed http:// resources (mixed content).
+ * The HTTPS probe is speculative, so it is made once without retries.
+ */
+import { fetchFeed } from "./fetchFeed.ts";
+import { checkFeedAccessibility } from "./checkFeedAccessibility.ts";
+import { canonicalizeFeedUrl } from "./duplicateFeeds.ts";
+import { parseFeedDocument } from "./parseFeedDocument.ts";
+import { FeedWarning } from "./types/feed.types.ts";
+import { FeedResponse, FetchLimits } from "./types/fetch.types.ts";
+import type { ParsedFeed } from "./types/rule.types.ts";
+import { createLogger } from "../utils/logger.ts";
+
+const logger = createLogger("checkHttps");
+
+/** An http:// resource embedded in HTML content, e.g. <img src="http://..."> */
+const EMBEDDED_HTTP_RESOURCE = /\bsrc\s*=\s*["']?\s*http:\/\//i;
+
+/**
+ * Options for probing the HTTPS equivalent of a feed
+ */
+export interface ProbeHttpsOptions {
+  /** Timeouts and body size limit for the request */
+  limits?: FetchLimits;
+  /** Cancels the probe; probeHttpsUpgrade then rejects with the signal's reason */
+  signal?: AbortSignal;
+}
+
+/**
+ * Tests if two feed documents describe the same channel: the same title and website link,
+ * ignoring letter case, whitespace and the scheme of the link
+ */
+function isSameChannel(a: ParsedFeed, b: ParsedFeed): boolean {
+  const normalizeTitle = (title: string | undefined) => (title ?? "").replace(/\s+/g, " ").trim().toLowerCase();
+  const normalizeLink = (link: string | undefined) => link ? canonicalizeFeedUrl(link) : "";
+  if (!normalizeTitle(a.title) && !normalizeLink(a.link)) {
+    return false;
+  }
+  return normalizeTitle(a.title) === normalizeTitle(b.title) && normalizeLink(a.link) === normalizeLink(b.link);
+}
+
+/**
+ * Probes if an http:// feed is also served over HTTPS
+ * A feed that already redirects to https:// is served over HTTPS by definition; otherwise the
+ * https:// equivalent of the URL that answered is fetched and must be a compatible feed with the
+ * same content or the same channel title and website link.
+ * @param response The fetched feed response of a working feed
+ * @param feed The response body parsed with parseFeedDocument
+ * @param options Limits and cancellation
+ * @returns The https:// URL serving the same feed, or undefined if the feed is already
+ *          subscribed over HTTPS or has no HTTPS equivalent
+ */
+export async function probeHttpsUpgrade(
+  response: FeedResponse,
+  feed: ParsedFeed | null,
+  options: ProbeHttpsOptions = {}
+): Promise<string | undefined> {
+  if (!response.url.startsWith("http:")) {
+    return undefined;
+  }
+  if (response.finalUrl.startsWith("https:")) {
+    return response.finalUrl;
+  }
+
+  const httpsUrl = response.finalUrl.replace(/^http:/, "https:");
+  let probe: FeedResponse;
+  try {
+    probe = await fetchFeed(httpsUrl, { limits: options.limits, signal: options.signal });
+  } catch (error) {
+    options.signal?.throwIfAborted();
+    logger.debug(`HTTPS probe of ${httpsUrl} failed:`, error);
+    return undefined;
+  }
+  // Servers that redirect HTTPS back to HTTP do not serve the feed over HTTPS
+  const secure = probe.finalUrl.startsWith("https:") && checkFeedAccessibility(probe).accessible
+    ? parseFeedDocument(probe.body)
+    : null;
+  if (!secure) {
+    logger.debug(`Feed ${response.url} is not served over HTTPS at ${httpsUrl}`);
+    return undefined;
+  }
+
+  let sameFeed = probe.body === response.body;
+  if (!sameFeed && feed) {
+    try {
+      sameFeed = isSameChannel(feed, secure);
+    } catch (error) {
+      logger.debug(`Cannot compare ${response.url} with ${httpsUrl}:`, error);
+    }
+  }
+  if (!sameFeed) {
+    logger.debug(`HTTPS URL ${httpsUrl} serves a different channel than ${response.url}`);
+    return undefined;
+  }
+  logger.info(`Feed ${response.url} is also served over HTTPS at ${probe.finalUrl}`);
+  return probe.finalUrl;
+}
+
+/**
+ * Finds mixed content in an https:// feed: entries whose links or enclosures use http://,
+ * or whose HTML content embeds http:// resources that browsers block or warn about
+ * @param response The fetched feed response of a working feed
+ * @param feed The response body parsed with parseFeedDocument
+ * @returns A MIXED_CONTENT warning, or undefined if the feed is not served over HTTPS or has no mixed content
+ */
+export function findMixedContent(response: FeedResponse, feed: ParsedFeed | null): FeedWarning | undefined {
+  if (!response.finalUrl.startsWith("https:") || !feed || feed.entries.length === 0) {
+    return undefined;
+  }
+
+  let linked = 0;
+  let embedded = 0;
+  for (const entry of feed.entries) {
+    if (entry.urls.some((url) => url.startsWith("http:"))) {
+      linked++;
+    } else if ([entry.summary, entry.content].some((html) => !!html && EMBEDDED_HTTP_RESOURCE.test(html))) {
+      embedded++;
+    }
+  }
+  const count = linked + embedded;
+  if (count === 0) {
+    return undefined;
+  }
+  const problems = [
+    linked > 0 ? `${linked} link to http:// URLs` : "",
+    embedded > 0 ? `${embedded} embed http:// resources` : ""
+  ].filter((problem) => !!problem);
+  return {
+    code: "MIXED_CONTENT",
+    count,
+    message: `${count} of ${feed.entries.length} entries use insecure URLs: ${problems.join(", ")}`
+  };
+}
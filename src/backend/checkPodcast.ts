@@ -0,0 +1,160 @@
+/**
+ * Podcast-aware validation
+ * For feeds with enclosures or iTunes elements, counts the episodes, extracts artwork and
+ * episode durations, and checks that a sample of the newest enclosure URLs still resolves.
+ * Media requests are speculative, so they are made once without retries.
+ */
+import { PodcastInfo } from "./types/feed.types.ts";
+import { FeedResponse, FetchLimits } from "./types/fetch.types.ts";
+import type { ParsedFeed } from "./types/rule.types.ts";
+import { parseFeedDate } from "./parseFeedDate.ts";
+import { createLogger } from "../utils/logger.ts";
+
+const logger = createLogger("checkPodcast");
+
+/** Number of newest enclosures whose URLs are checked */
+const MEDIA_SAMPLE_SIZE = 3;
+
+/** Timeout for a media request when no limits are configured */
+const DEFAULT_MEDIA_TIMEOUT_MS = 15000;
+
+/**
+ * An episode of a podcast feed
+ */
+interface Episode {
+  mediaUrl: string;
+  date: Date | null;
+  durationSeconds?: number;
+}
+
+/**
+ * Episodes and metadata extracted from a podcast feed
+ */
+interface PodcastDocument {
+  episodes: Episode[];
+  artworkUrl?: string;
+}
+
+/**
+ * Options for checking a podcast feed
+ */
+export interface CheckPodcastOptions {
+  /** Timeouts for each media request */
+  limits?: FetchLimits;
+  /** Cancels the check; checkPodcast then rejects with the signal's reason */
+  signal?: AbortSignal;
+}
+
+/**
+ * Parses an <itunes:duration> value: seconds, "MM:SS" or "HH:MM:SS"
+ * @returns The duration in seconds, or undefined if the value is not a duration
+ */
+export function parseDuration(value: string | undefined): number | undefined {
+  if (!value || !/^\d+(?::\d{1,2}){0,2}(?:\.\d+)?$/.test(value.trim())) {
+    return undefined;
+  }
+  const seconds = value.trim().split(":").reduce((total, part) => total * 60 + Number(part), 0);
+  return Math.round(seconds);
+}
+
+/**
+ * Extracts the episodes of a feed: its entries with an enclosure
+ * @returns The podcast's episodes and artwork, or null if the feed has no enclosures and no iTunes elements
+ */
+function extractPodcast(feed: ParsedFeed): PodcastDocument | null {
+  const episodes = feed.entries.flatMap((entry) => {
+    const mediaUrl = entry.enclosures[0];
+    if (!mediaUrl) {
+      return [];
+    }
+    return [{ mediaUrl, date: parseFeedDate(entry.published), durationSeconds: parseDuration(entry.duration) }];
+  });
+  if (episodes.length === 0 && !feed.itunes) {
+    return null;
+  }
+  return { episodes, artworkUrl: feed.image };
+}
+
+/**
+ * Checks if a media URL resolves
+ * Uses HEAD, falling back to a one-byte ranged GET for servers that do not support HEAD
+ * @param url The enclosure URL
+ * @param options Limits and cancellation
+ * @returns true if the media answers with a success status after redirects
+ */
+async function isMediaReachable(url: string, options: CheckPodcastOptions): Promise<boolean> {
+  const timeoutMs = options.limits?.requestTimeoutMs ?? DEFAULT_MEDIA_TIMEOUT_MS;
+  try {
+    const signal = options.signal
+      ? AbortSignal.any([options.signal, AbortSignal.timeout(timeoutMs)])
+      : AbortSignal.timeout(timeoutMs);
+    let response = await fetch(url, { method: "HEAD", signal });
+    if (response.status === 405 || response.status === 501 || response.status === 403) {
+      response = await fetch(url, { headers: { Range: "bytes=0-0" }, signal });
+    }
+    await response.body?.cancel();
+    return response.ok;
+  } catch (error) {
+    options.signal?.throwIfAborted();
+    logger.debug(`Media ${url} is unreachable:`, error);
+    return false;
+  }
+}
+
+/**
+ * Runs the podcast checks on a working feed
+ * The media of a podcast is dead when none of the sampled newest enclosures resolves.
+ * @param response The fetched feed response
+ * @param feed The response body parsed with parseFeedDocument
+ * @param options Limits and cancellation
+ * @returns The podcast details, or undefined if the feed is not a podcast
+ */
+export async function checkPodcast(
+  response: FeedResponse,
+  feed: ParsedFeed | null,
+  options: CheckPodcastOptions = {}
+): Promise<PodcastInfo | undefined> {
+  const podcast = feed ? extractPodcast(feed) : null;
+  if (!podcast) {
+    return undefined;
+  }
+
+  // Newest first; undated episodes last
+  const episodes = [...podcast.episodes].sort((a, b) => (b.date?.getTime() ?? 0) - (a.date?.getTime() ?? 0));
+  const sample = Array.from(new Set(episodes.map((episode) => {
+    try {
+      return new URL(episode.mediaUrl, response.finalUrl).href;
+    } catch {
+      return episode.mediaUrl;
+    }
+  }))).slice(0, MEDIA_SAMPLE_SIZE);
+
+  const failedMediaUrls: string[] = [];
+  for (const url of sample) {
+    if (!await isMediaReachable(url, options)) {
+      failedMediaUrls.push(url);
+    }
+  }
+
+  const durations = episodes
+    .map((episode) => episode.durationSeconds)
+    .filter((duration): duration is number => duration !== undefined);
+  const latestEpisode = episodes[0]?.date;
+  const deadMedia = sample.length > 0 && failedMediaUrls.length === sample.length;
+  if (deadMedia) {
+    logger.warn(`Podcast ${response.url} has dead media: none of the ${sample.length} newest enclosures resolves`);
+  }
+
+  return {
+    episodeCount: episodes.length,
+    latestEpisode: latestEpisode ? latestEpisode.toISOString() : undefined,
+    artworkUrl: podcast.artworkUrl,
+    averageDurationSeconds: durations.length > 0
+      ? Math.round(durations.reduce((sum, duration) => sum + duration, 0) / durations.length)
+      : undefined,
+    latestDurationSeconds: episodes[0]?.durationSeconds,
+    mediaChecked: sample.length,
+    failedMediaUrls: failedMediaUrls.length > 0 ? failedMediaUrls : undefined,
+    deadMedia
+  };
+}
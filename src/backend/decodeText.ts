@@ -0,0 +1,102 @@
+/**
+ * Character encoding detection for feeds and OPML files
+ * Decodes raw bytes with the encoding announced by the byte order mark, the Content-Type charset
+ * or the XML declaration, so feeds in e.g. GBK, Big5 or Shift_JIS are not garbled.
+ * Has no runtime dependencies so it can be shared with the frontend.
+ */
+
+/** Number of leading bytes searched for the XML declaration */
+const DECLARATION_SCAN_BYTES = 1024;
+
+/**
+ * Reads the encoding from a byte order mark
+ * @returns The WHATWG encoding label, or undefined if there is no BOM
+ */
+function getBomEncoding(bytes: Uint8Array): string | undefined {
+  if (bytes[0] === 0xEF && bytes[1] === 0xBB && bytes[2] === 0xBF) {
+    return "utf-8";
+  }
+  if (bytes[0] === 0xFE && bytes[1] === 0xFF) {
+    return "utf-16be";
+  }
+  if (bytes[0] === 0xFF && bytes[1] === 0xFE) {
+    return "utf-16le";
+  }
+  return undefined;
+}
+
+/**
+ * Reads the charset parameter of a Content-Type header
+ * @returns The charset label, or undefined if the header has none
+ */
+export function getContentTypeCharset(contentType: string | null | undefined): string | undefined {
+  const match = contentType?.match(/;\s*charset\s*=\s*"?([^";\s]+)"?/i);
+  return match?.[1].toLowerCase();
+}
+
+/**
+ * Reads the encoding from the XML declaration, e.g. `<?xml version="1.0" encoding="GBK"?>`
+ * The declaration is ASCII in every encoding a feed may use except UTF-16, which always has a BOM or is detected by its NUL bytes.
+ * @returns The encoding label, or undefined if there is no declaration or it names no encoding
+ */
+function getDeclaredEncoding(bytes: Uint8Array): string | undefined {
+  // "<?" in UTF-16 without a BOM
+  if (bytes[0] === 0x00 && bytes[1] === 0x3C) {
+    return "utf-16be";
+  }
+  if (bytes[0] === 0x3C && bytes[1] === 0x00) {
+    return "utf-16le";
+  }
+  const head = new TextDecoder("latin1").decode(bytes.subarray(0, DECLARATION_SCAN_BYTES));
+  const match = head.match(/^\s*<\?xml[^>]*\sencoding\s*=\s*["']([^"']+)["']/i);
+  return match?.[1].trim().toLowerCase();
+}
+
+/**
+ * Lists the encodings to try for a document, most authoritative first
+ * A BOM wins, then the Content-Type charset (RFC 7303), then the XML declaration, then UTF-8.
+ * Labels the runtime does not support are skipped.
+ * @param bytes The raw document
+ * @param contentType The Content-Type header, if the document was fetched
+ * @returns Unique, supported encoding names
+ */
+export function detectEncodings(bytes: Uint8Array, contentType?: string | null): string[] {
+  const labels = [getBomEncoding(bytes), getContentTypeCharset(contentType), getDeclaredEncoding(bytes), "utf-8"];
+  const encodings: string[] = [];
+  for (const label of labels) {
+    if (!label) {
+      continue;
+    }
+    try {
+      const { encoding } = new TextDecoder(label);
+      if (!encodings.includes(encoding)) {
+        encodings.push(encoding);
+      }
+    } catch {
+      // Unknown encoding label
+    }
+  }
+  return encodings;
+}
+
+/**
+ * Decodes a document with its detected encoding
+ * Servers often send a default charset that does not match the document, so an encoding
+ * that cannot decode the bytes without errors gives way to the next candidate. If none decodes
+ * cleanly, the most authoritative one is used with replacement characters.
+ * @param bytes The raw document
+ * @param contentType The Content-Type header, if the document was fetched
+ * @returns The decoded text, without a BOM
+ */
+export function decodeText(bytes: Uint8Array | ArrayBuffer, contentType?: string | null): string {
+  const data = bytes instanceof ArrayBuffer ? new Uint8Array(bytes) : bytes;
+  const encodings = detectEncodings(data, contentType);
+  for (const encoding of encodings) {
+    try {
+      return new TextDecoder(encoding, { fatal: true }).decode(data);
+    } catch {
+      // Not valid in this encoding, try the next candidate
+    }
+  }
+  return new TextDecoder(encodings[0]).decode(data);
+}
@@ -0,0 +1,115 @@
+/**
+ * Detection of feed moves announced inside the feed content
+ * Publishers often announce a new feed location in the feed itself instead of redirecting:
+ * with <itunes:new-feed-url>, a self link pointing elsewhere, or a final "we moved" entry.
+ * Pure analyzer: it inspects the parsed feed and performs no network requests.
+ */
+import { FeedMoveSignal } from "./types/feed.types.ts";
+import { FeedResponse } from "./types/fetch.types.ts";
+import type { ParsedFeed, ParsedFeedEntry } from "./types/rule.types.ts";
+import { createLogger } from "../utils/logger.ts";
+
+const logger = createLogger("detectFeedMove");
+
+/** Titles of entries announcing that the feed has moved */
+const MOVED_ENTRY_TITLE =
+  /\b(?:we(?:'ve| have)? moved|(?:this |our )?(?:feed|podcast|blog|site) (?:has |is )?mov(?:ed|ing)|new (?:feed|rss) (?:url|address|location)|update your (?:feed|subscription|rss))\b/i;
+
+/** URLs that look like a feed rather than a web page */
+const FEED_LIKE_URL = /(?:feed|rss|atom|podcast|\.xml|\.json)/i;
+
+/**
+ * Normalizes a URL for comparison, ignoring the scheme, a "www." prefix, default ports and a trailing slash
+ * @param url The URL to normalize
+ * @param base The URL to resolve a relative URL against
+ * @returns The normalized URL, or undefined if it is invalid
+ */
+function normalizeForComparison(url: string, base: string): string | undefined {
+  try {
+    const parsed = new URL(url, base);
+    const host = parsed.host.toLowerCase().replace(/^www\./, "");
+    return `${host}${parsed.pathname.replace(/\/+$/, "")}${parsed.search}`;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Resolves a candidate location and checks that it points somewhere else than the fetched feed
+ * @returns The absolute URL, or undefined if it is invalid or the feed's own URL
+ */
+function resolveNewLocation(candidate: string | undefined, response: FeedResponse): string | undefined {
+  if (!candidate) {
+    return undefined;
+  }
+  const normalized = normalizeForComparison(candidate, response.finalUrl);
+  if (
+    !normalized ||
+    normalized === normalizeForComparison(response.url, response.url) ||
+    normalized === normalizeForComparison(response.finalUrl, response.finalUrl)
+  ) {
+    return undefined;
+  }
+  const resolved = new URL(candidate, response.finalUrl);
+  return resolved.protocol === "http:" || resolved.protocol === "https:" ? resolved.href : undefined;
+}
+
+/**
+ * Finds the new feed URL announced by a "we moved" entry
+ * The newest entry is usually first, but some feeds list entries oldest first, so both ends are checked.
+ * A URL that looks like a feed is preferred; otherwise the first URL on another host is taken.
+ * @returns The signal, or undefined if no entry announces a move with a usable URL
+ */
+function findMovedEntry(entries: ParsedFeedEntry[], response: FeedResponse): FeedMoveSignal | undefined {
+  const candidates = entries.length > 1 ? [entries[0], entries[entries.length - 1]] : entries;
+  for (const entry of candidates) {
+    if (!entry.title || !MOVED_ENTRY_TITLE.test(entry.title)) {
+      continue;
+    }
+    const content = [entry.summary, entry.content].filter(Boolean).join(" ");
+    const urls = Array.from(content.matchAll(/https?:\/\/[^\s"'<>]+/gi), (match) => match[0].replace(/[.,;)]+$/, ""))
+      .map((url) => resolveNewLocation(url, response))
+      .filter((url): url is string => !!url);
+    const feedHost = new URL(response.finalUrl).host;
+    const url = urls.find((candidate) => FEED_LIKE_URL.test(candidate)) ??
+      urls.find((candidate) => new URL(candidate).host !== feedHost);
+    if (url) {
+      return { url, evidence: "MOVED_ENTRY", detail: entry.title };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Detects a move announced in a feed's content
+ * Evidence is checked from most to least reliable: <itunes:new-feed-url>, the self link
+ * (Atom <link rel="self"> or JSON Feed feed_url), then a "we moved" entry.
+ * @param response The fetched feed response
+ * @param feed The response body parsed with parseFeedDocument
+ * @returns The announced new location with its evidence, or undefined if the feed announces no move
+ */
+export function detectFeedMove(response: FeedResponse, feed: ParsedFeed | null): FeedMoveSignal | undefined {
+  if (!feed) {
+    return undefined;
+  }
+  try {
+    let signal: FeedMoveSignal | undefined;
+    const newFeedUrl = resolveNewLocation(feed.newFeedUrl, response);
+    const selfUrl = resolveNewLocation(feed.selfLink, response);
+    if (newFeedUrl) {
+      signal = { url: newFeedUrl, evidence: "NEW_FEED_URL", detail: "<itunes:new-feed-url>" };
+    } else if (selfUrl) {
+      const detail = feed.format === "json" ? `feed_url points to ${selfUrl}` : `Self link points to ${selfUrl}`;
+      signal = { url: selfUrl, evidence: "SELF_LINK", detail };
+    } else {
+      signal = findMovedEntry(feed.entries, response);
+    }
+    if (signal) {
+      logger.info(`Feed ${response.url} announces a move to ${signal.url} (${signal.evidence})`);
+    }
+    return signal;
+  } catch (error) {
+    logger.debug(`Cannot detect feed move for ${response.url}:`, error);
+    return undefined;
+  }
+}
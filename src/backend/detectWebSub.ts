@@ -0,0 +1,86 @@
+/**
+ * Detection of WebSub (formerly PubSubHubbub) hubs
+ * A feed advertises the hubs that push its updates with <link rel="hub">, a JSON Feed "hubs"
+ * array or an HTTP Link header, together with the topic URL to subscribe to (rel="self").
+ * Pure analyzer: it inspects the shared response and parsed feed and performs no network requests.
+ */
+import { FeedWebSub } from "./types/feed.types.ts";
+import { FeedResponse } from "./types/fetch.types.ts";
+import type { ParsedFeed } from "./types/rule.types.ts";
+import { createLogger } from "../utils/logger.ts";
+
+const logger = createLogger("detectWebSub");
+
+/**
+ * Links found in a response, by relation
+ */
+interface WebSubLinks {
+  hubs: string[];
+  self?: string;
+}
+
+/**
+ * Parses the hub and self links of an HTTP Link header
+ * e.g. `<https://hub.example/>; rel="hub", <https://example.com/feed>; rel="self"`
+ */
+function parseLinkHeader(header: string | null): WebSubLinks {
+  const links: WebSubLinks = { hubs: [] };
+  if (!header) {
+    return links;
+  }
+  for (const match of header.matchAll(/<([^>]*)>([^<]*)/g)) {
+    const rel = /;\s*rel\s*=\s*(?:"([^"]*)"|([^\s;,]+))/i.exec(match[2]);
+    const rels = (rel?.[1] ?? rel?.[2] ?? "").toLowerCase().split(/\s+/);
+    if (rels.includes("hub")) {
+      links.hubs.push(match[1]);
+    }
+    if (rels.includes("self")) {
+      links.self ??= match[1];
+    }
+  }
+  return links;
+}
+
+/**
+ * Resolves a link against the feed URL, keeping only http(s) URLs
+ */
+function resolveUrl(url: string | undefined, base: string): string | undefined {
+  if (!url) {
+    return undefined;
+  }
+  try {
+    const resolved = new URL(url, base);
+    return resolved.protocol === "http:" || resolved.protocol === "https:" ? resolved.href : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Detects the WebSub hubs advertised by a feed
+ * Hubs from the HTTP Link header come first, as the specification prefers them over the document.
+ * The topic is the advertised self link, falling back to the URL that answered.
+ * @param response The fetched feed response
+ * @param feed The response body parsed with parseFeedDocument
+ * @returns The hubs and topic, or undefined if the feed advertises no hub
+ */
+export function detectWebSub(response: FeedResponse, feed: ParsedFeed | null): FeedWebSub | undefined {
+  try {
+    const header = parseLinkHeader(response.headers.get("link"));
+    const document: WebSubLinks = { hubs: feed?.hubs ?? [], self: feed?.selfLink };
+    const hubs = Array.from(new Set(
+      [...header.hubs, ...document.hubs]
+        .map((hub) => resolveUrl(hub, response.finalUrl))
+        .filter((hub): hub is string => !!hub)
+    ));
+    if (hubs.length === 0) {
+      return undefined;
+    }
+    const topic = resolveUrl(header.self ?? document.self, response.finalUrl) ?? response.finalUrl;
+    logger.debug(`Feed ${response.url} advertises WebSub hubs ${hubs.join(", ")} for topic ${topic}`);
+    return { hubs, topic };
+  } catch (error) {
+    logger.debug(`Cannot detect WebSub hubs for ${response.url}:`, error);
+    return undefined;
+  }
+}
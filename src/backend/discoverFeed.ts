@@ -0,0 +1,141 @@
+/**
+ * Feed autodiscovery
+ * Finds a working feed for a web page from its <link rel="alternate"> tags and common feed paths.
+ * Used to suggest a replacement when a feed URL returns an HTML page or a dead feed's website is still up.
+ */
+import { fetchFeed } from "./fetchFeed.ts";
+import { checkFeedAccessibility } from "./checkFeedAccessibility.ts";
+import { checkFeedCompatibility } from "./checkFeedCompatibility.ts";
+import { getFeedUpdateFrequency } from "./getFeedUpdateFrequency.ts";
+import { parseFeedDocument } from "./parseFeedDocument.ts";
+import type { FetchLimits } from "./types/fetch.types.ts";
+import { createLogger } from "../utils/logger.ts";
+
+const logger = createLogger("discoverFeed");
+
+/** Link types announcing a feed */
+const FEED_LINK_TYPES = ["application/rss+xml", "application/atom+xml", "application/feed+json"];
+
+/** Paths where sites commonly publish their feed, tried after the announced links */
+const COMMON_FEED_PATHS = ["/feed", "/rss.xml", "/atom.xml", "/feed.xml", "/index.xml", "/rss", "/feed.json"];
+
+/** Maximum number of candidate URLs fetched for one page */
+const MAX_DISCOVERY_CANDIDATES = 8;
+
+/**
+ * Options for discovering a feed
+ */
+export interface DiscoverFeedOptions {
+  /** The page's HTML if it was already fetched; otherwise the page is fetched first */
+  html?: string;
+  /** URLs that must not be suggested, e.g. the broken feed URL itself */
+  exclude?: string[];
+  /** Timeouts and body size limit for each request */
+  limits?: FetchLimits;
+  /** Cancels the discovery; discoverFeed then rejects with the signal's reason */
+  signal?: AbortSignal;
+}
+
+/**
+ * Reads an attribute value from an HTML tag
+ * @param tag The tag source, e.g. `<link rel="alternate" href="/feed">`
+ * @param name The attribute name
+ * @returns The attribute value with basic entities decoded, or undefined if absent
+ */
+function getAttribute(tag: string, name: string): string | undefined {
+  const match = tag.match(new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s"'>]+))`, "i"));
+  const value = match?.[1] ?? match?.[2] ?? match?.[3];
+  return value?.replace(/&amp;/g, "&").trim();
+}
+
+/**
+ * Extracts the feed URLs announced by an HTML page's <link rel="alternate"> tags
+ * @param html The page's HTML
+ * @param baseUrl The page URL, to resolve relative links
+ * @returns Absolute feed URLs in document order
+ */
+export function extractFeedLinks(html: string, baseUrl: string): string[] {
+  const urls: string[] = [];
+  for (const [tag] of html.matchAll(/<link\b[^>]*>/gi)) {
+    const rel = getAttribute(tag, "rel")?.toLowerCase().split(/\s+/) ?? [];
+    const type = getAttribute(tag, "type")?.toLowerCase();
+    const href = getAttribute(tag, "href");
+    if (!rel.includes("alternate") || !type || !FEED_LINK_TYPES.includes(type) || !href) {
+      continue;
+    }
+    try {
+      urls.push(new URL(href, baseUrl).href);
+    } catch {
+      logger.debug(`Ignoring invalid feed link ${href} on ${baseUrl}`);
+    }
+  }
+  return urls;
+}
+
+/**
+ * Lists the URLs to try for a page: announced feed links first, then common feed paths on the same site
+ * @param html The page's HTML
+ * @param pageUrl The page URL
+ * @returns Unique absolute candidate URLs
+ */
+export function getCandidateFeedUrls(html: string, pageUrl: string): string[] {
+  const { origin } = new URL(pageUrl);
+  const commonUrls = COMMON_FEED_PATHS.map((path) => new URL(path, origin).href);
+  return Array.from(new Set([...extractFeedLinks(html, pageUrl), ...commonUrls]));
+}
+
+/**
+ * Checks if a candidate URL serves a working feed
+ * Candidates are speculative, so they are fetched once without retries
+ * @param url The candidate URL
+ * @param options Limits and cancellation
+ * @returns true if the URL is an accessible, compatible feed with dated entries
+ */
+async function isWorkingFeed(url: string, options: DiscoverFeedOptions): Promise<boolean> {
+  const response = await fetchFeed(url, { limits: options.limits, signal: options.signal });
+  if (!checkFeedAccessibility(response).accessible) {
+    return false;
+  }
+  const feed = parseFeedDocument(response.body);
+  if (checkFeedCompatibility(response, feed).status !== 'active') {
+    return false;
+  }
+  const analysis = getFeedUpdateFrequency(response, feed);
+  return analysis.status === 'active' || analysis.status === 'inactive';
+}
+
+/**
+ * Discovers a working feed for a web page
+ * @param pageUrl The URL of the page, e.g. a feed URL that returned HTML or a feed's website
+ * @param options Optional discovery options (already fetched HTML, excluded URLs, limits, cancellation)
+ * @returns The first working feed URL, or undefined if none was found
+ */
+export async function discoverFeed(pageUrl: string, options: DiscoverFeedOptions = {}): Promise<string | undefined> {
+  let html = options.html;
+  if (html === undefined) {
+    const response = await fetchFeed(pageUrl, { limits: options.limits, signal: options.signal });
+    if (!checkFeedAccessibility(response).accessible) {
+      logger.debug(`Cannot discover feeds on ${pageUrl}: page is not accessible`);
+      return undefined;
+    }
+    html = response.body;
+    pageUrl = response.finalUrl;
+  }
+
+  let candidates: string[];
+  try {
+    candidates = getCandidateFeedUrls(html, pageUrl);
+  } catch {
+    logger.debug(`Cannot discover feeds on invalid URL ${pageUrl}`);
+    return undefined;
+  }
+  const exclude = new Set(options.exclude ?? []);
+  for (const candidate of candidates.filter((url) => !exclude.has(url)).slice(0, MAX_DISCOVERY_CANDIDATES)) {
+    if (await isWorkingFeed(candidate, options)) {
+      logger.info(`Discovered feed ${candidate} for ${pageUrl}`);
+      return candidate;
+    }
+  }
+  logger.debug(`No feed discovered for ${pageUrl}`);
+  return undefined;
+}
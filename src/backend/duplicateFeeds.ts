@@ -0,0 +1,150 @@
+/**
+ * Feed URL canonicalisation and duplicate detection
+ * Subscriptions to the same feed often differ only in their URL (scheme, "www.", trailing slash,
+ * a format parameter or a FeedBurner proxy), or point to different URLs serving the same channel.
+ * Pure module, shared by the API and the web UI.
+ */
+import { DuplicateFeedGroup, DuplicateReason, FeedRecord, FeedStatus } from "./types/feed.types.ts";
+
+/** Hosts of the FeedBurner proxy; feed names on them are case-insensitive */
+const FEEDBURNER_HOST = /^(?:feeds\d*\.feedburner\.com|feedproxy\.google\.com)$/;
+
+/** Query parameters that only select a format or track clicks */
+const IGNORED_PARAMETER = /^(?:utm_[a-z]+|fbclid|gclid)$/i;
+
+/** Format parameters that select the same feed in another syntax, e.g. ?format=rss */
+const FORMAT_PARAMETER = /^(?:format|fmt|output)$/i;
+
+/** Values of format parameters that are ignored */
+const FEED_FORMAT = /^(?:rss2?|atom|xml|feed)$/i;
+
+/** Preference of statuses when choosing the feed to keep, best first */
+const STATUS_PREFERENCE: FeedStatus[] = ['active', 'inactive', 'failing', 'incompatible', 'dead'];
+
+/**
+ * Reduces a feed URL to a form under which equivalent URLs compare equal
+ * Ignores the scheme, a "www." prefix, default ports, trailing slashes, fragments, tracking and
+ * format parameters (?format=rss), the order of parameters, and the FeedBurner host and letter case.
+ * @param url The feed URL
+ * @returns The canonical form, which is not a fetchable URL
+ */
+export function canonicalizeFeedUrl(url: string): string {
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim());
+  } catch {
+    return url.trim().toLowerCase();
+  }
+
+  let host = parsed.hostname.toLowerCase().replace(/^www\./, "");
+  let path = parsed.pathname.replace(/\/{2,}/g, "/").replace(/\/+$/, "");
+  if (FEEDBURNER_HOST.test(host)) {
+    host = "feedburner";
+    path = path.toLowerCase();
+  }
+  const port = parsed.port && parsed.port !== "80" && parsed.port !== "443" ? `:${parsed.port}` : "";
+
+  const parameters = Array.from(parsed.searchParams.entries())
+    .filter(([name, value]) => !IGNORED_PARAMETER.test(name) && !(FORMAT_PARAMETER.test(name) && FEED_FORMAT.test(value)))
+    .sort(([a, aValue], [b, bValue]) => a.localeCompare(b) || aValue.localeCompare(bValue));
+  const query = new URLSearchParams(parameters).toString();
+
+  return `${host}${port}${path}${query ? `?${query}` : ""}`;
+}
+
+/**
+ * Key under which feeds serving the same channel compare equal: the website link and the title
+ * @returns The key, or undefined if the feed lacks either
+ */
+function getContentKey(feed: FeedRecord): string | undefined {
+  const title = (feed.title || "").trim().replace(/\s+/g, " ").toLowerCase();
+  if (!feed.htmlUrl || !title) {
+    return undefined;
+  }
+  return `${canonicalizeFeedUrl(feed.htmlUrl)}\n${title}`;
+}
+
+/**
+ * Orders feeds by how good a candidate they are to keep: working, HTTPS, not proxied, most updates, shortest URL
+ */
+function compareKeepPreference(a: FeedRecord, b: FeedRecord): number {
+  const isProxied = (feed: FeedRecord) => canonicalizeFeedUrl(feed.url).startsWith("feedburner/");
+  return STATUS_PREFERENCE.indexOf(a.status) - STATUS_PREFERENCE.indexOf(b.status) ||
+    Number(b.url.startsWith("https:")) - Number(a.url.startsWith("https:")) ||
+    Number(isProxied(a)) - Number(isProxied(b)) ||
+    b.updatesInLast3Months - a.updatesInLast3Months ||
+    a.url.length - b.url.length;
+}
+
+/**
+ * Finds groups of feeds that are the same subscription
+ * Feeds are linked if their canonical URLs are equal or if they share website link and title;
+ * links are transitive, so a group can combine both reasons.
+ * @param feeds The feeds to compare, e.g. all feeds of a user
+ * @returns The groups of two or more feeds, each with the feed suggested to keep first
+ */
+export function findDuplicateFeeds(feeds: FeedRecord[]): DuplicateFeedGroup[] {
+  // Union-find over feed indexes
+  const parent = feeds.map((_, index) => index);
+  const find = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]];
+      index = parent[index];
+    }
+    return index;
+  };
+  const reasons = new Map<number, Set<DuplicateReason>>();
+  const link = (a: number, b: number, reason: DuplicateReason) => {
+    const rootA = find(a);
+    const rootB = find(b);
+    const merged = new Set([...(reasons.get(rootA) ?? []), ...(reasons.get(rootB) ?? []), reason]);
+    parent[rootB] = rootA;
+    reasons.delete(rootB);
+    reasons.set(rootA, merged);
+  };
+
+  const byUrl = new Map<string, number>();
+  const byContent = new Map<string, number>();
+  feeds.forEach((feed, index) => {
+    const urlKey = canonicalizeFeedUrl(feed.url);
+    const sameUrl = byUrl.get(urlKey);
+    if (sameUrl === undefined) {
+      byUrl.set(urlKey, index);
+    } else {
+      link(sameUrl, index, 'EQUIVALENT_URL');
+    }
+
+    const contentKey = getContentKey(feed);
+    if (contentKey) {
+      const sameContent = byContent.get(contentKey);
+      if (sameContent === undefined) {
+        byContent.set(contentKey, index);
+      } else {
+        link(sameContent, index, 'SAME_CONTENT');
+      }
+    }
+  });
+
+  const groups = new Map<number, FeedRecord[]>();
+  feeds.forEach((feed, index) => {
+    const root = find(index);
+    groups.set(root, [...(groups.get(root) ?? []), feed]);
+  });
+
+  return Array.from(groups.entries())
+    .filter(([, members]) => members.length > 1)
+    .map(([root, members]) => {
+      const sorted = [...members].sort(compareKeepPreference);
+      return {
+        reasons: Array.from(reasons.get(root) ?? []),
+        keepUrl: sorted[0].url,
+        feeds: sorted.map((feed) => ({
+          url: feed.url,
+          title: feed.title || feed.text,
+          category: feed.category,
+          status: feed.status
+        }))
+      };
+    })
+    .sort((a, b) => a.keepUrl.localeCompare(b.keepUrl));
+}
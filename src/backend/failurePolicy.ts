@@ -0,0 +1,48 @@
+/**
+ * Failure policy for feeds across validation runs
+ * A single failed validation of a previously working feed marks it 'failing';
+ * it is only demoted to 'dead' after several consecutive failed validations.
+ */
+import { FeedStatus, ValidationHistoryEntry } from "./types/feed.types.ts";
+
+/**
+ * Statuses that count as a failed validation
+ */
+function isFailure(status: FeedStatus): boolean {
+  return status === 'dead' || status === 'failing';
+}
+
+/**
+ * Applies the "dead only after N consecutive failures" policy to a validation result
+ * @param status The status produced by the current validation
+ * @param history The feed's validation history, oldest entry first
+ * @param deadAfterFailures Number of consecutive failures after which the feed is dead
+ * @returns The status to store for the feed
+ */
+export function applyFailurePolicy(
+  status: FeedStatus,
+  history: ValidationHistoryEntry[],
+  deadAfterFailures: number
+): FeedStatus {
+  if (status !== 'dead') {
+    return status;
+  }
+
+  // Count the failures immediately preceding this validation
+  let previousFailures = 0;
+  let lastNonFailure: FeedStatus | undefined;
+  for (let i = history.length - 1; i >= 0; i--) {
+    if (!isFailure(history[i].status)) {
+      lastNonFailure = history[i].status;
+      break;
+    }
+    previousFailures++;
+  }
+
+  // Feeds that never worked get no grace period
+  if (lastNonFailure !== 'active' && lastNonFailure !== 'inactive') {
+    return 'dead';
+  }
+
+  return previousFailures + 1 >= deadAfterFailures ? 'dead' : 'failing';
+}
@@ -0,0 +1,59 @@
+/**
+ * Posting cadence analytics
+ * Derives posting rhythm metrics from the entry dates of a feed.
+ * Has no runtime dependencies so it can be shared with the frontend.
+ */
+import { FeedCadence } from "./types/feed.types.ts";
+
+const HOUR_MS = 60 * 60 * 1000;
+const WEEK_MS = 7 * 24 * HOUR_MS;
+
+/**
+ * Rounds a value to one decimal place for storage and display
+ */
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * Computes the posting cadence of a feed
+ * Intervals need at least two dated entries; distributions are counted in UTC.
+ * @param dates Valid publication dates of the feed's entries, in any order
+ * @returns The cadence metrics, or undefined if there are no dates
+ */
+export function computeCadence(dates: Date[]): FeedCadence | undefined {
+  if (dates.length === 0) {
+    return undefined;
+  }
+
+  const times = dates.map((date) => date.getTime()).sort((a, b) => a - b);
+  const dayOfWeek = new Array(7).fill(0);
+  const hourOfDay = new Array(24).fill(0);
+  for (const date of dates) {
+    dayOfWeek[date.getUTCDay()]++;
+    hourOfDay[date.getUTCHours()]++;
+  }
+
+  const cadence: FeedCadence = { sampleSize: times.length, dayOfWeek, hourOfDay };
+  if (times.length < 2) {
+    return cadence;
+  }
+
+  const intervals = times.slice(1).map((time, i) => time - times[i]);
+  const sorted = [...intervals].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  const median = sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+  const mean = intervals.reduce((sum, interval) => sum + interval, 0) / intervals.length;
+  const span = times[times.length - 1] - times[0];
+
+  cadence.meanIntervalHours = round(mean / HOUR_MS);
+  cadence.medianIntervalHours = round(median / HOUR_MS);
+  cadence.longestGapHours = round(sorted[sorted.length - 1] / HOUR_MS);
+  // Entries posted at the same instant have no span to average over
+  if (span > 0) {
+    cadence.postsPerWeek = round(intervals.length / (span / WEEK_MS));
+  }
+  // The median resists bursts and long breaks better than the mean
+  cadence.predictedNextPost = new Date(times[times.length - 1] + median).toISOString();
+  return cadence;
+}
@@ -0,0 +1,113 @@
+/**
+ * Feed validation error taxonomy
+ * Classifies failures into FeedErrorCode values and provides display labels.
+ * Has no runtime dependencies so it can be shared with the frontend.
+ */
+import { FeedErrorCode } from "./types/feed.types.ts";
+
+/**
+ * Human-readable labels for each error code, used in reports and the UI
+ */
+export const FEED_ERROR_LABELS: Record<FeedErrorCode, string> = {
+  DNS_FAILURE: "DNS lookup failed",
+  TLS_ERROR: "TLS/certificate error",
+  TIMEOUT: "Request timed out",
+  NETWORK_ERROR: "Connection failed",
+  BODY_TOO_LARGE: "Response too large",
+  HTTP_4XX: "HTTP client error (4xx)",
+  HTTP_5XX: "HTTP server error (5xx)",
+  NOT_XML: "Not an RSS/Atom/JSON feed",
+  HTML_PAGE: "HTML page instead of feed",
+  NO_ENTRIES: "Feed has no entries",
+  NO_DATES: "No valid entry dates",
+  PARSE_ERROR: "Feed could not be parsed",
+  RULE_FAILED: "Rejected by a custom rule"
+};
+
+/**
+ * All error codes, in display order
+ */
+export const FEED_ERROR_CODES = Object.keys(FEED_ERROR_LABELS) as FeedErrorCode[];
+
+/**
+ * Type guard for error codes received from untrusted input (e.g. query parameters)
+ * @param value The value to check
+ * @returns true if the value is a known error code
+ */
+export function isFeedErrorCode(value: unknown): value is FeedErrorCode {
+  return typeof value === "string" && value in FEED_ERROR_LABELS;
+}
+
+/**
+ * Collects an error and its chain of causes, outermost first
+ * fetch throws a generic "fetch failed" TypeError whose cause holds the actual failure
+ */
+function errorChain(error: unknown): unknown[] {
+  const chain: unknown[] = [];
+  for (let current = error; current !== undefined && chain.length < 10; current = (current as Error).cause) {
+    chain.push(current);
+    if (!(current instanceof Error)) {
+      break;
+    }
+  }
+  return chain;
+}
+
+/**
+ * Returns the most specific message of an error, i.e. the message of its innermost cause
+ * @param error The thrown error
+ * @returns The error message
+ */
+export function getErrorMessage(error: unknown): string {
+  const innermost = errorChain(error).at(-1);
+  return innermost instanceof Error ? innermost.message : String(innermost ?? "Unknown error occurred");
+}
+
+/**
+ * Classifies an error thrown by fetch
+ * Deno reports DNS and TLS failures only through error messages, so they are matched by content
+ * @param error The thrown error
+ * @returns The matching network error code
+ */
+export function classifyNetworkError(error: unknown): FeedErrorCode {
+  const chain = errorChain(error);
+  if (chain.some((e) => e instanceof Error && (e.name === "TimeoutError" || e.name === "AbortError"))) {
+    return "TIMEOUT";
+  }
+
+  const message = chain
+    .map((e) => e instanceof Error ? e.message : String(e))
+    .join(" ")
+    .toLowerCase();
+  if (
+    message.includes("dns error") ||
+    message.includes("failed to lookup address") ||
+    message.includes("name or service not known") ||
+    message.includes("no such host") ||
+    message.includes("nodename nor servname")
+  ) {
+    return "DNS_FAILURE";
+  }
+  if (
+    message.includes("certificate") ||
+    message.includes("tls") ||
+    message.includes("ssl") ||
+    message.includes("handshake")
+  ) {
+    return "TLS_ERROR";
+  }
+  if (message.includes("timed out") || message.includes("timeout")) {
+    return "TIMEOUT";
+  }
+  return "NETWORK_ERROR";
+}
+
+/**
+ * Classifies an unsuccessful HTTP status
+ * Unexpected statuses below 500 (e.g. a redirect without Location) count as client errors
+ * @param status The HTTP status code
+ * @returns HTTP_5XX for server errors, HTTP_4XX otherwise
+ */
+export function classifyHttpStatus(status: number): FeedErrorCode {
+  return status >= 500 ? "HTTP_5XX" : "HTTP_4XX";
+}
@@ -0,0 +1,59 @@
+/**
+ * Non-fatal feed warnings
+ * Problems that do not stop a feed from working, recorded on the feed instead of failing it.
+ * Has no runtime dependencies so it can be shared with the frontend.
+ */
+import { FeedWarning, FeedWarningCode } from "./types/feed.types.ts";
+import { isJsonFeedContentType } from "./jsonFeed.ts";
+
+/**
+ * Human-readable labels for each warning code, used in reports and the UI
+ */
+export const FEED_WARNING_LABELS: Record<FeedWarningCode, string> = {
+  CONTENT_TYPE_MISMATCH: "Wrong Content-Type",
+  MISSING_GUID: "Entries without guid/id",
+  DUPLICATE_GUID: "Duplicate guids/ids",
+  MISSING_LINK: "Missing links",
+  RELATIVE_URL: "Relative URLs",
+  INVALID_DATE: "Malformed dates",
+  MISSING_SELF_LINK: "No self link",
+  OVERSIZED_FEED: "Oversized feed",
+  HTML_IN_TITLE: "HTML in titles",
+  MIXED_CONTENT: "Mixed content",
+  CUSTOM_RULE: "Custom rule"
+};
+
+/**
+ * All warning codes, in display order
+ */
+export const FEED_WARNING_CODES = Object.keys(FEED_WARNING_LABELS) as FeedWarningCode[];
+
+/** Content types under which RSS and Atom feeds are expected to be served */
+const XML_FEED_CONTENT_TYPES = [
+  "application/rss+xml",
+  "application/atom+xml",
+  "application/rdf+xml",
+  "application/xml",
+  "text/xml"
+];
+
+/**
+ * Checks a response's Content-Type against the feed format found in its body
+ * The body decides whether the feed works; a mismatching header only produces a warning.
+ * @param contentType The Content-Type header, possibly with parameters
+ * @param format The format the body was parsed as
+ * @returns A CONTENT_TYPE_MISMATCH warning, or undefined if the header fits the format
+ */
+export function checkContentType(contentType: string | null | undefined, format: "xml" | "json"): FeedWarning | undefined {
+  const baseContentType = contentType?.split(";")[0].trim().toLowerCase();
+  const expected = format === "json"
+    ? isJsonFeedContentType(baseContentType)
+    : !!baseContentType && XML_FEED_CONTENT_TYPES.includes(baseContentType);
+  if (expected) {
+    return undefined;
+  }
+  return {
+    code: "CONTENT_TYPE_MISMATCH",
+    message: `${format === "json" ? "JSON Feed" : "RSS/Atom feed"} served as ${baseContentType || "no Content-Type"}`
+  };
+}
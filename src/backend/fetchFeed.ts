@@ -0,0 +1,391 @@
+/**
+ * Fetches a feed URL exactly once for the validation pipeline
+ * The resulting response is shared by the accessibility, compatibility and update frequency analyzers
+ * Transient failures (network errors, 5xx and 429 responses) are retried with exponential backoff
+ * Connect/overall timeouts, the body size limit and caller cancellation are enforced with AbortSignal
+ */
+import { FeedResponse, FetchFeedOptions, FetchLimits, RetryOptions } from "./types/fetch.types.ts";
+import { RedirectHop } from "./types/feed.types.ts";
+import { classifyNetworkError, getErrorMessage } from "./feedErrors.ts";
+import { decodeText } from "./decodeText.ts";
+import { createLogger } from "../utils/logger.ts";
+
+const logger = createLogger("fetchFeed");
+
+/** Maximum number of redirects followed for a single request */
+const MAX_REDIRECTS = 10;
+
+/**
+ * Thrown when a response body exceeds the configured size limit
+ */
+class BodyTooLargeError extends Error {
+  constructor(maxBytes: number) {
+    super(`Response body exceeds ${maxBytes} bytes`);
+    this.name = "BodyTooLargeError";
+  }
+}
+
+/**
+ * Creates a signal that aborts with a TimeoutError after the given delay
+ * @param ms The timeout in milliseconds
+ * @param message The message of the TimeoutError
+ * @returns The signal and a function that cancels the timer
+ */
+function createTimeoutSignal(ms: number, message: string): { signal: AbortSignal; clear: () => void } {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(new DOMException(message, "TimeoutError")), ms);
+  return { signal: controller.signal, clear: () => clearTimeout(timer) };
+}
+
+/**
+ * Computes the SHA-256 hash of a response body as a hex string
+ * @param body The response body text
+ * @returns Promise<string> Hex encoded hash
+ */
+async function hashBody(body: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(body));
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Returns true for HTTP statuses worth retrying: server errors and rate limiting
+ */
+function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+/**
+ * Parses a Retry-After header given either in seconds or as an HTTP date
+ * @param value The header value
+ * @returns The delay in milliseconds, or null if missing or invalid
+ */
+function parseRetryAfter(value: string | null): number | null {
+  if (!value) {
+    return null;
+  }
+  const seconds = Number(value.trim());
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  if (!isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+  return null;
+}
+
+/**
+ * Computes the delay before the next attempt
+ * Honours Retry-After if the server sent one, otherwise uses exponential backoff with jitter
+ * @param attempt Zero-based number of the attempt that just failed
+ * @param retry The retry options
+ * @param retryAfter The Retry-After header of the failed response, if any
+ * @returns The delay in milliseconds
+ */
+function getRetryDelay(attempt: number, retry: RetryOptions, retryAfter: string | null = null): number {
+  const serverDelay = parseRetryAfter(retryAfter);
+  if (serverDelay !== null) {
+    return Math.min(serverDelay, retry.maxDelayMs);
+  }
+  const backoff = retry.baseDelayMs * 2 ** attempt;
+  const jitter = Math.random() * retry.baseDelayMs / 2;
+  return Math.min(backoff + jitter, retry.maxDelayMs);
+}
+
+/**
+ * Waits for the given delay, rejecting early with the signal's reason if it aborts
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+function isRedirectStatus(status: number): boolean {
+  return status === 301 || status === 302 || status === 303 || status === 307 || status === 308;
+}
+
+/**
+ * Returns the URL a feed has permanently moved to
+ * Only the leading run of permanent redirects (301/308) counts: a temporary hop
+ * means the URL after it may change again and must not be persisted.
+ * @param redirects The redirects followed, in order
+ * @returns The permanent target URL, or undefined if the first hop is not permanent
+ */
+export function getPermanentRedirectTarget(redirects: RedirectHop[]): string | undefined {
+  let target: string | undefined;
+  for (const hop of redirects) {
+    if (hop.status !== 301 && hop.status !== 308) {
+      break;
+    }
+    target = hop.to;
+  }
+  return target;
+}
+
+/**
+ * Fetches a single URL, aborting if the response headers do not arrive within the connect timeout
+ * @param url The URL to fetch
+ * @param headers Request headers
+ * @param signal Aborts the request (overall timeout and caller cancellation)
+ * @param connectTimeoutMs Maximum wait for the response headers, unlimited if undefined
+ * @returns The response; its body stays bound to `signal`
+ */
+async function fetchWithConnectTimeout(
+  url: string,
+  headers: Headers,
+  signal: AbortSignal | undefined,
+  connectTimeoutMs: number | undefined
+): Promise<Response> {
+  if (connectTimeoutMs === undefined) {
+    return await fetch(url, { headers, redirect: "manual", signal });
+  }
+  const connectTimeout = createTimeoutSignal(connectTimeoutMs, `Connection timed out after ${connectTimeoutMs}ms`);
+  try {
+    return await fetch(url, {
+      headers,
+      redirect: "manual",
+      signal: signal ? AbortSignal.any([signal, connectTimeout.signal]) : connectTimeout.signal
+    });
+  } finally {
+    connectTimeout.clear();
+  }
+}
+
+/**
+ * Reads a response body as text, enforcing the size limit while streaming
+ * The body is decoded with the encoding from its BOM, Content-Type charset or XML declaration
+ * @param response The response to read
+ * @param maxBytes Maximum body size in bytes, unlimited if undefined
+ * @returns The body text
+ * @throws BodyTooLargeError if the body exceeds the limit
+ */
+async function readBodyWithLimit(response: Response, maxBytes: number | undefined): Promise<string> {
+  const contentType = response.headers.get('content-type');
+  if (maxBytes === undefined || !response.body) {
+    return decodeText(await response.arrayBuffer(), contentType);
+  }
+
+  // Reject early when the server announces an oversized body
+  const declaredLength = Number(response.headers.get('content-length'));
+  if (declaredLength > maxBytes) {
+    await response.body.cancel();
+    throw new BodyTooLargeError(maxBytes);
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel();
+      throw new BodyTooLargeError(maxBytes);
+    }
+    chunks.push(value);
+  }
+
+  const bytes = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return decodeText(bytes, contentType);
+}
+
+/**
+ * Fetches a URL and follows redirects manually so the redirect chain can be recorded
+ * @param feedUrl The URL to fetch
+ * @param headers Request headers, sent on every hop
+ * @param signal Aborts the request (overall timeout and caller cancellation)
+ * @param limits Optional time and size limits; the connect timeout applies to every hop
+ * @returns The final response and the redirects followed to reach it
+ * @throws Error on network failures, timeouts or if there are too many redirects
+ */
+async function fetchFollowingRedirects(
+  feedUrl: string,
+  headers: Headers,
+  signal?: AbortSignal,
+  limits?: FetchLimits
+): Promise<{ response: Response; finalUrl: string; redirects: RedirectHop[] }> {
+  const redirects: RedirectHop[] = [];
+  let currentUrl = feedUrl;
+
+  for (let hop = 0; ; hop++) {
+    const response = await fetchWithConnectTimeout(currentUrl, headers, signal, limits?.connectTimeoutMs);
+    const location = response.headers.get('location');
+    if (!isRedirectStatus(response.status) || !location) {
+      return { response, finalUrl: currentUrl, redirects };
+    }
+
+    await response.body?.cancel();
+    if (hop >= MAX_REDIRECTS) {
+      throw new Error(`Too many redirects (more than ${MAX_REDIRECTS})`);
+    }
+    const nextUrl = new URL(location, currentUrl).href;
+    redirects.push({ from: currentUrl, to: nextUrl, status: response.status });
+    currentUrl = nextUrl;
+  }
+}
+
+/**
+ * Fetches a feed and captures everything the analyzers need from the response
+ * Sends conditional request headers when cache validators from a previous fetch are given
+ * Network failures and timeouts are reported through the `error` field; the only
+ * rejection is the reason of `options.signal` when the caller cancels the request
+ * @param feedUrl The URL of the feed to fetch
+ * @param options Optional fetch options (cache validators, retry behaviour, limits, cancellation)
+ * @returns Promise<FeedResponse> The captured response
+ */
+export async function fetchFeed(feedUrl: string, options: FetchFeedOptions = {}): Promise<FeedResponse> {
+  const { cache, retry, limits, signal } = options;
+  const maxRetries = retry?.maxRetries ?? 0;
+  const headers = new Headers();
+  if (cache?.etag) {
+    headers.set('If-None-Match', cache.etag);
+  }
+  if (cache?.lastModified) {
+    headers.set('If-Modified-Since', cache.lastModified);
+  }
+
+  for (let attempt = 0; ; attempt++) {
+    const attempts = attempt + 1;
+    signal?.throwIfAborted();
+    // The overall timeout covers every hop of this attempt and reading the body
+    const requestTimeout = limits
+      ? createTimeoutSignal(limits.requestTimeoutMs, `Request timed out after ${limits.requestTimeoutMs}ms`)
+      : undefined;
+    const attemptSignal = signal && requestTimeout
+      ? AbortSignal.any([signal, requestTimeout.signal])
+      : signal ?? requestTimeout?.signal;
+    const startedAt = performance.now();
+    try {
+      const { response, finalUrl, redirects } = await fetchFollowingRedirects(feedUrl, headers, attemptSignal, limits);
+      if (redirects.length > 0) {
+        logger.debug(`Feed ${feedUrl} redirected to ${finalUrl} via ${redirects.map((hop) => hop.status).join(' -> ')}`);
+      }
+
+      // Transient server failure: back off and try again while retries remain
+      if (retry && isRetryableStatus(response.status) && attempt < maxRetries) {
+        await response.body?.cancel();
+        const delay = getRetryDelay(attempt, retry, response.headers.get('retry-after'));
+        logger.debug(`Feed ${feedUrl} returned ${response.status}, retrying in ${Math.round(delay)}ms (attempt ${attempts}/${maxRetries + 1})`);
+        await sleep(delay, signal);
+        continue;
+      }
+
+      // The server confirmed our cached copy is still current
+      if (response.status === 304) {
+        await response.body?.cancel();
+        logger.debug(`Feed ${feedUrl} not modified since last fetch`);
+        return {
+          url: feedUrl,
+          finalUrl,
+          redirects,
+          status: response.status,
+          statusText: response.statusText,
+          ok: true,
+          headers: response.headers,
+          contentType: response.headers.get('content-type'),
+          body: '',
+          attempts,
+          elapsedMs: Math.round(performance.now() - startedAt),
+          notModified: true,
+          cache: {
+            etag: response.headers.get('etag') ?? cache?.etag,
+            lastModified: response.headers.get('last-modified') ?? cache?.lastModified,
+            bodyHash: cache?.bodyHash
+          }
+        };
+      }
+
+      // Only successful responses carry a body worth analyzing
+      let body = '';
+      let newCache: FeedResponse['cache'];
+      let notModified = false;
+      if (response.ok) {
+        body = await readBodyWithLimit(response, limits?.maxBodyBytes);
+        const bodyHash = await hashBody(body);
+        newCache = {
+          etag: response.headers.get('etag') ?? undefined,
+          lastModified: response.headers.get('last-modified') ?? undefined,
+          bodyHash
+        };
+        // Servers that ignore conditional requests may still return identical content
+        notModified = !!cache?.bodyHash && cache.bodyHash === bodyHash;
+      } else {
+        await response.body?.cancel();
+      }
+
+      logger.debug(`Fetched ${feedUrl}: ${response.status} ${response.statusText}`);
+      return {
+        url: feedUrl,
+        finalUrl,
+        redirects,
+        status: response.status,
+        statusText: response.statusText,
+        ok: response.ok,
+        headers: response.headers,
+        contentType: response.headers.get('content-type'),
+        body,
+        attempts,
+        elapsedMs: Math.round(performance.now() - startedAt),
+        notModified,
+        cache: newCache
+      };
+    } catch (error) {
+      // Cancelled by the caller: stop without retrying
+      if (signal?.aborted) {
+        throw signal.reason;
+      }
+      const errorMessage = getErrorMessage(error);
+      const tooLarge = error instanceof BodyTooLargeError;
+
+      // Network failure or timeout: back off and try again while retries remain
+      if (retry && !tooLarge && attempt < maxRetries) {
+        const delay = getRetryDelay(attempt, retry);
+        logger.debug(`Fetching ${feedUrl} failed (${errorMessage}), retrying in ${Math.round(delay)}ms (attempt ${attempts}/${maxRetries + 1})`);
+        await sleep(delay, signal);
+        continue;
+      }
+
+      logger.warn(`Unable to fetch feed at ${feedUrl} after ${attempts} attempt(s). Error: ${errorMessage}`);
+      return {
+        url: feedUrl,
+        finalUrl: feedUrl,
+        redirects: [],
+        status: 0,
+        statusText: '',
+        ok: false,
+        headers: new Headers(),
+        contentType: null,
+        body: '',
+        error: errorMessage,
+        errorCode: tooLarge ? 'BODY_TOO_LARGE' : classifyNetworkError(error),
+        attempts,
+        notModified: false
+      };
+    } finally {
+      requestTimeout?.clear();
+    }
+  }
+}
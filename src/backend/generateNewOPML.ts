@@ -115,6 +115,19 @@ export async function generateNewOPML(opmlData: FeedCollection, outputPath: stri
   logger.info("OPML file generation complete");
 }
 
+/**
+ * Returns the URL a feed is exported with
+ * @param feed The feed, possibly a stored record with a pending permanent redirect
+ * @param useNewUrls Replace the URL with the redirect target or the new location announced in the feed content
+ * @returns The feed's new URL if requested and known, otherwise its stored URL
+ */
+function getExportUrl(feed: FeedEntry & { movedTo?: string }, useNewUrls?: boolean): string {
+  if (!useNewUrls) {
+    return feed.url;
+  }
+  return feed.movedTo || feed.moveSignal?.url || feed.url;
+}
+
 /**
  * Generates a single OPML file content for API export
  * @param opmlData The processed feed data to generate OPML from
@@ -126,6 +139,8 @@ export function generateOPMLForExport(
   options?: { 
     title?: string;
     includeAllStatuses?: boolean;
+    /** Export moved feeds with their new URL (permanent redirect or move announced in the content) */
+    useNewUrls?: boolean;
   }
 ): string {
   const title = options?.title || "Exported Feeds";
@@ -153,7 +168,7 @@ export function generateOPMLForExport(
         const htmlUrlAttr = feed.htmlUrl ? ` htmlUrl="${feed.htmlUrl}"` : '';
         const descriptionAttr = feed.description ? ` description="${feed.description}"` : '';
         const commentAttr = feed.incompatibleReason ? ` comment="${feed.incompatibleReason}"` : '';
-        combinedContent += `      <outline text="${text}" xmlUrl="${feed.url}"${titleAttr}${typeAttr}${htmlUrlAttr}${descriptionAttr}${commentAttr} />
+        combinedContent += `      <outline text="${text}" xmlUrl="${getExportUrl(feed, options?.useNewUrls)}"${titleAttr}${typeAttr}${htmlUrlAttr}${descriptionAttr}${commentAttr} />
 `;
       });
       
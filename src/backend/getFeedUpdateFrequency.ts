@@ -1,17 +1,18 @@
 /**
- * RSS/Atom feed parser module that checks feed health and update frequency
+ * Analysis of the health and update frequency of a parsed RSS/Atom or JSON Feed
  */
-import { parseFeed } from "@mikaelporttila/rss";
-import { FeedEntry, FeedStatus } from "./types/feed.types.ts";
+import { FeedCadence, FeedDateReport, FeedEntry, FeedStatus, FeedWarning } from "./types/feed.types.ts";
+import { FeedResponse } from "./types/fetch.types.ts";
+import type { ParsedFeed } from "./types/rule.types.ts";
+import { DEFAULT_ACTIVITY_POLICY } from "./activityPolicy.ts";
+import { computeCadence } from "./feedCadence.ts";
+import { ResolvedFeedDates, resolveFeedDates } from "./parseFeedDate.ts";
+import { checkContentType } from "./feedWarnings.ts";
+import type { ActivityPolicy } from "./types/validation.types.ts";
 import { createLogger } from "../utils/logger.ts";
 
 const logger = createLogger("feedUpdateFrequency");
 
-/**
- * Analyzes an RSS/Atom feed to determine its health and update frequency
- * @param feedUrl The URL of the feed to analyze
- * @returns Promise<FeedStatus> Status information about the feed
- */
 // Helper to make string XML-compatible: remove HTML tags, non-ASCII, collapse whitespace
 function makeXmlCompatible(value: string): string {
   // Remove HTML tags
@@ -45,157 +46,199 @@ function makeFeedEntry(partial: Partial<FeedEntry>): FeedEntry {
     status: partial.status || 'incompatible',
     lastUpdate: partial.lastUpdate ?? undefined,
     updatesInLast3Months: partial.updatesInLast3Months ?? 0,
-    incompatibleReason: partial.incompatibleReason
+    updateCounts: partial.updateCounts,
+    cadence: partial.cadence,
+    dateReport: partial.dateReport,
+    incompatibleReason: partial.failure?.message ?? partial.incompatibleReason,
+    failure: partial.failure,
+    warnings: partial.warnings
   };
 }
 
-export async function getFeedUpdateFrequency(feedUrl: string): Promise<FeedEntry> {
-  try {
-    // Check if feed URL is accessible
-    const response = await fetch(feedUrl);
-    if (!response.ok) {
-      const error = `HTTP ${response.status} ${response.statusText}`;
-      logger.error(`Feed was marked as compatible but HTTP request failed for ${feedUrl}: ${error}`);
-      return makeFeedEntry({
-        url: feedUrl,
-        status: "incompatible",
-        incompatibleReason: `Feed previously accessible but now returns ${error}`
-      });
-    }
+/**
+ * Activity of a feed derived from the dates of its entries
+ */
+interface FeedActivity {
+  status: FeedStatus;
+  lastUpdate: Date;
+  updatesInLast3Months: number;
+  updateCounts: Record<string, number>;
+  cadence?: FeedCadence;
+  dateReport: FeedDateReport;
+}
 
-    // Verify content type is RSS, Atom, or general XML
-    const contentType = response.headers.get("content-type");
-    // Extract base content type without charset
-    const baseContentType = contentType?.split(';')[0].trim();
-
-    if (!baseContentType ||
-        (baseContentType !== "application/rss+xml" &&
-         baseContentType !== "application/atom+xml" &&
-         baseContentType !== "text/xml" &&
-         baseContentType !== "application/xml")) {
-      const error = `Unexpected content type: ${contentType}`;
-      logger.error(`Feed was marked as compatible but returned invalid content type for ${feedUrl}: ${error}`);
-      return makeFeedEntry({
-        url: feedUrl,
-        status: "incompatible",
-        incompatibleReason: error
-      });
+const DAY_MS = 24 * 60 * 60 * 1000;
 
-    }
-
-    // Parse feed content
-    const feedText = await response.text();
-    const feed = await parseFeed(feedText);
-    logger.debug(`Parsed feed fields for ${feedUrl}: url=${feedUrl}, title=${feed.title.value}, description=${feed.description}`);
-
-    // If feed has no entries, mark as incompatible
-    if (!feed.entries || feed.entries.length === 0) {
-      const error = "Feed contains no entries";
-      logger.error(`Feed was marked as compatible but ${error} for ${feedUrl}`);
-      return makeFeedEntry({
-        url: feedUrl,
-        status: "incompatible",
-        incompatibleReason: error
-      });
+/**
+ * Derives a feed's activity from the dates of its entries
+ * Active if it has at least `minPosts` entries within the policy's inactivity threshold, otherwise inactive
+ * @param resolved The resolved entry dates, or null if every date strategy failed
+ * @param policy The activity policy to apply
+ * @returns The feed's activity, or null if there are no dates
+ */
+function analyzeActivity(resolved: ResolvedFeedDates | null, policy: ActivityPolicy): FeedActivity | null {
+  if (!resolved) {
+    return null;
+  }
 
-    }
+  // Set up time windows for analysis
+  const now = new Date();
+  const threeMonthsAgo = new Date(now);
+  threeMonthsAgo.setMonth(now.getMonth() - 3);
 
-    // Set up time windows for analysis
-    const now = new Date();
-    const threeMonthsAgo = new Date(now);
-    threeMonthsAgo.setMonth(now.getMonth() - 3);
-
-    const twoYearsAgo = new Date(now);
-    twoYearsAgo.setFullYear(twoYearsAgo.getFullYear() - 2);
-
-    // Initialize counters with default values
-    let updatesInLast3Months = 0;
-    let lastUpdate: Date | null = null;
-    let validDatesFound = false;
-
-    // Analyze each entry's timestamp
-    feed.entries.forEach((entry) => {
-      const publishedDate = new Date(entry.published || entry.updated || "");
-      if (!isNaN(publishedDate.getTime())) {
-        validDatesFound = true;
-        // Update the most recent entry date if newer
-        if (lastUpdate === null || publishedDate > lastUpdate) {
-          lastUpdate = publishedDate;
-        }
-        // Count entries in the last 3 months
-        if (publishedDate > threeMonthsAgo) {
-          updatesInLast3Months++;
-        }
-      }
-    });
+  const activeSince = now.getTime() - policy.inactiveAfterDays * DAY_MS;
+  const updateCounts: Record<string, number> = {};
+  for (const days of policy.countWindowsDays) {
+    updateCounts[days] = 0;
+  }
 
-    // If no valid dates found in any entries, mark as incompatible
-    if (!validDatesFound) {
-      const error = "No valid dates found in feed entries";
-      logger.error(`Feed was marked as compatible but ${error} for ${feedUrl}`);
-      return makeFeedEntry({
-        url: feedUrl,
-        status: "incompatible",
-        incompatibleReason: error
-      });
+  let updatesInLast3Months = 0;
+  let recentUpdates = 0;
+  let lastUpdate: Date | null = null;
 
+  // Analyze each entry's timestamp
+  for (const publishedDate of resolved.dates) {
+    // Update the most recent entry date if newer
+    if (lastUpdate === null || publishedDate > lastUpdate) {
+      lastUpdate = publishedDate;
     }
-
-    // Determine feed status based on last update
-    // Active if updated within last 2 years, otherwise inactive
-    // If no valid dates found but we got this far, we'll mark as inactive
-    let status: FeedStatus = "inactive";
-    if (lastUpdate !== null) {
-      status = (lastUpdate as Date) > twoYearsAgo ? "active" : "inactive";
+    // Count entries in the last 3 months and in each window of the policy
+    if (publishedDate > threeMonthsAgo) {
+      updatesInLast3Months++;
+    }
+    if (publishedDate.getTime() > activeSince) {
+      recentUpdates++;
     }
-    logger.debug(`Feed ${feedUrl} status: ${status}, last update: ${lastUpdate}, updates in last 3 months: ${updatesInLast3Months}`);
-
-    // Log htmlUrl for tusacentral feeds (after htmlUrl is determined, see below)
-
-    // Extract additional metadata fields from the parsed feed
-    // Ensure text and title are always strings (avoid TextField type errors)
-    const text = typeof feed.title === 'string' ? feed.title : (feed.title && typeof feed.title.value === 'string' ? feed.title.value : feedUrl);
-    const title = typeof feed.title === 'string' ? feed.title : (feed.title && typeof feed.title.value === 'string' ? feed.title.value : feedUrl);
-    const type = 'rss'; // Default to 'rss', could be enhanced
-    // Try to extract htmlUrl from feed.link or feed.links[0]?.href
-    let htmlUrl = '';
-    if (Array.isArray(feed.links) && feed.links.length > 0) {
-      const link0 = feed.links[0] as { href?: string };
-      if (link0 && typeof link0.href === 'string') {
-        htmlUrl = link0.href;
+    for (const days of policy.countWindowsDays) {
+      if (publishedDate.getTime() > now.getTime() - days * DAY_MS) {
+        updateCounts[days]++;
       }
     }
-    // For some feeds in special format, can generate log here to debug
-    // logger.debug('TUSACENTRAL htmlUrl:', htmlUrl);
-    const description = feed.description ? makeXmlCompatible(feed.description) : '';
+  }
+
+  if (lastUpdate === null) {
+    return null;
+  }
+  return {
+    status: recentUpdates >= policy.minPosts ? "active" : "inactive",
+    lastUpdate,
+    updatesInLast3Months,
+    updateCounts,
+    // A single feed-level fallback date says nothing about the posting rhythm
+    cadence: resolved.report.source === "entries" ? computeCadence(resolved.dates) : undefined,
+    dateReport: resolved.report
+  };
+}
+
+/**
+ * Logs the date problems found while analyzing a feed
+ */
+function logDateReport(feedUrl: string, report: FeedDateReport): void {
+  if (report.future > 0) {
+    logger.warn(`Feed ${feedUrl} has ${report.future} future-dated entries, clamped to the current time`);
+  }
+  if (report.source !== "entries") {
+    logger.warn(`Feed ${feedUrl} has no readable entry dates, using ${report.source} instead`);
+  } else if (report.undated > 0) {
+    logger.debug(`Feed ${feedUrl} has ${report.undated} entries without a readable date`);
+  }
+}
 
+/**
+ * Collects the non-fatal warnings for a working feed
+ * @param response The fetched feed response
+ * @param format The format the body was parsed as
+ * @returns The warnings, or undefined if there are none
+ */
+function collectWarnings(response: FeedResponse, format: "xml" | "json"): FeedWarning[] | undefined {
+  const warnings: FeedWarning[] = [];
+  const contentTypeWarning = checkContentType(response.contentType, format);
+  if (contentTypeWarning) {
+    warnings.push(contentTypeWarning);
+  }
+  for (const warning of warnings) {
+    logger.warn(`Feed ${response.url}: ${warning.message}`);
+  }
+  return warnings.length > 0 ? warnings : undefined;
+}
+
+/**
+ * Analyzes a fetched RSS/Atom or JSON Feed response to determine its health and update frequency
+ * Pure analyzer: it reads the parsed feed and performs no network requests
+ * @param response The fetched feed response to analyze
+ * @param feed The response body parsed with parseFeedDocument
+ * @param policy The activity policy deciding between active and inactive
+ * @returns Status information about the feed
+ */
+export function getFeedUpdateFrequency(
+  response: FeedResponse,
+  feed: ParsedFeed | null,
+  policy: ActivityPolicy = DEFAULT_ACTIVITY_POLICY
+): FeedEntry {
+  const feedUrl = response.url;
+  if (!feed) {
+    const error = "Feed is neither RSS/Atom nor JSON Feed";
+    logger.error(`Feed was marked as compatible but ${error} for ${feedUrl}`);
     return makeFeedEntry({
       url: feedUrl,
-      text,
-      title,
-      type,
-      htmlUrl,
-      description,
-      status,
-      lastUpdate: lastUpdate !== null ? (lastUpdate as Date).toISOString() : undefined,
-      updatesInLast3Months
+      status: "incompatible",
+      failure: { code: "PARSE_ERROR", message: `Error checking update frequency: ${error}` }
     });
+  }
+  const type = feed.format === "json" ? "json" : "rss";
+  logger.debug(`Parsed feed fields for ${feedUrl}: format=${feed.format}, title=${feed.title}, description=${feed.description}`);
 
-  } catch (error) {
-    // Handle any errors during feed processing with detailed logging
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
-    logger.error(`Feed was marked as compatible but failed during update frequency check for ${feedUrl}:`);
-    logger.error(`Error type: ${error?.constructor?.name}`);
-    logger.error(`Error message: ${errorMessage}`);
-    if (error instanceof Error && error.stack) {
-      logger.error(`Stack trace: ${error.stack}`);
-    }
-
+  // If feed has no entries, mark as incompatible
+  if (feed.entries.length === 0) {
+    const error = "Feed contains no entries";
+    logger.error(`Feed was marked as compatible but ${error} for ${feedUrl}`);
     return makeFeedEntry({
       url: feedUrl,
+      type,
       status: "incompatible",
-      incompatibleReason: `Error checking update frequency: ${errorMessage}`
+      failure: { code: "NO_ENTRIES", message: error }
     });
+  }
 
+  // Analyze each entry's timestamp, from the raw dates in the feed's order of preference
+  const dates = resolveFeedDates(
+    feed.entries.map((entry) => entry.dates.map((date) => date.value)),
+    { lastBuildDate: feed.updated, lastModified: response.headers.get("last-modified") }
+  );
+  const activity = analyzeActivity(dates, policy);
+
+  // If no strategy found a valid date, mark as incompatible
+  if (!activity) {
+    const error = type === "json"
+      ? "No valid dates found in feed items or Last-Modified header"
+      : "No valid dates found in feed entries, lastBuildDate or Last-Modified header";
+    logger.error(`Feed was marked as compatible but ${error} for ${feedUrl}`);
+    return makeFeedEntry({
+      url: feedUrl,
+      type,
+      status: "incompatible",
+      failure: { code: "NO_DATES", message: error }
+    });
   }
-}
\ No newline at end of file
+
+  const { status, lastUpdate, updatesInLast3Months, updateCounts, cadence, dateReport } = activity;
+  logger.debug(`Feed ${feedUrl} status: ${status}, last update: ${lastUpdate}, updates in last 3 months: ${updatesInLast3Months}`);
+  logDateReport(feedUrl, dateReport);
+
+  const title = feed.title ?? feedUrl;
+  return makeFeedEntry({
+    url: feedUrl,
+    text: title,
+    title,
+    type,
+    htmlUrl: feed.link ?? '',
+    description: feed.description ?? '',
+    status,
+    lastUpdate: lastUpdate.toISOString(),
+    updatesInLast3Months,
+    updateCounts,
+    cadence,
+    dateReport,
+    warnings: collectWarnings(response, type === "json" ? "json" : "xml")
+  });
+}
@@ -0,0 +1,148 @@
+/**
+ * Composite feed health score
+ * Ranks feeds on a 0-100 scale from their recent reliability, posting cadence, response time,
+ * warnings and redirect churn, which is finer than the feed status.
+ * Has no runtime dependencies so it can be shared with the frontend.
+ */
+import { FeedHealthFactors, FeedRecord, FeedStatus } from "./types/feed.types.ts";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Weight of each factor in the score; factors without data are left out */
+const FACTOR_WEIGHTS: Record<keyof FeedHealthFactors, number> = {
+  reliability: 35,
+  freshness: 25,
+  latency: 15,
+  warnings: 15,
+  redirects: 10
+};
+
+/** Highest score a feed with each status can reach, whatever its other factors */
+const STATUS_CAPS: Record<FeedStatus, number> = {
+  active: 100,
+  inactive: 100,
+  failing: 50,
+  incompatible: 20,
+  dead: 10
+};
+
+/** Days without a new entry that are not held against a feed without a known cadence */
+const DEFAULT_EXPECTED_GAP_DAYS = 30;
+
+/** Days beyond the expected gap after which freshness reaches zero */
+const STALE_AFTER_DAYS = 365;
+
+/** Response times at or below this many milliseconds score fully */
+const FAST_RESPONSE_MS = 500;
+
+/** Response times at or above this many milliseconds score zero */
+const SLOW_RESPONSE_MS = 10000;
+
+/** Score lost per distinct warning code */
+const WARNING_PENALTY = 20;
+
+/** Score lost per redirect hop, and for a pending permanent move */
+const REDIRECT_PENALTY = 20;
+const MOVED_PENALTY = 40;
+
+/**
+ * The fields of a feed record the health score is computed from
+ */
+export type FeedHealthInput = Pick<
+  FeedRecord,
+  'status' | 'lastUpdate' | 'cadence' | 'warnings' | 'redirects' | 'movedTo' | 'validationHistory'
+>;
+
+/**
+ * The health score of a feed with the factors it was computed from
+ */
+export interface FeedHealth {
+  score: number;
+  factors: FeedHealthFactors;
+}
+
+/**
+ * Clamps a factor to 0-100 and rounds it
+ */
+function toFactor(value: number): number {
+  return Math.round(Math.min(100, Math.max(0, value)));
+}
+
+/**
+ * Tests if a status marks a working feed
+ */
+function isWorking(status: FeedStatus): boolean {
+  return status === 'active' || status === 'inactive';
+}
+
+/**
+ * Share of working results among the recorded validations, the current status included if no history exists
+ */
+function getReliability(feed: FeedHealthInput): number {
+  const statuses = feed.validationHistory?.length ? feed.validationHistory.map((entry) => entry.status) : [feed.status];
+  return toFactor(100 * statuses.filter(isWorking).length / statuses.length);
+}
+
+/**
+ * Recency of the last entry: full while the feed is within its usual gap between posts
+ * (three median intervals, at least a week), then decaying to zero over a year
+ */
+function getFreshness(feed: FeedHealthInput, now: Date): number {
+  const lastUpdate = feed.lastUpdate ? Date.parse(feed.lastUpdate) : NaN;
+  if (isNaN(lastUpdate)) {
+    return 0;
+  }
+  const medianIntervalHours = feed.cadence?.medianIntervalHours;
+  const expectedGapDays = medianIntervalHours !== undefined
+    ? Math.max(7, 3 * medianIntervalHours / 24)
+    : DEFAULT_EXPECTED_GAP_DAYS;
+  const overdueDays = (now.getTime() - lastUpdate) / DAY_MS - expectedGapDays;
+  return toFactor(overdueDays <= 0 ? 100 : 100 * (1 - overdueDays / STALE_AFTER_DAYS));
+}
+
+/**
+ * Speed of the median response time of the successful validations
+ * @returns The factor, or undefined if no response time was recorded
+ */
+function getLatency(feed: FeedHealthInput): number | undefined {
+  const times = (feed.validationHistory ?? [])
+    .filter((entry) => isWorking(entry.status) && entry.responseTimeMs !== undefined)
+    .map((entry) => entry.responseTimeMs!)
+    .sort((a, b) => a - b);
+  if (times.length === 0) {
+    return undefined;
+  }
+  const middle = Math.floor(times.length / 2);
+  const median = times.length % 2 === 0 ? (times[middle - 1] + times[middle]) / 2 : times[middle];
+  return toFactor(100 * (SLOW_RESPONSE_MS - median) / (SLOW_RESPONSE_MS - FAST_RESPONSE_MS));
+}
+
+/**
+ * Computes the health score of a feed
+ * The score is the weighted mean of the factors, capped by the feed's status so that a dead or
+ * incompatible feed never outranks a working one.
+ * @param feed The feed record after its latest validation
+ * @param now The time to measure freshness against
+ * @returns The score from 0 to 100 and its factors
+ */
+export function computeFeedHealth(feed: FeedHealthInput, now: Date = new Date()): FeedHealth {
+  const factors: FeedHealthFactors = {
+    reliability: getReliability(feed),
+    freshness: getFreshness(feed, now),
+    latency: getLatency(feed),
+    warnings: toFactor(100 - WARNING_PENALTY * new Set((feed.warnings ?? []).map((warning) => warning.code)).size),
+    redirects: toFactor(100 - REDIRECT_PENALTY * (feed.redirects?.length ?? 0) - (feed.movedTo ? MOVED_PENALTY : 0))
+  };
+
+  let weighted = 0;
+  let totalWeight = 0;
+  for (const [factor, weight] of Object.entries(FACTOR_WEIGHTS) as [keyof FeedHealthFactors, number][]) {
+    const value = factors[factor];
+    if (value !== undefined) {
+      weighted += weight * value;
+      totalWeight += weight;
+    }
+  }
+  const score = Math.min(STATUS_CAPS[feed.status] ?? 0, Math.round(weighted / totalWeight));
+  return { score, factors };
+}
@@ -0,0 +1,119 @@
+/**
+ * Per-host request scheduler for batch feed validation
+ * Caps overall parallelism, caps in-flight requests per hostname and
+ * enforces a minimum delay between requests to the same hostname.
+ */
+import { ValidationConfig } from "./types/validation.types.ts";
+import { createLogger } from "../utils/logger.ts";
+
+const logger = createLogger("hostScheduler");
+
+type SchedulerOptions = Pick<ValidationConfig, 'maxConcurrency' | 'maxPerHost' | 'hostDelayMs'>;
+
+interface ScheduledTask {
+  host: string;
+  start: () => void;
+}
+
+/**
+ * Extracts the hostname used to group requests
+ * Invalid URLs are grouped under their raw value so they still get scheduled
+ */
+function hostOf(url: string): string {
+  try {
+    return new URL(url).hostname.toLowerCase();
+  } catch {
+    return url;
+  }
+}
+
+export class HostScheduler {
+  private readonly queue: ScheduledTask[] = [];
+  private readonly inFlightByHost = new Map<string, number>();
+  private readonly nextStartByHost = new Map<string, number>();
+  private inFlight = 0;
+  private timer: number | null = null;
+  private timerDue = Infinity;
+
+  constructor(private readonly options: SchedulerOptions) {}
+
+  /**
+   * Schedules a task that requests the given URL
+   * The task starts once both the global and the per-host limits allow it
+   * @param url The URL the task will request (used for per-host limits)
+   * @param task The work to run
+   * @returns Promise resolving with the task's result
+   */
+  run<T>(url: string, task: () => Promise<T>): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      const host = hostOf(url);
+      this.queue.push({
+        host,
+        start: () => {
+          task()
+            .then(resolve, reject)
+            .finally(() => this.release(host));
+        }
+      });
+      this.dispatch();
+    });
+  }
+
+  /**
+   * Starts every queued task whose host currently has capacity
+   */
+  private dispatch(): void {
+    const now = Date.now();
+    let nextWakeUp = Infinity;
+
+    for (let i = 0; i < this.queue.length && this.inFlight < this.options.maxConcurrency;) {
+      const { host, start } = this.queue[i];
+      const hostInFlight = this.inFlightByHost.get(host) ?? 0;
+      const nextStart = this.nextStartByHost.get(host) ?? 0;
+
+      if (hostInFlight < this.options.maxPerHost && nextStart <= now) {
+        // Start the task and reserve the host's next politeness slot
+        this.queue.splice(i, 1);
+        this.inFlight++;
+        this.inFlightByHost.set(host, hostInFlight + 1);
+        this.nextStartByHost.set(host, now + this.options.hostDelayMs);
+        start();
+        continue;
+      }
+
+      // Host has capacity but is still in its politeness delay
+      if (hostInFlight < this.options.maxPerHost) {
+        nextWakeUp = Math.min(nextWakeUp, nextStart);
+      }
+      i++;
+    }
+
+    // Wake up again when the earliest delayed host becomes available
+    if (nextWakeUp < this.timerDue) {
+      if (this.timer !== null) {
+        clearTimeout(this.timer);
+      }
+      this.timerDue = nextWakeUp;
+      this.timer = setTimeout(() => {
+        this.timer = null;
+        this.timerDue = Infinity;
+        this.dispatch();
+      }, Math.max(0, nextWakeUp - now));
+    }
+  }
+
+  /**
+   * Frees the slots held by a finished task and starts waiting tasks
+   */
+  private release(host: string): void {
+    this.inFlight--;
+    const hostInFlight = (this.inFlightByHost.get(host) ?? 1) - 1;
+    if (hostInFlight > 0) {
+      this.inFlightByHost.set(host, hostInFlight);
+    } else {
+      this.inFlightByHost.delete(host);
+    }
+    logger.debug(`Released slot for ${host}, ${this.inFlight} in flight, ${this.queue.length} queued`);
+    this.dispatch();
+  }
+}
@@ -0,0 +1,81 @@
+/**
+ * JSON Feed (https://jsonfeed.org) detection and parsing
+ * Supports versions 1.0 and 1.1; only the fields used by the validators are typed.
+ */
+
+/** MIME types under which JSON Feeds are served */
+const JSON_FEED_CONTENT_TYPES = ["application/feed+json", "application/json"];
+
+/** Prefix of the `version` URL every JSON Feed declares */
+const JSON_FEED_VERSION_PREFIX = "https://jsonfeed.org/version/1";
+
+/**
+ * A JSON Feed item
+ */
+export interface JsonFeedItem {
+  id?: string;
+  url?: string;
+  title?: string;
+  date_published?: string;
+  date_modified?: string;
+  content_html?: string;
+  content_text?: string;
+  summary?: string;
+}
+
+/**
+ * A JSON Feed document
+ */
+export interface JsonFeed {
+  version: string;
+  title?: string;
+  home_page_url?: string;
+  feed_url?: string;
+  description?: string;
+  /** WebSub hubs that push updates of the feed */
+  hubs?: { type?: string; url?: string }[];
+  items: JsonFeedItem[];
+}
+
+/**
+ * Tests if a Content-Type header names a JSON Feed (or generic JSON) document
+ * @param contentType The Content-Type header, possibly with parameters
+ * @returns true for application/feed+json and application/json
+ */
+export function isJsonFeedContentType(contentType: string | null | undefined): boolean {
+  const baseContentType = contentType?.split(";")[0].trim().toLowerCase();
+  return !!baseContentType && JSON_FEED_CONTENT_TYPES.includes(baseContentType);
+}
+
+/**
+ * Parses a response body as a JSON Feed
+ * The body is only accepted if it declares a jsonfeed.org version, so arbitrary JSON is rejected.
+ * A missing `items` array is treated as an empty feed.
+ * @param content The response body
+ * @returns The parsed feed, or null if the body is not a JSON Feed
+ */
+export function parseJsonFeed(content: string): JsonFeed | null {
+  // Cheap check before parsing: JSON Feeds are objects
+  if (!content.trimStart().startsWith("{")) {
+    return null;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    return null;
+  }
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    return null;
+  }
+
+  const feed = parsed as Partial<JsonFeed>;
+  if (typeof feed.version !== "string" || !feed.version.startsWith(JSON_FEED_VERSION_PREFIX)) {
+    return null;
+  }
+  const items = Array.isArray(feed.items)
+    ? feed.items.filter((item): item is JsonFeedItem => !!item && typeof item === "object")
+    : [];
+  return { ...feed, version: feed.version, items };
+}
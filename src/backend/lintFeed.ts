@@ -0,0 +1,165 @@
+/**
+ * Spec-conformance lint for working feeds
+ * Flags problems that feed readers usually tolerate but that feed owners should fix,
+ * e.g. missing or duplicate guids, relative URLs and malformed dates.
+ * Pure analyzer: it inspects the parsed feed and performs no network requests.
+ */
+import { FeedWarning, FeedWarningCode } from "./types/feed.types.ts";
+import { FeedResponse } from "./types/fetch.types.ts";
+import type { ParsedFeed, ParsedFeedEntry } from "./types/rule.types.ts";
+import { parseFeedDate } from "./parseFeedDate.ts";
+import { createLogger } from "../utils/logger.ts";
+
+const logger = createLogger("lintFeed");
+
+/** Feeds larger than this are flagged as oversized (1 MB) */
+const OVERSIZED_FEED_BYTES = 1024 * 1024;
+
+/** RFC 822 date as required by RSS 2.0, with the four-digit years recommended by the spec */
+const RFC822_DATE =
+  /^(?:(?:Mon|Tue|Wed|Thu|Fri|Sat|Sun),\s*)?\d{1,2}\s+(?:Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec)\s+\d{4}\s+\d{2}:\d{2}(?::\d{2})?\s+(?:UT|GMT|EST|EDT|CST|CDT|MST|MDT|PST|PDT|Z|[+-]\d{4})$/;
+
+/** RFC 3339 date-time as required by Atom and JSON Feed */
+const RFC3339_DATE = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d+)?(?:Z|[+-]\d{2}:\d{2})$/i;
+
+/** W3C date and time format used by Dublin Core dates, which may omit the time */
+const W3CDTF_DATE = /^\d{4}(?:-\d{2}(?:-\d{2}(?:T\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:\d{2}))?)?)?$/i;
+
+/** An HTML tag, e.g. in a title that should be plain text */
+const HTML_TAG = /<\/?[a-z][a-z0-9]*(?:\s[^>]*)?>/i;
+
+/** The format each date element or field requires */
+const DATE_FORMATS: Record<string, RegExp> = {
+  pubDate: RFC822_DATE,
+  "dc:date": W3CDTF_DATE,
+  published: RFC3339_DATE,
+  updated: RFC3339_DATE,
+  date_published: RFC3339_DATE,
+  date_modified: RFC3339_DATE
+};
+
+/**
+ * Reads a plain-text title, ignoring titles declared as HTML
+ */
+function plainTitleOf(node: ParsedFeed | ParsedFeedEntry): string | undefined {
+  return node.htmlTitle ? undefined : node.title;
+}
+
+/**
+ * Tests if a URL is absolute, i.e. starts with a scheme
+ */
+function isAbsoluteUrl(url: string): boolean {
+  return /^[a-z][a-z0-9+.-]*:/i.test(url);
+}
+
+/**
+ * Creates a warning about some of a feed's entries
+ */
+function entryWarning(code: FeedWarningCode, count: number, total: number, problem: string): FeedWarning {
+  return { code, count, message: `${count} of ${total} entries ${problem}` };
+}
+
+/**
+ * Runs the lint rules over a feed document
+ * @param document The parsed feed
+ * @param size The body size in bytes
+ * @returns One warning per rule that found a problem
+ */
+function runRules(document: ParsedFeed, size: number): FeedWarning[] {
+  const warnings: FeedWarning[] = [];
+  const { entries } = document;
+  const total = entries.length;
+
+  const missingIds = entries.filter((entry) => !entry.id).length;
+  if (missingIds > 0) {
+    warnings.push(entryWarning("MISSING_GUID", missingIds, total, "have no guid/id"));
+  }
+
+  const seenIds = new Set<string>();
+  let duplicateIds = 0;
+  for (const entry of entries) {
+    if (entry.id && seenIds.has(entry.id)) {
+      duplicateIds++;
+    } else if (entry.id) {
+      seenIds.add(entry.id);
+    }
+  }
+  if (duplicateIds > 0) {
+    warnings.push(entryWarning("DUPLICATE_GUID", duplicateIds, total, "repeat the guid/id of an earlier entry"));
+  }
+
+  const missingLinks = entries.filter((entry) => !entry.link).length;
+  if (!document.link || missingLinks > 0) {
+    const problems = [
+      ...(document.link ? [] : ["The feed has no link to its website"]),
+      ...(missingLinks > 0 ? [`${missingLinks} of ${total} entries have no link`] : [])
+    ];
+    warnings.push({ code: "MISSING_LINK", count: missingLinks || undefined, message: problems.join("; ") });
+  }
+
+  if (!document.hasBase) {
+    const relativeUrls = [...document.urls, ...entries.flatMap((entry) => entry.urls)].filter((url) => !isAbsoluteUrl(url));
+    if (relativeUrls.length > 0) {
+      warnings.push({
+        code: "RELATIVE_URL",
+        count: relativeUrls.length,
+        message: `${relativeUrls.length} relative URLs, e.g. ${relativeUrls[0]}`
+      });
+    }
+  }
+
+  const invalidDates = entries
+    .flatMap((entry) => entry.dates)
+    .filter((date) => {
+      const format = DATE_FORMATS[date.source];
+      return (format && !format.test(date.value)) || !parseFeedDate(date.value);
+    });
+  if (invalidDates.length > 0) {
+    warnings.push({
+      code: "INVALID_DATE",
+      count: invalidDates.length,
+      message: `${invalidDates.length} dates do not follow the feed's date format, e.g. "${invalidDates[0].value}"`
+    });
+  }
+
+  if (!document.selfLink) {
+    warnings.push({ code: "MISSING_SELF_LINK", message: "The feed does not declare its own URL (self link or feed_url)" });
+  }
+
+  if (size > OVERSIZED_FEED_BYTES) {
+    warnings.push({
+      code: "OVERSIZED_FEED",
+      message: `The feed is ${(size / 1024 / 1024).toFixed(1)} MB; consider limiting the number of entries`
+    });
+  }
+
+  const titles = [plainTitleOf(document), ...entries.map(plainTitleOf)];
+  const htmlTitles = titles.filter((title) => title && HTML_TAG.test(title)).length;
+  if (htmlTitles > 0) {
+    warnings.push({ code: "HTML_IN_TITLE", count: htmlTitles, message: `${htmlTitles} titles contain HTML markup` });
+  }
+
+  return warnings;
+}
+
+/**
+ * Lints a working feed for spec-conformance problems
+ * @param response The fetched feed response
+ * @param feed The response body parsed with parseFeedDocument
+ * @returns The problems found, empty if the feed conforms or cannot be parsed
+ */
+export function lintFeed(response: FeedResponse, feed: ParsedFeed | null): FeedWarning[] {
+  if (!feed) {
+    return [];
+  }
+  try {
+    const warnings = runRules(feed, new TextEncoder().encode(response.body).byteLength);
+    if (warnings.length > 0) {
+      logger.debug(`Feed ${response.url} has ${warnings.length} lint warnings: ${warnings.map((warning) => warning.code).join(", ")}`);
+    }
+    return warnings;
+  } catch (error) {
+    logger.debug(`Cannot lint feed ${response.url}:`, error);
+    return [];
+  }
+}
@@ -0,0 +1,62 @@
+import { assertEquals } from "@std/assert";
+import { lintFeed } from "./lintFeed.ts";
+import { parseFeedDocument } from "./parseFeedDocument.ts";
+import type { FeedResponse } from "./types/fetch.types.ts";
+
+const FEED_URL = "https://blog.example.com/feed.xml";
+
+function createResponse(body: string): FeedResponse {
+  return {
+    url: FEED_URL,
+    finalUrl: FEED_URL,
+    redirects: [],
+    status: 200,
+    statusText: "OK",
+    ok: true,
+    headers: new Headers({ "content-type": "application/rss+xml" }),
+    contentType: "application/rss+xml",
+    body,
+    attempts: 1,
+    notModified: false
+  };
+}
+
+function createRss(channelLinks: string, itemLinks: string): string {
+  return `<?xml version="1.0"?>
+<rss version="2.0">
+  <channel>
+    <title>Example blog</title>
+    ${channelLinks}
+    <item>
+      <title>First post</title>
+      <guid>https://blog.example.com/first</guid>
+      ${itemLinks}
+      <pubDate>Fri, 05 Jan 2024 10:00:00 +0100</pubDate>
+    </item>
+  </channel>
+</rss>`;
+}
+
+function lint(body: string) {
+  return lintFeed(createResponse(body), parseFeedDocument(body));
+}
+
+Deno.test("lintFeed reads the RSS link next to Atom-style links without a namespace", () => {
+  const body = createRss(
+    `<link href="${FEED_URL}" rel="self" type="application/rss+xml"/>
+    <link>https://blog.example.com/</link>`,
+    `<link rel="alternate" href="https://blog.example.com/first"/>
+      <link>https://blog.example.com/first</link>`
+  );
+  assertEquals(lint(body).some((warning) => warning.code === "MISSING_LINK"), false);
+});
+
+Deno.test("lintFeed flags an RSS feed whose links have no text", () => {
+  const body = createRss(`<link href="${FEED_URL}" rel="self"/>`, "");
+  const warning = lint(body).find((warning) => warning.code === "MISSING_LINK");
+  assertEquals(warning, {
+    code: "MISSING_LINK",
+    count: 1,
+    message: "The feed has no link to its website; 1 of 1 entries have no link"
+  });
+});
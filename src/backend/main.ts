@@ -1,16 +1,19 @@
 /**
  * Main entry point for the OPML feed validator and analyzer
  * Processes an OPML file containing RSS/Atom feeds and:
- * 1. Validates feed accessibility
- * 2. Checks feed format compatibility
- * 3. Checks update frequency
+ * 1. Fetches each feed once and validates its accessibility
+ * 2. Checks feed format compatibility on the same response
+ * 3. Checks update frequency on the same response
  * 4. Categorizes feeds (active/inactive/dead/incompatible)
  * 5. Generates statistics and visualizations
  */
 import { parseOPML } from "./parseOPML.ts";
-import { checkFeedAccessibility } from "./checkFeedAccessibility.ts";
-import { checkFeedCompatibility } from "./checkFeedCompatibility.ts";
-import { getFeedUpdateFrequency } from "./getFeedUpdateFrequency.ts";
+import { validateFeed } from "./validateFeed.ts";
+import { loadValidationRules } from "./validationRules.ts";
+import { discoverFeed } from "./discoverFeed.ts";
+import { getErrorMessage } from "./feedErrors.ts";
+import { HostScheduler } from "./hostScheduler.ts";
+import { getFetchLimits, getRetryOptions, loadValidationConfig } from "./validationConfig.ts";
 import { generateNewOPML } from "./generateNewOPML.ts";
 import { generateStatistics } from "./writeStatistics.ts";
 import { basename } from "@std/path";
@@ -34,46 +37,75 @@ async function main() {
   const opmlData = await parseOPML(inputFilePath);
 
   // Step 2: Process each feed in each category
-  logger.info("Validating feeds...");
+  // Feeds are validated in parallel under the shared per-host scheduler limits
+  const config = loadValidationConfig();
+  const rules = await loadValidationRules(config.rulesModule);
+  const scheduler = new HostScheduler(config);
+  logger.info(`Validating feeds (concurrency ${config.maxConcurrency}, ${config.maxPerHost} per host, ${config.hostDelayMs}ms host delay)...`);
+  const validations: Promise<void>[] = [];
   for (const [category, feeds] of Object.entries(opmlData.categories)) {
     logger.info(`Processing category: ${category}`);
     for (const feed of feeds) {
-      logger.debug(`Checking feed: ${feed.url}`);
-      
-      // First check if the feed URL is accessible
-      const isAccessible = await checkFeedAccessibility(feed.url);
-      if (!isAccessible) {
-        feed.status = "dead";
-        feed.incompatibleReason = "Feed URL is not accessible";
-        logger.info(`Feed is not accessible. Marked as dead.`);
-        continue;
-      }
+      validations.push(scheduler.run(feed.url, async () => {
+        try {
+          logger.debug(`Checking feed: ${feed.url}`);
 
-      // If accessible, check feed format compatibility
-      logger.debug(`Feed is accessible. Checking format compatibility...`);
-      const compatibilityCheck = await checkFeedCompatibility(feed.url);
-      feed.status = compatibilityCheck.status;
-      feed.incompatibleReason = compatibilityCheck.incompatibleReason;
-
-      // Only check update frequency for compatible feeds
-      if (feed.status === 'active') {
-        logger.debug(`Feed format is valid. Fetching update frequency...`);
-        const feedStatus = await getFeedUpdateFrequency(feed.url);
-        feed.status = feedStatus.status;
-        feed.lastUpdate = feedStatus.lastUpdate;
-        feed.updatesInLast3Months = feedStatus.updatesInLast3Months;
-        feed.text = feedStatus.text;
-        feed.title = feedStatus.title;
-        feed.type = feedStatus.type;
-        feed.htmlUrl = feedStatus.htmlUrl;
-        feed.description = feedStatus.description;
-        feed.incompatibleReason = feedStatus.incompatibleReason;
-        logger.info(`Feed status: ${feed.status}${feedStatus.incompatibleReason ? ': ' + feedStatus.incompatibleReason : ''}`);
-      } else {
-        logger.info(`Feed marked as ${feed.status}${feed.incompatibleReason ? ': ' + feed.incompatibleReason : ''}`);
-      }
+          // Fetch the feed once and run the built-in and custom validation rules over the same response
+          const result = await validateFeed(feed.url, {
+            retry: getRetryOptions(config),
+            limits: getFetchLimits(config),
+            rules
+          });
+          feed.status = result.status;
+          feed.incompatibleReason = result.error;
+          feed.failure = result.failure;
+          feed.warnings = result.failure ? feed.warnings : result.warnings;
+          feed.moveSignal = result.failure ? feed.moveSignal : result.moveSignal;
+          feed.podcast = result.failure ? feed.podcast : result.podcast;
+          feed.websub = result.failure ? feed.websub : result.websub;
+          feed.httpsUrl = result.failure ? feed.httpsUrl : result.httpsUrl;
+          feed.lastUpdate = result.lastUpdate ?? feed.lastUpdate;
+          feed.updatesInLast3Months = result.updatesInLast3Months ?? feed.updatesInLast3Months;
+          feed.cadence = result.cadence ?? feed.cadence;
+          feed.dateReport = result.dateReport ?? feed.dateReport;
+          feed.text = result.text || feed.text;
+          feed.title = result.title || feed.title;
+          feed.type = result.type || feed.type;
+          feed.htmlUrl = result.htmlUrl || feed.htmlUrl;
+          feed.description = result.description || feed.description;
+          feed.suggestedUrl = result.suggestedUrl;
+          // A dead feed's website may still publish a feed under a new URL
+          if (feed.status === 'dead' && !feed.suggestedUrl && feed.htmlUrl) {
+            try {
+              feed.suggestedUrl = await discoverFeed(feed.htmlUrl, { exclude: [feed.url], limits: getFetchLimits(config) });
+            } catch (error) {
+              logger.warn(`Feed discovery failed for ${feed.htmlUrl}:`, error);
+            }
+          }
+          if (feed.suggestedUrl) {
+            logger.info(`Feed ${feed.url} could be replaced by discovered feed ${feed.suggestedUrl}`);
+          }
+          if (result.movedTo) {
+            if (config.autoMigrateRedirects) {
+              logger.info(`Feed ${feed.url} permanently moved, using new URL ${result.movedTo}`);
+              feed.url = result.movedTo;
+            } else {
+              logger.info(`Feed ${feed.url} permanently moved to ${result.movedTo} (set VALIDATION_AUTO_MIGRATE_REDIRECTS=true to update it)`);
+            }
+          }
+        } catch (error) {
+          // One broken validation, e.g. a custom rule module that throws, must not end the run
+          const message = `Validation failed: ${getErrorMessage(error)}`;
+          logger.error(`Feed ${feed.url} could not be validated:`, error);
+          feed.status = 'incompatible';
+          feed.incompatibleReason = message;
+          feed.failure = { code: 'PARSE_ERROR', message };
+        }
+        logger.info(`Feed ${feed.url} status: ${feed.status}${feed.failure ? ` [${feed.failure.code}]: ${feed.failure.message}` : ''}`);
+      }));
     }
   }
+  await Promise.all(validations);
 
   // Step 3: Generate new OPML files for each feed status category
   logger.info("Generating new OPML file...");
@@ -0,0 +1,243 @@
+/**
+ * Tolerant date parsing for feed entries
+ * Reads ISO 8601 and RFC 822 dates including common malformations: non-English month and day names,
+ * missing or abbreviated timezones and two-digit years. Dates without a timezone are read as UTC.
+ * Has no runtime dependencies so it can be shared with the frontend.
+ */
+import { FeedDateReport } from "./types/feed.types.ts";
+
+/** Entry dates further in the future than this are clamped to the current time */
+const FUTURE_TOLERANCE_MS = 60 * 60 * 1000;
+
+/** Month names and abbreviations (English, German, French, Spanish, Italian, Dutch, Portuguese), by month index */
+const MONTH_NAMES: string[][] = [
+  ["jan", "january", "januar", "janvier", "janv", "enero", "ene", "gennaio", "gen", "januari", "janeiro"],
+  ["feb", "february", "februar", "février", "fevrier", "févr", "fevr", "febrero", "febbraio", "februari", "fevereiro", "fev"],
+  ["mar", "march", "märz", "maerz", "mär", "mrz", "mars", "marzo", "maart", "mrt", "março", "marco"],
+  ["apr", "april", "avril", "avr", "abril", "abr", "aprile"],
+  ["may", "mai", "mayo", "maggio", "mag", "mei", "maio"],
+  ["jun", "june", "juni", "juin", "junio", "giugno", "giu", "junho"],
+  ["jul", "july", "juli", "juillet", "juil", "julio", "luglio", "lug", "julho"],
+  ["aug", "august", "août", "aout", "agosto", "ago", "augustus"],
+  ["sep", "sept", "september", "septembre", "septiembre", "setiembre", "settembre", "set", "setembro"],
+  ["oct", "october", "oktober", "okt", "octobre", "octubre", "ottobre", "ott", "outubro", "out"],
+  ["nov", "november", "novembre", "noviembre", "novembro"],
+  ["dec", "december", "dezember", "dez", "décembre", "decembre", "déc", "diciembre", "dic", "dicembre", "dezembro"]
+];
+
+const MONTHS = new Map(MONTH_NAMES.flatMap((names, index) => names.map((name) => [name, index] as const)));
+
+/** Timezone abbreviations and their UTC offset in minutes (RFC 822 zones plus common ones) */
+const TIMEZONES: Record<string, number> = {
+  ut: 0, utc: 0, gmt: 0, z: 0, wet: 0,
+  est: -300, edt: -240, cst: -360, cdt: -300, mst: -420, mdt: -360, pst: -480, pdt: -420,
+  akst: -540, akdt: -480, hst: -600,
+  bst: 60, west: 60, cet: 60, cest: 120, met: 60, mest: 120, mez: 60, mesz: 120, eet: 120, eest: 180, msk: 180,
+  hkt: 480, sgt: 480, awst: 480, jst: 540, kst: 540, acst: 570, aest: 600, aedt: 660, nzst: 720, nzdt: 780
+};
+
+/**
+ * Parses an ISO 8601 date, reading it as UTC if it has no timezone
+ * Also accepts a space instead of the "T" separator, as written by many generators
+ * @returns The date, or null if the value is not an ISO 8601 date
+ */
+function parseIsoDate(value: string): Date | null {
+  const match = value.match(
+    /^(\d{4})-(\d{2})-(\d{2})(?:[T\s]+(\d{2}):(\d{2})(?::(\d{2})(?:[.,]\d+)?)?)?\s*(Z|[+-]\d{2}:?\d{2})?$/i
+  );
+  if (!match) {
+    return null;
+  }
+  const [, year, month, day, hours = "0", minutes = "0", seconds = "0", zone] = match;
+  return buildDate(+year, +month - 1, +day, +hours, +minutes, +seconds, zone ? parseOffset(zone) : 0);
+}
+
+/**
+ * Parses a numeric offset such as "+0200", "-05:00" or "Z"
+ * @returns The offset in minutes, or null if the value is not an offset
+ */
+function parseOffset(value: string): number | null {
+  if (value.toLowerCase() === "z") {
+    return 0;
+  }
+  const match = value.match(/^([+-])(\d{2}):?(\d{2})$/);
+  if (!match) {
+    return null;
+  }
+  const minutes = +match[2] * 60 + +match[3];
+  return match[1] === "-" ? -minutes : minutes;
+}
+
+/**
+ * Builds a date from UTC-relative fields, rejecting out-of-range values instead of rolling them over
+ * @returns The date, or null if a field is out of range
+ */
+function buildDate(
+  year: number,
+  month: number,
+  day: number,
+  hours: number,
+  minutes: number,
+  seconds: number,
+  offsetMinutes: number | null
+): Date | null {
+  if (
+    offsetMinutes === null || month < 0 || month > 11 || day < 1 || day > 31 ||
+    hours > 23 || minutes > 59 || seconds > 60
+  ) {
+    return null;
+  }
+  const time = Date.UTC(year, month, day, hours, minutes, Math.min(seconds, 59));
+  // Reject days that do not exist in the month, e.g. 31 April
+  if (new Date(time).getUTCDate() !== day) {
+    return null;
+  }
+  return new Date(time - offsetMinutes * 60 * 1000);
+}
+
+/**
+ * Parses an RFC 822 style date token by token, e.g. "Mon, 5 Jan 2024 10:00:00 +0100"
+ * Day names and unknown words are ignored, month names may be localized (a leading day name that
+ * doubles as a month abbreviation yields to the month that follows it),
+ * the timezone may be missing (UTC), numeric or abbreviated, and two-digit years are expanded.
+ * @returns The date, or null if day, month or year cannot be found
+ */
+function parseRfc822Date(value: string): Date | null {
+  const tokens = value.toLowerCase().split(/[\s,]+/).filter(Boolean);
+  let day: number | undefined;
+  const months: { index: number; month: number }[] = [];
+  let year: number | undefined;
+  let time: number[] | undefined;
+  let offset: number | null = 0;
+  let meridiem: string | undefined;
+
+  for (const [index, rawToken] of tokens.entries()) {
+    const token = rawToken.replace(/\.$/, "");
+    const timeMatch = token.match(/^(\d{1,2}):(\d{2})(?::(\d{2}))?(?:\.\d+)?(z|[+-]\d{2}:?\d{2})?$/);
+    if (timeMatch && !time) {
+      time = [+timeMatch[1], +timeMatch[2], +(timeMatch[3] ?? 0)];
+      if (timeMatch[4]) {
+        offset = parseOffset(timeMatch[4]);
+      }
+    } else if (MONTHS.has(token)) {
+      months.push({ index, month: MONTHS.get(token)! });
+    } else if (/^\d{4}$/.test(token) && year === undefined) {
+      year = +token;
+    } else if (/^\d{1,2}$/.test(token)) {
+      if (day === undefined) {
+        day = +token;
+      } else if (year === undefined) {
+        year = +token < 50 ? 2000 + +token : 1900 + +token;
+      }
+    } else if (token === "am" || token === "pm") {
+      meridiem = token;
+    } else if (/^[+-]\d{2}:?\d{2}$/.test(token)) {
+      offset = parseOffset(token);
+    } else if (Object.hasOwn(TIMEZONES, token)) {
+      offset = TIMEZONES[token];
+    } else if (/^\(.*\)$/.test(token)) {
+      // Comments such as "(CET)" after a numeric offset carry no extra information
+      continue;
+    }
+    // Anything else (day names, "at", ...) is ignored
+  }
+
+  // A leading word that is also a month name is the day name if another month follows,
+  // e.g. "mar." (mardi, martes) in "mar., 05 janv. 2024"
+  const month = (months.length > 1 ? months.find((candidate) => candidate.index > 0) : months[0])?.month;
+  if (day === undefined || month === undefined || year === undefined) {
+    return null;
+  }
+  let [hours, minutes, seconds] = time ?? [0, 0, 0];
+  if (meridiem && hours >= 1 && hours <= 12) {
+    hours = (hours % 12) + (meridiem === "pm" ? 12 : 0);
+  }
+  return buildDate(year, month, day, hours, minutes, seconds, offset);
+}
+
+/**
+ * Parses a feed date, trying ISO 8601, tolerant RFC 822 and finally the JavaScript date parser
+ * @param value A date string as found in the feed, or a Date already parsed by the feed parser
+ * @returns The date, or null if no strategy can read it
+ */
+export function parseFeedDate(value: string | Date | null | undefined): Date | null {
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? null : value;
+  }
+  const trimmed = value?.trim();
+  if (!trimmed) {
+    return null;
+  }
+  const parsed = parseIsoDate(trimmed) ?? parseRfc822Date(trimmed);
+  if (parsed) {
+    return parsed;
+  }
+  const fallback = new Date(trimmed);
+  return isNaN(fallback.getTime()) ? null : fallback;
+}
+
+/**
+ * Feed-level dates used when no entry has a readable date
+ */
+export interface FeedDateFallbacks {
+  /** The channel's lastBuildDate (or the Atom feed's updated date) */
+  lastBuildDate?: string | Date;
+  /** The HTTP Last-Modified header of the response */
+  lastModified?: string | null;
+}
+
+/**
+ * Dates resolved for a feed, with a report of how they were obtained
+ */
+export interface ResolvedFeedDates {
+  /** Entry dates in entry order, or the single fallback date; future dates are clamped */
+  dates: Date[];
+  /** Where the dates came from and which entries needed attention */
+  report: FeedDateReport;
+}
+
+/**
+ * Resolves the dates of a feed's entries
+ * Each entry uses its first readable candidate (e.g. published, then updated, then dc:date).
+ * If no entry has a readable date, the channel's lastBuildDate and then the HTTP Last-Modified header are used.
+ * @param entryCandidates For each entry, its candidate date values in order of preference
+ * @param fallbacks Feed-level dates to fall back to
+ * @param now The current time, to clamp future dates
+ * @returns The resolved dates, or null if every strategy failed
+ */
+export function resolveFeedDates(
+  entryCandidates: (string | Date | null | undefined)[][],
+  fallbacks: FeedDateFallbacks = {},
+  now = new Date()
+): ResolvedFeedDates | null {
+  let future = 0;
+  const clamp = (date: Date): Date => {
+    if (date.getTime() > now.getTime() + FUTURE_TOLERANCE_MS) {
+      future++;
+      return new Date(now);
+    }
+    return date;
+  };
+
+  const dates: Date[] = [];
+  for (const candidates of entryCandidates) {
+    const date = candidates.map(parseFeedDate).find((parsed) => parsed !== null);
+    if (date) {
+      dates.push(clamp(date));
+    }
+  }
+  const undated = entryCandidates.length - dates.length;
+  if (dates.length > 0) {
+    return { dates, report: { source: "entries", undated, future } };
+  }
+
+  const lastBuildDate = parseFeedDate(fallbacks.lastBuildDate);
+  if (lastBuildDate) {
+    return { dates: [clamp(lastBuildDate)], report: { source: "lastBuildDate", undated, future } };
+  }
+  const lastModified = parseFeedDate(fallbacks.lastModified);
+  if (lastModified) {
+    return { dates: [clamp(lastModified)], report: { source: "lastModified", undated, future } };
+  }
+  return null;
+}
@@ -0,0 +1,44 @@
+import { assertEquals } from "@std/assert";
+import { parseFeedDate, resolveFeedDates } from "./parseFeedDate.ts";
+
+Deno.test("parseFeedDate reads RFC 822 and ISO 8601 dates", () => {
+  assertEquals(parseFeedDate("Fri, 05 Jan 2024 10:00:00 +0100")?.toISOString(), "2024-01-05T09:00:00.000Z");
+  assertEquals(parseFeedDate("2024-01-05T10:00:00+01:00")?.toISOString(), "2024-01-05T09:00:00.000Z");
+  assertEquals(parseFeedDate("2024-01-05 10:00:00")?.toISOString(), "2024-01-05T10:00:00.000Z");
+  assertEquals(parseFeedDate("Fri, 05 Jan 24 10:00 EST")?.toISOString(), "2024-01-05T15:00:00.000Z");
+});
+
+Deno.test("parseFeedDate reads localized month names", () => {
+  assertEquals(parseFeedDate("Fr, 05 Januar 2024 10:00:00 +0100")?.toISOString(), "2024-01-05T09:00:00.000Z");
+  assertEquals(parseFeedDate("05 mars 2024 10:00:00 GMT")?.toISOString(), "2024-03-05T10:00:00.000Z");
+  assertEquals(parseFeedDate("Mar 5 2024 10:00 pm")?.toISOString(), "2024-03-05T22:00:00.000Z");
+});
+
+Deno.test("parseFeedDate does not read a day name that is also a month abbreviation as the month", () => {
+  // "mar." is mardi (French), martes (Spanish) and martedì (Italian)
+  assertEquals(parseFeedDate("mar., 05 janv. 2024 10:00:00 +0100")?.toISOString(), "2024-01-05T09:00:00.000Z");
+  assertEquals(parseFeedDate("mar, 05 ene 2024 10:00:00 +0100")?.toISOString(), "2024-01-05T09:00:00.000Z");
+  assertEquals(parseFeedDate("mar, 09 gen 2024 10:00:00 +0100")?.toISOString(), "2024-01-09T09:00:00.000Z");
+  assertEquals(parseFeedDate("mar., 05 mars 2024 10:00:00 +0100")?.toISOString(), "2024-03-05T09:00:00.000Z");
+});
+
+Deno.test("parseFeedDate returns null for unreadable values", () => {
+  assertEquals(parseFeedDate("not a date"), null);
+  assertEquals(parseFeedDate(""), null);
+});
+
+Deno.test("resolveFeedDates falls back to feed-level dates and clamps future dates", () => {
+  const now = new Date("2024-06-01T00:00:00Z");
+
+  const fromEntries = resolveFeedDates([["garbage", "2024-05-01T00:00:00Z"], ["2030-01-01T00:00:00Z"], []], {}, now);
+  assertEquals(fromEntries?.dates.map((date) => date.toISOString()), ["2024-05-01T00:00:00.000Z", now.toISOString()]);
+  assertEquals(fromEntries?.report, { source: "entries", undated: 1, future: 1 });
+
+  const fromChannel = resolveFeedDates([[undefined]], { lastBuildDate: "Wed, 01 May 2024 00:00:00 GMT" }, now);
+  assertEquals(fromChannel?.report.source, "lastBuildDate");
+
+  const fromHeader = resolveFeedDates([], { lastModified: "Wed, 01 May 2024 00:00:00 GMT" }, now);
+  assertEquals(fromHeader?.report.source, "lastModified");
+
+  assertEquals(resolveFeedDates([["garbage"]], {}, now), null);
+});
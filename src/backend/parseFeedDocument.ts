@@ -0,0 +1,196 @@
+/**
+ * Format-independent feed parsing
+ * Reduces RSS 2.0, RSS 1.0 (RDF), Atom and JSON Feed documents to the same shape. The rule chain parses
+ * each response once, and the built-in analyses and custom rules all read this document.
+ */
+import { parse } from "@libs/xml";
+import { ParsedFeed, ParsedFeedDate, ParsedFeedEntry } from "./types/rule.types.ts";
+import { JsonFeed, parseJsonFeed } from "./jsonFeed.ts";
+import { asArray, attributeOf, findLink, linkTextOf, textOf, XmlNode } from "./xmlNode.ts";
+
+/**
+ * Reads a string field of an untrusted JSON object
+ */
+function stringOf(value: unknown): string | undefined {
+  return typeof value === "string" && value.trim() ? value : undefined;
+}
+
+/**
+ * Collects the dates of an element or object in the given order of preference
+ */
+function collectDates(node: Record<string, unknown>, sources: string[], read: (value: unknown) => string | undefined): ParsedFeedDate[] {
+  return sources.flatMap((source) => {
+    const value = read(node[source]);
+    return value ? [{ source, value }] : [];
+  });
+}
+
+/**
+ * Tests if an Atom-style text element is declared as HTML markup
+ */
+function isHtmlText(value: unknown): boolean {
+  const type = attributeOf(value, "type");
+  return type === "html" || type === "xhtml";
+}
+
+/**
+ * Reads the href of every Atom-style <link> element
+ */
+function hrefsOf(links: unknown): string[] {
+  return asArray(links).map((link) => attributeOf(link, "href")).filter((url): url is string => !!url);
+}
+
+/**
+ * Reads the hrefs of the Atom-style <link> elements with a relation
+ */
+function hrefsWithRel(links: unknown[], rel: string): string[] {
+  return hrefsOf(links.filter((link) => attributeOf(link, "rel") === rel));
+}
+
+/**
+ * Reduces a JSON Feed
+ */
+function fromJsonFeed(feed: JsonFeed): ParsedFeed {
+  const link = stringOf(feed.home_page_url);
+  const hubs = Array.isArray(feed.hubs) ? feed.hubs : [];
+  return {
+    format: "json",
+    title: stringOf(feed.title),
+    link,
+    description: stringOf(feed.description),
+    selfLink: stringOf(feed.feed_url),
+    hubs: hubs.map((hub) => stringOf(hub?.url)).filter((url): url is string => !!url),
+    urls: link ? [link] : [],
+    hasBase: false,
+    itunes: false,
+    entries: feed.items.map((item): ParsedFeedEntry => {
+      const dates = collectDates({ ...item }, ["date_published", "date_modified"], stringOf);
+      const url = stringOf(item.url);
+      return {
+        id: item.id !== undefined && item.id !== null ? String(item.id) : undefined,
+        title: stringOf(item.title),
+        link: url,
+        summary: stringOf(item.summary),
+        content: stringOf(item.content_html) ?? stringOf(item.content_text),
+        published: dates[0]?.value,
+        dates,
+        enclosures: [],
+        urls: url ? [url] : []
+      };
+    }),
+    document: feed
+  };
+}
+
+/**
+ * Reduces an RSS 2.0 or RSS 1.0 (RDF) channel
+ */
+function fromRss(format: "rss" | "rdf", document: XmlNode, channel: XmlNode, items: unknown[]): ParsedFeed {
+  const link = linkTextOf(channel.link);
+  const atomLinks = [...asArray(channel["atom:link"]), ...asArray(channel["atom10:link"])];
+  const image = channel.image as XmlNode | undefined;
+  return {
+    format,
+    title: textOf(channel.title),
+    link,
+    description: textOf(channel.description),
+    updated: textOf(channel.lastBuildDate) ?? textOf(channel["dc:date"]),
+    selfLink: findLink(atomLinks, "self"),
+    hubs: hrefsWithRel(atomLinks, "hub"),
+    newFeedUrl: textOf(channel["itunes:new-feed-url"]),
+    urls: link ? [link] : [],
+    hasBase: attributeOf(channel, "xml:base") !== undefined,
+    itunes: Object.keys(channel).some((key) => key.startsWith("itunes:")),
+    image: attributeOf(channel["itunes:image"], "href") ?? textOf(image?.url),
+    entries: items.map((value): ParsedFeedEntry => {
+      const item = (value ?? {}) as XmlNode;
+      const itemLink = linkTextOf(item.link);
+      const enclosures = asArray(item.enclosure)
+        .map((enclosure) => attributeOf(enclosure, "url"))
+        .filter((url): url is string => !!url);
+      const dates = collectDates(item, ["pubDate", "dc:date"], textOf);
+      return {
+        id: textOf(item.guid) ?? attributeOf(item, "rdf:about"),
+        title: textOf(item.title),
+        link: itemLink,
+        summary: textOf(item.description),
+        content: textOf(item["content:encoded"]),
+        published: dates[0]?.value,
+        dates,
+        enclosures,
+        urls: itemLink ? [itemLink, ...enclosures] : enclosures,
+        duration: textOf(item["itunes:duration"])
+      };
+    }),
+    document
+  };
+}
+
+/**
+ * Reduces an Atom feed
+ */
+function fromAtom(document: XmlNode, feed: XmlNode): ParsedFeed {
+  const links = asArray(feed.link);
+  return {
+    format: "atom",
+    title: textOf(feed.title),
+    htmlTitle: isHtmlText(feed.title),
+    link: findLink(links, "alternate"),
+    description: textOf(feed.subtitle),
+    updated: textOf(feed.updated),
+    selfLink: findLink(links, "self"),
+    hubs: hrefsWithRel(links, "hub"),
+    urls: hrefsOf(links),
+    hasBase: attributeOf(feed, "xml:base") !== undefined,
+    itunes: false,
+    image: textOf(feed.logo) ?? textOf(feed.icon),
+    entries: asArray(feed.entry).map((value): ParsedFeedEntry => {
+      const entry = (value ?? {}) as XmlNode;
+      const entryLinks = asArray(entry.link);
+      const dates = collectDates(entry, ["published", "updated"], textOf);
+      return {
+        id: textOf(entry.id),
+        title: textOf(entry.title),
+        htmlTitle: isHtmlText(entry.title),
+        link: findLink(entryLinks, "alternate"),
+        summary: textOf(entry.summary),
+        content: textOf(entry.content),
+        published: dates[0]?.value,
+        dates,
+        enclosures: hrefsWithRel(entryLinks, "enclosure"),
+        urls: hrefsOf(entryLinks)
+      };
+    }),
+    document
+  };
+}
+
+/**
+ * Parses a feed body into a format-independent document
+ * An Atom <feed> must have a title or entries to count as a feed.
+ * @param body The response body
+ * @returns The parsed feed, or null if the body is neither RSS/Atom nor JSON Feed
+ */
+export function parseFeedDocument(body: string): ParsedFeed | null {
+  const jsonFeed = parseJsonFeed(body);
+  if (jsonFeed) {
+    return fromJsonFeed(jsonFeed);
+  }
+  let parsed: XmlNode;
+  try {
+    parsed = parse(body) as XmlNode;
+  } catch {
+    return null;
+  }
+  const rss = parsed.rss as XmlNode | undefined;
+  if (rss && typeof rss === "object") {
+    const channel = (rss.channel ?? {}) as XmlNode;
+    return fromRss("rss", parsed, channel, asArray(channel.item));
+  }
+  const rdf = parsed["rdf:RDF"] as XmlNode | undefined;
+  if (rdf && typeof rdf === "object") {
+    return fromRss("rdf", parsed, (rdf.channel ?? {}) as XmlNode, asArray(rdf.item));
+  }
+  const feed = parsed.feed as XmlNode | undefined;
+  return feed && typeof feed === "object" && (feed.entry || feed.title) ? fromAtom(parsed, feed) : null;
+}
@@ -0,0 +1,89 @@
+import { assertEquals } from "@std/assert";
+import { parseFeedDocument } from "./parseFeedDocument.ts";
+
+Deno.test("parseFeedDocument reduces an RSS channel with Atom and iTunes elements", () => {
+  const feed = parseFeedDocument(`<?xml version="1.0"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:itunes="http://www.itunes.com/dtds/podcast-1.0.dtd">
+  <channel>
+    <title>Example podcast</title>
+    <link href="https://example.com/feed.xml" rel="self"/>
+    <link>https://example.com/</link>
+    <atom:link href="https://example.com/feed.xml" rel="self"/>
+    <atom:link href="https://hub.example.com/" rel="hub"/>
+    <lastBuildDate>Fri, 05 Jan 2024 10:00:00 +0000</lastBuildDate>
+    <itunes:image href="https://example.com/cover.jpg"/>
+    <itunes:new-feed-url>https://podcasts.example.com/feed.xml</itunes:new-feed-url>
+    <item>
+      <title>Episode 1</title>
+      <link>https://example.com/1</link>
+      <pubDate>Fri, 05 Jan 2024 10:00:00 +0000</pubDate>
+      <enclosure url="https://cdn.example.com/1.mp3" type="audio/mpeg" length="1"/>
+      <itunes:duration>12:30</itunes:duration>
+    </item>
+  </channel>
+</rss>`);
+
+  assertEquals(feed?.format, "rss");
+  assertEquals(feed?.link, "https://example.com/");
+  assertEquals(feed?.selfLink, "https://example.com/feed.xml");
+  assertEquals(feed?.hubs, ["https://hub.example.com/"]);
+  assertEquals(feed?.newFeedUrl, "https://podcasts.example.com/feed.xml");
+  assertEquals(feed?.updated, "Fri, 05 Jan 2024 10:00:00 +0000");
+  assertEquals(feed?.itunes, true);
+  assertEquals(feed?.image, "https://example.com/cover.jpg");
+  assertEquals(feed?.entries[0].link, "https://example.com/1");
+  assertEquals(feed?.entries[0].dates, [{ source: "pubDate", value: "Fri, 05 Jan 2024 10:00:00 +0000" }]);
+  assertEquals(feed?.entries[0].urls, ["https://example.com/1", "https://cdn.example.com/1.mp3"]);
+  assertEquals(feed?.entries[0].duration, "12:30");
+});
+
+Deno.test("parseFeedDocument reduces an Atom feed", () => {
+  const feed = parseFeedDocument(`<?xml version="1.0"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <title type="html">Example &lt;b&gt;blog&lt;/b&gt;</title>
+  <link href="https://example.com/"/>
+  <link href="https://example.com/atom.xml" rel="self"/>
+  <updated>2024-01-05T10:00:00Z</updated>
+  <entry>
+    <id>urn:example:1</id>
+    <title>First post</title>
+    <link href="https://example.com/1" rel="alternate"/>
+    <link href="https://cdn.example.com/1.mp3" rel="enclosure"/>
+    <published>2024-01-05T10:00:00Z</published>
+    <updated>2024-01-06T10:00:00Z</updated>
+  </entry>
+</feed>`);
+
+  assertEquals(feed?.format, "atom");
+  assertEquals(feed?.htmlTitle, true);
+  assertEquals(feed?.link, "https://example.com/");
+  assertEquals(feed?.selfLink, "https://example.com/atom.xml");
+  assertEquals(feed?.updated, "2024-01-05T10:00:00Z");
+  assertEquals(feed?.entries[0].link, "https://example.com/1");
+  assertEquals(feed?.entries[0].published, "2024-01-05T10:00:00Z");
+  assertEquals(feed?.entries[0].dates.map((date) => date.source), ["published", "updated"]);
+  assertEquals(feed?.entries[0].enclosures, ["https://cdn.example.com/1.mp3"]);
+});
+
+Deno.test("parseFeedDocument reduces a JSON Feed", () => {
+  const feed = parseFeedDocument(JSON.stringify({
+    version: "https://jsonfeed.org/version/1.1",
+    title: "Example",
+    home_page_url: "https://example.com/",
+    feed_url: "https://example.com/feed.json",
+    hubs: [{ type: "WebSub", url: "https://hub.example.com/" }],
+    items: [{ id: 1, url: "https://example.com/1", date_modified: "2024-01-05T10:00:00Z" }]
+  }));
+
+  assertEquals(feed?.format, "json");
+  assertEquals(feed?.selfLink, "https://example.com/feed.json");
+  assertEquals(feed?.hubs, ["https://hub.example.com/"]);
+  assertEquals(feed?.entries[0].id, "1");
+  assertEquals(feed?.entries[0].dates, [{ source: "date_modified", value: "2024-01-05T10:00:00Z" }]);
+});
+
+Deno.test("parseFeedDocument rejects documents that are not feeds", () => {
+  assertEquals(parseFeedDocument("<!DOCTYPE html><html><body>Not a feed</body></html>"), null);
+  assertEquals(parseFeedDocument(`<feed xmlns="http://www.w3.org/2005/Atom"></feed>`), null);
+  assertEquals(parseFeedDocument(`{"version": "1.0"}`), null);
+});
@@ -5,6 +5,7 @@
 import { parse } from "@libs/xml";
 import { createLogger } from "../utils/logger.ts";
 import { FeedCollection, FeedEntry } from "./types/feed.types.ts";
+import { decodeText } from "./decodeText.ts";
 
 const logger = createLogger("parseOPML");
 
@@ -66,7 +67,8 @@ function parseOpmlXml(xml: string): FeedCollection {
       // Extract OPML feed metadata fields with fallbacks
       const text = outline["@text"] || outline["@title"] || outline["@xmlUrl"];
       const title = outline["@title"] || text;
-      const type = outline["@type"] || 'rss';
+      // Feed type as declared by the OPML, e.g. 'rss' or 'json' for JSON Feeds
+      const type = (outline["@type"] || 'rss').toLowerCase();
       const htmlUrl = outline["@htmlUrl"] || '';
       const description = outline["@description"] || '';
       categories[category].push({
@@ -114,14 +116,15 @@ function parseOpmlXml(xml: string): FeedCollection {
  * Parses OPML XML from an in-memory buffer or string.
  * Used for API, web, or serverless environments (e.g., Deno Deploy) where file system access is not available.
  * Calls the shared parseOpmlXml logic.
+ * Binary contents are decoded with the encoding from their BOM, the Content-Type charset or the XML declaration (UTF-8 by default).
  * Synchronous: does not perform any async operations.
  */
-export function parseOpmlContents(contents: Uint8Array | ArrayBuffer | string): FeedCollection {
+export function parseOpmlContents(contents: Uint8Array | ArrayBuffer | string, contentType?: string): FeedCollection {
   let xml: string;
   if (typeof contents === "string") {
     xml = contents;
   } else {
-    xml = new TextDecoder().decode(contents instanceof ArrayBuffer ? new Uint8Array(contents) : contents);
+    xml = decodeText(contents, contentType);
   }
   return parseOpmlXml(xml);
 }
@@ -132,6 +135,6 @@ export function parseOpmlContents(contents: Uint8Array | ArrayBuffer | string):
  * Calls the shared parseOpmlXml logic.
  */
 export async function parseOPML(filePath: string): Promise<FeedCollection> {
-  const fileContent = await Deno.readTextFile(filePath);
+  const fileContent = decodeText(await Deno.readFile(filePath));
   return parseOpmlXml(fileContent);
 }
\ No newline at end of file
@@ -0,0 +1,95 @@
+/**
+ * Scheduled revalidation settings
+ * Each feed status has its own interval, so e.g. active feeds can be checked nightly and dead feeds weekly.
+ * Has no runtime dependencies so it can be shared with the frontend.
+ */
+import { FeedStatus } from "./types/feed.types.ts";
+import { ValidationSchedule } from "./types/validation.types.ts";
+
+/**
+ * Feed statuses in display order
+ */
+export const SCHEDULE_STATUSES: FeedStatus[] = ['active', 'inactive', 'failing', 'dead', 'incompatible'];
+
+/**
+ * Default hours between revalidations: daily for feeds that are alive or recovering, weekly for the rest
+ */
+export const DEFAULT_INTERVAL_HOURS: Record<FeedStatus, number> = {
+  active: 24,
+  inactive: 168,
+  failing: 24,
+  dead: 168,
+  incompatible: 168
+};
+
+/** Longest accepted interval (one year) */
+export const MAX_INTERVAL_HOURS = 24 * 365;
+
+/**
+ * The scheduler runs hourly; a run that is due within this margin is started early
+ * rather than waiting for the next hour
+ */
+const DUE_TOLERANCE_MS = 5 * 60 * 1000;
+
+/**
+ * Creates the schedule used for users who have not saved one
+ * @returns A disabled schedule with the default intervals
+ */
+export function createDefaultSchedule(): ValidationSchedule {
+  return {
+    enabled: false,
+    intervalHours: { ...DEFAULT_INTERVAL_HOURS },
+    lastRuns: {},
+    updatedAt: new Date().toISOString()
+  };
+}
+
+/**
+ * Validates schedule settings received from untrusted input (e.g. a request body)
+ * @param input The settings to validate
+ * @returns The enabled flag and intervals, or an error message
+ */
+export function parseScheduleSettings(
+  input: unknown
+): Pick<ValidationSchedule, 'enabled' | 'intervalHours'> | { error: string } {
+  const { enabled, intervalHours } = (input ?? {}) as Partial<ValidationSchedule>;
+  if (typeof enabled !== 'boolean') {
+    return { error: 'enabled must be a boolean' };
+  }
+
+  const parsed = { ...DEFAULT_INTERVAL_HOURS };
+  for (const status of SCHEDULE_STATUSES) {
+    const hours = intervalHours?.[status];
+    if (hours === undefined) {
+      continue;
+    }
+    if (typeof hours !== 'number' || !Number.isInteger(hours) || hours < 0 || hours > MAX_INTERVAL_HOURS) {
+      return { error: `intervalHours.${status} must be a whole number of hours between 0 and ${MAX_INTERVAL_HOURS}` };
+    }
+    parsed[status] = hours;
+  }
+  return { enabled, intervalHours: parsed };
+}
+
+/**
+ * Determines which feed statuses are due for revalidation
+ * @param schedule The user's schedule
+ * @param now The current time
+ * @returns Statuses whose interval has elapsed since their last run; empty if the schedule is disabled
+ */
+export function getDueStatuses(schedule: ValidationSchedule, now: Date): FeedStatus[] {
+  if (!schedule.enabled) {
+    return [];
+  }
+  return SCHEDULE_STATUSES.filter((status) => {
+    const hours = schedule.intervalHours[status];
+    if (!hours) {
+      return false;
+    }
+    const lastRun = schedule.lastRuns[status];
+    if (!lastRun) {
+      return true;
+    }
+    return now.getTime() - Date.parse(lastRun) >= hours * 60 * 60 * 1000 - DUE_TOLERANCE_MS;
+  });
+}
@@ -5,5 +5,12 @@ export const StoragePrefix = {
     Feed: 'feed:',
     Session: 'session:',
     Category: 'category:',
-    Stats: 'stats:'
+    Stats: 'stats:',
+    Alias: 'alias:',
+    Queue: 'queue:',
+    Result: 'result:',
+    ActiveSession: 'active-session:',
+    Schedule: 'schedule:',
+    Policy: 'policy:',
+    WebSub: 'websub:'
 } as const;
\ No newline at end of file
@@ -3,28 +3,56 @@
 import { createLogger } from "../../../utils/logger.ts";
 import { isValidUserId } from "../../../utils/user.ts";
 import type {
+  ActiveValidationSession,
   AtomicBatch,
   AtomicOptions,
   BatchResult,
   IKVStorageService,
+  ListFeedsFilters,
   ListFeedsOptions,
   ListFeedsResult,
+  UserValidationSchedule,
 } from "../../types/storage.types.ts";
 import type { 
   CategoryStats,
   FeedRecord, 
+  FeedStatus,
   FeedUpdate 
 } from "../../types/feed.types.ts";
 import type { 
+  ActivityPolicySettings,
+  FeedValidationResult,
   ValidationProgress, 
-  ValidationSession 
+  ValidationSchedule,
+  ValidationSession,
+  ValidationSessionStatus
 } from "../../types/validation.types.ts";
+import type { WebSubSubscription } from "../../types/websub.types.ts";
 
 //TODO: scaling to a multi-user application! [StoragePrefix.Feed, feed.url]->[userId, StoragePrefix.Feed, feed.url]
 import { StoragePrefix } from "./storage.constants.ts";
 
 const logger = createLogger("storage");
 
+/** Attempts for read-modify-write updates of a validation session that lose a race */
+const MAX_SESSION_UPDATE_ATTEMPTS = 5;
+
+/** Mutations per atomic operation when writing a validation queue */
+const QUEUE_WRITE_CHUNK_SIZE = 100;
+
+/** How long per-feed validation results are kept */
+const VALIDATION_RESULT_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Tests if a feed record matches the filters of a feed listing
+ */
+function matchesFeedFilters(feed: FeedRecord, filters: ListFeedsFilters): boolean {
+  return (!filters.category || feed.category === filters.category) &&
+    (!filters.status || feed.status === filters.status) &&
+    (!filters.errorCode || feed.failure?.code === filters.errorCode) &&
+    (!filters.filter || feed.url.includes(filters.filter));
+}
+
 /**
  * Implementation of the storage service using Deno's built-in Key-Value store (Deno KV).
  * This service provides persistent storage for feed data, validation sessions, and category information.
@@ -41,6 +69,12 @@ const logger = createLogger("storage");
  * - Validation sessions with prefix 'session:'
  * - Categories with prefix 'category:'
  * - Statistics with prefix 'stats:'
+ * - Aliases of migrated feed URLs with prefix 'alias:'
+ * - Pending URLs and per-feed results of validation sessions with prefixes 'queue:' and 'result:'
+ * - Running validation sessions of all users with the global prefix 'active-session:'
+ * - Revalidation schedules of all users with the global prefix 'schedule:'
+ * - Activity policy settings with prefix 'policy:'
+ * - WebSub subscriptions of all users with the global prefix 'websub:', indexed per feed with prefix 'websub:'
  */
 export class KVStorageService implements IKVStorageService {
   /** Instance of Deno KV store */
@@ -160,10 +194,7 @@ export class KVStorageService implements IKVStorageService {
     
     // Process feed entries with filtering
     for await (const entry of iter) {
-      // Apply each filter condition
-      if (options.category && entry.value.category !== options.category) continue;
-      if (options.status && entry.value.status !== options.status) continue;
-      if (options.filter && !entry.value.url.includes(options.filter)) continue;
+      if (!matchesFeedFilters(entry.value, options)) continue;
 
       count++;
       // Skip entries before cursor position
@@ -191,6 +222,9 @@ export class KVStorageService implements IKVStorageService {
             return a.category.localeCompare(b.category);
           case 'updatesInLast3Months':
             return b.updatesInLast3Months - a.updatesInLast3Months;
+          case 'healthScore':
+            // Healthiest first; feeds not scored yet last
+            return (b.healthScore ?? -1) - (a.healthScore ?? -1);
           default:
             return 0;
         }
@@ -205,6 +239,24 @@ export class KVStorageService implements IKVStorageService {
     };
   }
 
+  /**
+   * Lists all feeds of a user that match the filters, in a single pass over the store
+   * For jobs that need every feed, instead of following the pages of listFeeds
+   *
+   * @param userId - The user ID
+   * @param filters - Category, status, error code and URL filters as for listFeeds
+   * @returns Promise with every matching feed record
+   */
+  async listAllFeeds(userId: string, filters: ListFeedsFilters = {}): Promise<FeedRecord[]> {
+    const feeds: FeedRecord[] = [];
+    for await (const entry of this.kv.list<FeedRecord>({ prefix: [userId, StoragePrefix.Feed] })) {
+      if (matchesFeedFilters(entry.value, filters)) {
+        feeds.push(entry.value);
+      }
+    }
+    return feeds;
+  }
+
   /**
    * Deletes a feed record from the store
    * Supports atomic operations for consistent deletions
@@ -231,6 +283,133 @@ export class KVStorageService implements IKVStorageService {
     logger.debug(`Deleted feed data for ${url}`);
   }
 
+  /**
+   * Moves a feed record to a new URL after a permanent redirect or an accepted replacement suggestion
+   * The old URL (and any older aliases) are recorded as aliases pointing to the new URL,
+   * so re-uploading an OPML file with the old URL does not create a duplicate.
+   * If a record already exists at the new URL, the old record is merged into it.
+   * The feed's WebSub subscription moves with it, so its lease is still renewed; if the new URL
+   * already has a subscription of its own, the old one is dropped.
+   *
+   * @param oldUrl - The current URL of the feed
+   * @param newUrl - The URL to move the feed to
+   * @returns Promise with the feed record stored under the new URL
+   * @throws Error if the feed is not found or the atomic operation fails
+   */
+  async migrateFeedUrl(userId: string, oldUrl: string, newUrl: string): Promise<FeedRecord> {
+    const oldKey = [userId, StoragePrefix.Feed, oldUrl];
+    const newKey = [userId, StoragePrefix.Feed, newUrl];
+    const [existing, target, subscriptionIndex, targetSubscriptionIndex] = await this.kv.getMany<
+      [FeedRecord, FeedRecord, string, string]
+    >([oldKey, newKey, [userId, StoragePrefix.WebSub, oldUrl], [userId, StoragePrefix.WebSub, newUrl]]);
+    if (!existing.value) {
+      throw new Error(`Feed ${oldUrl} not found`);
+    }
+    const subscription = subscriptionIndex.value
+      ? await this.kv.get<WebSubSubscription>([StoragePrefix.WebSub, subscriptionIndex.value])
+      : null;
+
+    // Merge aliases of both records, excluding the new URL itself
+    const aliases = Array.from(new Set([
+      ...(target.value?.aliases || []),
+      ...(existing.value.aliases || []),
+      oldUrl
+    ])).filter((alias) => alias !== newUrl);
+
+    const migrated: FeedRecord = {
+      ...(target.value ?? existing.value),
+      url: newUrl,
+      aliases,
+      movedTo: undefined,
+      suggestedUrl: undefined,
+      moveSignal: undefined,
+      httpsUrl: undefined
+    };
+
+    const atomic = this.kv.atomic()
+      .check(existing)
+      .check(target)
+      .delete(oldKey)
+      .delete([userId, StoragePrefix.Alias, newUrl])
+      .set(newKey, migrated);
+    for (const alias of aliases) {
+      atomic.set([userId, StoragePrefix.Alias, alias], newUrl);
+    }
+    if (subscriptionIndex.value) {
+      atomic.check(subscriptionIndex).check(targetSubscriptionIndex).delete(subscriptionIndex.key);
+      if (subscription?.value && !targetSubscriptionIndex.value) {
+        atomic.check(subscription)
+          .set(subscription.key, { ...subscription.value, feedUrl: newUrl })
+          .set(targetSubscriptionIndex.key, subscription.value.id);
+      } else if (subscription?.value) {
+        atomic.delete(subscription.key);
+      }
+    }
+    const result = await atomic.commit();
+    if (!result.ok) {
+      throw new Error("Atomic operation failed");
+    }
+
+    logger.info(`Migrated feed ${oldUrl} to ${newUrl}`);
+    return migrated;
+  }
+
+  /**
+   * Resolves a feed URL through the aliases left by previous migrations
+   *
+   * @param url - The URL to resolve
+   * @returns Promise with the current URL of the feed, or null if the URL is not an alias
+   */
+  async resolveFeedAlias(userId: string, url: string): Promise<string | null> {
+    const result = await this.kv.get<string>([userId, StoragePrefix.Alias, url]);
+    return result.value;
+  }
+
+  /**
+   * Merges duplicate feed records into the record to keep
+   * The duplicates are deleted and their URLs, with their own aliases, become aliases of the kept feed,
+   * so importing them again resolves to it. The kept record's analysis is left unchanged.
+   *
+   * @param keepUrl - The URL of the feed to keep
+   * @param mergeUrls - The URLs of the duplicate feeds
+   * @returns Promise with the kept feed record
+   * @throws Error if a feed is not found or the atomic operation fails
+   */
+  async mergeFeeds(userId: string, keepUrl: string, mergeUrls: string[]): Promise<FeedRecord> {
+    const urls = Array.from(new Set(mergeUrls)).filter((url) => url !== keepUrl);
+    const keys = [keepUrl, ...urls].map((url) => [userId, StoragePrefix.Feed, url]);
+    const entries = await Promise.all(keys.map((key) => this.kv.get<FeedRecord>(key)));
+    const missing = entries.find((entry) => !entry.value);
+    if (missing) {
+      throw new Error(`Feed ${missing.key[2] as string} not found`);
+    }
+    const [kept, ...duplicates] = entries.map((entry) => entry.value!);
+
+    const aliases = Array.from(new Set([
+      ...(kept.aliases || []),
+      ...duplicates.flatMap((duplicate) => [...(duplicate.aliases || []), duplicate.url])
+    ])).filter((alias) => alias !== keepUrl);
+    const merged: FeedRecord = { ...kept, aliases };
+
+    const atomic = this.kv.atomic().set(keys[0], merged).delete([userId, StoragePrefix.Alias, keepUrl]);
+    for (const entry of entries) {
+      atomic.check(entry);
+    }
+    for (const key of keys.slice(1)) {
+      atomic.delete(key);
+    }
+    for (const alias of aliases) {
+      atomic.set([userId, StoragePrefix.Alias, alias], keepUrl);
+    }
+    const result = await atomic.commit();
+    if (!result.ok) {
+      throw new Error("Atomic operation failed");
+    }
+
+    logger.info(`Merged ${urls.length} duplicate feeds into ${keepUrl}`);
+    return merged;
+  }
+
   /**
    * Saves a validation session with progress information
    * Used to track ongoing feed validation processes
@@ -286,6 +465,7 @@ export class KVStorageService implements IKVStorageService {
    */
   /**
    * Updates the progress of an ongoing validation session for a user
+   * The write is checked against the read so a concurrent status change (pause, cancel) is never overwritten
    */
   async updateValidationProgress(
     userId: string,
@@ -293,17 +473,363 @@ export class KVStorageService implements IKVStorageService {
     progress: ValidationProgress,
     _options?: AtomicOptions
   ): Promise<{ versionstamp: string }> {
-    const session = await this.getValidationSession(userId, id);
-    if (!session) {
-      throw new Error(`Validation session ${id} not found`);
+    const key = [userId, StoragePrefix.Session, id];
+    for (let attempt = 0; attempt < MAX_SESSION_UPDATE_ATTEMPTS; attempt++) {
+      const session = await this.kv.get<ValidationSession>(key);
+      if (!session.value) {
+        throw new Error(`Validation session ${id} not found`);
+      }
+
+      const result = await this.kv.atomic()
+        .check(session)
+        .set(key, { ...session.value, progress })
+        .commit();
+      if (result.ok) {
+        return { versionstamp: result.versionstamp };
+      }
     }
+    throw new Error(`Failed to update progress of validation session ${id}: too many concurrent updates`);
+  }
 
-    const updatedSession = {
-      ...session.value,
-      progress
-    };
+  /**
+   * Atomically applies changes to a validation session if its current status is one of the expected ones
+   *
+   * @param userId - The user the session belongs to
+   * @param id - The ID of the validation session
+   * @param from - Statuses the session may currently have, or a predicate the current session must satisfy
+   * @param changes - Fields to update, e.g. the new status
+   * @returns Promise with the updated session, or null if the session is missing or in another status
+   */
+  async transitionValidationSession(
+    userId: string,
+    id: string,
+    from: ValidationSessionStatus[] | ((session: ValidationSession) => boolean),
+    changes: Partial<ValidationSession>
+  ): Promise<ValidationSession | null> {
+    const key = [userId, StoragePrefix.Session, id];
+    const accepts = typeof from === 'function'
+      ? from
+      : (session: ValidationSession) => from.includes(session.status);
+    for (let attempt = 0; attempt < MAX_SESSION_UPDATE_ATTEMPTS; attempt++) {
+      const session = await this.kv.get<ValidationSession>(key);
+      if (!session.value || !accepts(session.value)) {
+        return null;
+      }
 
-    return await this.saveValidationSession(userId, id, updatedSession);
+      const updatedSession = { ...session.value, ...changes };
+      const result = await this.kv.atomic()
+        .check(session)
+        .set(key, updatedSession)
+        .commit();
+      if (result.ok) {
+        logger.debug(`Validation session ${id} changed from ${session.value.status} to ${updatedSession.status}`);
+        return updatedSession;
+      }
+    }
+    throw new Error(`Failed to update validation session ${id}: too many concurrent updates`);
+  }
+
+  /**
+   * Stores the URLs a validation session still has to validate, one key per URL,
+   * and registers the session in the global index of running sessions
+   *
+   * @param userId - The user the session belongs to
+   * @param id - The ID of the validation session
+   * @param urls - The URLs to validate
+   */
+  async saveValidationQueue(userId: string, id: string, urls: string[]): Promise<void> {
+    for (let i = 0; i < urls.length; i += QUEUE_WRITE_CHUNK_SIZE) {
+      const atomic = this.kv.atomic();
+      for (const url of urls.slice(i, i + QUEUE_WRITE_CHUNK_SIZE)) {
+        atomic.set([userId, StoragePrefix.Queue, id, url], true);
+      }
+      const result = await atomic.commit();
+      if (!result.ok) {
+        throw new Error(`Failed to save validation queue for session ${id}`);
+      }
+    }
+    const entry: ActiveValidationSession = { userId, validationId: id };
+    await this.kv.set([StoragePrefix.ActiveSession, id], entry);
+    logger.debug(`Saved validation queue of ${urls.length} feeds for session ${id}`);
+  }
+
+  /**
+   * Lists the URLs a validation session still has to validate
+   *
+   * @param userId - The user the session belongs to
+   * @param id - The ID of the validation session
+   * @returns Promise with the pending URLs
+   */
+  async getValidationQueue(userId: string, id: string): Promise<string[]> {
+    const urls: string[] = [];
+    for await (const entry of this.kv.list({ prefix: [userId, StoragePrefix.Queue, id] })) {
+      urls.push(entry.key[3] as string);
+    }
+    return urls;
+  }
+
+  /**
+   * Records the result of one feed of a validation session in a single atomic write:
+   * removes the URL from the queue, stores the result and updates the session progress and heartbeat
+   *
+   * @param userId - The user the session belongs to
+   * @param id - The ID of the validation session
+   * @param result - The feed's validation result
+   * @param progress - The session progress including this feed
+   */
+  async recordValidationResult(
+    userId: string,
+    id: string,
+    result: FeedValidationResult,
+    progress: ValidationProgress
+  ): Promise<void> {
+    const sessionKey = [userId, StoragePrefix.Session, id];
+    for (let attempt = 0; attempt < MAX_SESSION_UPDATE_ATTEMPTS; attempt++) {
+      const session = await this.kv.get<ValidationSession>(sessionKey);
+      if (!session.value) {
+        throw new Error(`Validation session ${id} not found`);
+      }
+
+      const commit = await this.kv.atomic()
+        .check(session)
+        .set(sessionKey, { ...session.value, progress, heartbeatAt: new Date().toISOString() })
+        .delete([userId, StoragePrefix.Queue, id, result.url])
+        .set([userId, StoragePrefix.Result, id, result.url], result, { expireIn: VALIDATION_RESULT_TTL_MS })
+        .commit();
+      if (commit.ok) {
+        return;
+      }
+    }
+    throw new Error(`Failed to record result of ${result.url} for validation session ${id}: too many concurrent updates`);
+  }
+
+  /**
+   * Lists the per-feed results stored for a validation session
+   *
+   * @param userId - The user the session belongs to
+   * @param id - The ID of the validation session
+   * @returns Promise with the stored results
+   */
+  async getValidationResults(userId: string, id: string): Promise<FeedValidationResult[]> {
+    const results: FeedValidationResult[] = [];
+    for await (const entry of this.kv.list<FeedValidationResult>({ prefix: [userId, StoragePrefix.Result, id] })) {
+      results.push(entry.value);
+    }
+    return results;
+  }
+
+  /**
+   * Deletes the remaining queue of a finished validation session and removes it from the running index
+   * Stored results are kept until they expire
+   *
+   * @param userId - The user the session belongs to
+   * @param id - The ID of the validation session
+   */
+  async clearValidationQueue(userId: string, id: string): Promise<void> {
+    const keys: Deno.KvKey[] = [];
+    for await (const entry of this.kv.list({ prefix: [userId, StoragePrefix.Queue, id] })) {
+      keys.push(entry.key);
+    }
+    for (let i = 0; i < keys.length; i += QUEUE_WRITE_CHUNK_SIZE) {
+      const atomic = this.kv.atomic();
+      for (const key of keys.slice(i, i + QUEUE_WRITE_CHUNK_SIZE)) {
+        atomic.delete(key);
+      }
+      await atomic.commit();
+    }
+    await this.kv.delete([StoragePrefix.ActiveSession, id]);
+    logger.debug(`Cleared validation queue for session ${id} (${keys.length} feeds left unvalidated)`);
+  }
+
+  /**
+   * Lists the validation sessions registered as running, across all users
+   *
+   * @returns Promise with the user and ID of each running session
+   */
+  async listActiveValidationSessions(): Promise<ActiveValidationSession[]> {
+    const sessions: ActiveValidationSession[] = [];
+    for await (const entry of this.kv.list<ActiveValidationSession>({ prefix: [StoragePrefix.ActiveSession] })) {
+      sessions.push(entry.value);
+    }
+    return sessions;
+  }
+
+  /**
+   * Retrieves the revalidation schedule of a user
+   * Schedules are stored under a global prefix so the scheduler can list them for all users
+   *
+   * @param userId - The user the schedule belongs to
+   * @returns Promise with the schedule, or null if the user never saved one
+   */
+  async getValidationSchedule(userId: string): Promise<ValidationSchedule | null> {
+    const entry = await this.kv.get<ValidationSchedule>([StoragePrefix.Schedule, userId]);
+    return entry.value;
+  }
+
+  /**
+   * Saves the revalidation schedule of a user
+   *
+   * @param userId - The user the schedule belongs to
+   * @param schedule - The schedule to save
+   */
+  async saveValidationSchedule(userId: string, schedule: ValidationSchedule): Promise<void> {
+    if (!isValidUserId(userId)) {
+      throw new Error(`Invalid userId: ${userId}`);
+    }
+    await this.kv.set([StoragePrefix.Schedule, userId], schedule);
+    logger.debug(`Saved revalidation schedule for user ${userId}`);
+  }
+
+  /**
+   * Lists the revalidation schedules of all users
+   *
+   * @returns Promise with each user's schedule
+   */
+  async listValidationSchedules(): Promise<UserValidationSchedule[]> {
+    const schedules: UserValidationSchedule[] = [];
+    for await (const entry of this.kv.list<ValidationSchedule>({ prefix: [StoragePrefix.Schedule] })) {
+      schedules.push({ userId: entry.key[1] as string, schedule: entry.value });
+    }
+    return schedules;
+  }
+
+  /**
+   * Records that the scheduler revalidated the feeds with the given statuses
+   * Checked against the stored schedule so concurrent edits from the UI are not lost
+   *
+   * @param userId - The user the schedule belongs to
+   * @param statuses - The revalidated feed statuses
+   * @param time - Time of the run
+   */
+  async recordScheduledRun(userId: string, statuses: FeedStatus[], time: string): Promise<void> {
+    const key = [StoragePrefix.Schedule, userId];
+    for (let attempt = 0; attempt < MAX_SESSION_UPDATE_ATTEMPTS; attempt++) {
+      const entry = await this.kv.get<ValidationSchedule>(key);
+      if (!entry.value) {
+        return;
+      }
+
+      const lastRuns = { ...entry.value.lastRuns };
+      for (const status of statuses) {
+        lastRuns[status] = time;
+      }
+      const commit = await this.kv.atomic()
+        .check(entry)
+        .set(key, { ...entry.value, lastRuns })
+        .commit();
+      if (commit.ok) {
+        return;
+      }
+    }
+    throw new Error(`Failed to record scheduled run for user ${userId}: too many concurrent updates`);
+  }
+
+  /**
+   * Retrieves the activity policy settings of a user
+   *
+   * @param userId - The user the settings belong to
+   * @returns Promise with the settings, or null if the user never saved any
+   */
+  async getActivityPolicySettings(userId: string): Promise<ActivityPolicySettings | null> {
+    const entry = await this.kv.get<ActivityPolicySettings>([userId, StoragePrefix.Policy]);
+    return entry.value;
+  }
+
+  /**
+   * Saves the activity policy settings of a user
+   *
+   * @param userId - The user the settings belong to
+   * @param settings - The default policy and category overrides
+   */
+  async saveActivityPolicySettings(userId: string, settings: ActivityPolicySettings): Promise<void> {
+    if (!isValidUserId(userId)) {
+      throw new Error(`Invalid userId: ${userId}`);
+    }
+    await this.kv.set([userId, StoragePrefix.Policy], settings);
+    logger.debug(`Saved activity policy settings for user ${userId}`);
+  }
+
+  /**
+   * Retrieves a WebSub subscription
+   * Subscriptions are stored under a global prefix so hub callbacks, which carry no user ID, can find them
+   *
+   * @param id - The subscription ID from the callback URL
+   * @returns Promise with the subscription, or null if it does not exist
+   */
+  async getWebSubSubscription(id: string): Promise<WebSubSubscription | null> {
+    const entry = await this.kv.get<WebSubSubscription>([StoragePrefix.WebSub, id]);
+    return entry.value;
+  }
+
+  /**
+   * Retrieves the WebSub subscription of a user's feed
+   *
+   * @param userId - The user the feed belongs to
+   * @param feedUrl - The URL of the feed
+   * @returns Promise with the subscription, or null if the feed is not subscribed
+   */
+  async getWebSubSubscriptionForFeed(userId: string, feedUrl: string): Promise<WebSubSubscription | null> {
+    const index = await this.kv.get<string>([userId, StoragePrefix.WebSub, feedUrl]);
+    return index.value ? await this.getWebSubSubscription(index.value) : null;
+  }
+
+  /**
+   * Saves a WebSub subscription and indexes it by feed
+   * A different subscription previously indexed for the same feed is deleted, so its callback stops being accepted.
+   *
+   * @param subscription - The subscription to save
+   */
+  async saveWebSubSubscription(subscription: WebSubSubscription): Promise<void> {
+    if (!isValidUserId(subscription.userId)) {
+      throw new Error(`Invalid userId: ${subscription.userId}`);
+    }
+    const indexKey = [subscription.userId, StoragePrefix.WebSub, subscription.feedUrl];
+    const index = await this.kv.get<string>(indexKey);
+    const atomic = this.kv.atomic()
+      .check(index)
+      .set([StoragePrefix.WebSub, subscription.id], subscription)
+      .set(indexKey, subscription.id);
+    if (index.value && index.value !== subscription.id) {
+      atomic.delete([StoragePrefix.WebSub, index.value]);
+    }
+    const result = await atomic.commit();
+    if (!result.ok) {
+      throw new Error("Atomic operation failed");
+    }
+    logger.debug(`Saved WebSub subscription ${subscription.id} for ${subscription.feedUrl} (${subscription.state})`);
+  }
+
+  /**
+   * Deletes a WebSub subscription and its feed index entry
+   *
+   * @param id - The subscription ID
+   */
+  async deleteWebSubSubscription(id: string): Promise<void> {
+    const entry = await this.kv.get<WebSubSubscription>([StoragePrefix.WebSub, id]);
+    if (!entry.value) {
+      return;
+    }
+    const indexKey = [entry.value.userId, StoragePrefix.WebSub, entry.value.feedUrl];
+    const index = await this.kv.get<string>(indexKey);
+    const atomic = this.kv.atomic().delete(entry.key);
+    if (index.value === id) {
+      atomic.check(index).delete(indexKey);
+    }
+    await atomic.commit();
+    logger.debug(`Deleted WebSub subscription ${id}`);
+  }
+
+  /**
+   * Lists the WebSub subscriptions of all users
+   *
+   * @returns Promise with every stored subscription
+   */
+  async listWebSubSubscriptions(): Promise<WebSubSubscription[]> {
+    const subscriptions: WebSubSubscription[] = [];
+    for await (const entry of this.kv.list<WebSubSubscription>({ prefix: [StoragePrefix.WebSub] })) {
+      subscriptions.push(entry.value);
+    }
+    return subscriptions;
   }
 
   /**
@@ -346,6 +872,7 @@ export class KVStorageService implements IKVStorageService {
           totalFeeds: 0,
           activeFeeds: 0,
           inactiveFeeds: 0,
+          failingFeeds: 0,
           deadFeeds: 0,
           incompatibleFeeds: 0,
           mostUpdatedFeeds: []
@@ -373,6 +900,9 @@ export class KVStorageService implements IKVStorageService {
         case 'inactive':
           stats.inactiveFeeds++;
           break;
+        case 'failing':
+          stats.failingFeeds++;
+          break;
         case 'dead':
           stats.deadFeeds++;
           break;
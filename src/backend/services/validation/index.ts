@@ -48,4 +48,6 @@ export interface ValidationService {
 }
 
 // Re-export the implementation
-export * from "./validation.impl.ts";
\ No newline at end of file
+export * from "./validation.impl.ts";
+// Re-export the revalidation scheduler
+export * from "./scheduler.impl.ts";
@@ -0,0 +1,79 @@
+import { createLogger } from "../../../utils/logger.ts";
+import type { IKVStorageService } from "../storage/index.ts";
+import type { WebSocketService } from "../websocket/index.ts";
+import type { FeedStatus } from "../../types/feed.types.ts";
+import { getDueStatuses } from "../../revalidationSchedule.ts";
+import { ValidationServiceImpl } from "./validation.impl.ts";
+
+const logger = createLogger("validationScheduler");
+
+/** Cron expression of the revalidation job; schedule intervals are whole hours */
+export const REVALIDATION_CRON_SCHEDULE = "0 * * * *";
+
+/** opmlId of validation sessions started by the scheduler */
+export const SCHEDULED_VALIDATION_OPML_ID = "scheduled-revalidation";
+
+/**
+ * Revalidates the feeds of every user whose schedule is due
+ * Users are processed one after another, and users with a validation already running are skipped.
+ * Each run is recorded as a normal validation session.
+ * @param storage The storage service
+ * @param websocket The websocket service used to broadcast progress
+ * @param now The current time
+ */
+export async function runScheduledRevalidation(
+  storage: IKVStorageService,
+  websocket: WebSocketService,
+  now: Date = new Date()
+): Promise<void> {
+  const schedules = await storage.listValidationSchedules();
+  const busyUsers = new Set((await storage.listActiveValidationSessions()).map((session) => session.userId));
+
+  for (const { userId, schedule } of schedules) {
+    const dueStatuses = getDueStatuses(schedule, now);
+    if (dueStatuses.length === 0) {
+      continue;
+    }
+    if (busyUsers.has(userId)) {
+      logger.info(`Skipping scheduled revalidation for user ${userId}: a validation is already running`);
+      continue;
+    }
+
+    try {
+      const urls = await listFeedUrlsByStatus(storage, userId, dueStatuses);
+
+      // Record the run first, so a run that fails is not retried every hour
+      await storage.recordScheduledRun(userId, dueStatuses, now.toISOString());
+      if (urls.length === 0) {
+        continue;
+      }
+
+      logger.info(`Scheduled revalidation of ${urls.length} feeds (${dueStatuses.join(", ")}) for user ${userId}`);
+      const validationService = new ValidationServiceImpl(storage, websocket);
+      const validationId = await validationService.startValidation(userId, SCHEDULED_VALIDATION_OPML_ID);
+      const results = await validationService.validateFeeds(userId, urls, validationId);
+      logger.info(`Scheduled revalidation ${validationId} completed for ${results.validatedFeeds} feeds`);
+    } catch (error) {
+      logger.error(`Scheduled revalidation failed for user ${userId}:`, error);
+    }
+  }
+}
+
+/**
+ * Lists the URLs of all of a user's feeds with any of the given statuses
+ * @param storage The storage service
+ * @param userId The user ID
+ * @param statuses The feed statuses to include
+ * @returns The feed URLs
+ */
+export async function listFeedUrlsByStatus(
+  storage: IKVStorageService,
+  userId: string,
+  statuses: FeedStatus[]
+): Promise<string[]> {
+  const urls: string[] = [];
+  for (const status of statuses) {
+    urls.push(...(await storage.listAllFeeds(userId, { status })).map((feed) => feed.url));
+  }
+  return urls;
+}
@@ -0,0 +1,43 @@
+import { assertEquals } from "@std/assert";
+import { listFeedUrlsByStatus } from "./scheduler.impl.ts";
+import { KVStorageService } from "../storage/index.ts";
+import type { FeedRecord, FeedStatus } from "../../types/feed.types.ts";
+
+const USER_ID = "0b8c6a2e-3f41-4d5e-9a7b-1c2d3e4f5a6b";
+
+function createFeed(url: string, status: FeedStatus): FeedRecord {
+  return {
+    userId: USER_ID,
+    url,
+    text: url,
+    status,
+    lastUpdate: undefined,
+    updatesInLast3Months: 0,
+    category: "Blogs",
+    lastValidated: null,
+    validationHistory: []
+  };
+}
+
+Deno.test("listFeedUrlsByStatus lists every feed of each status", async () => {
+  const storage = await KVStorageService.initialize(":memory:");
+  try {
+    // More active feeds than one page of listFeeds
+    const feeds = [
+      ...Array.from({ length: 25 }, (_, i) => createFeed(`https://example.com/${i}.xml`, "active")),
+      ...Array.from({ length: 3 }, (_, i) => createFeed(`https://dead.example.com/${i}.xml`, "dead")),
+      createFeed("https://example.com/inactive.xml", "inactive")
+    ];
+    for (const feed of feeds) {
+      await storage.saveFeedData(USER_ID, feed);
+    }
+    const urls = await listFeedUrlsByStatus(storage, USER_ID, ["active", "dead"]);
+
+    assertEquals(urls.length, 28);
+    assertEquals(new Set(urls).size, 28);
+    assertEquals(urls.includes("https://example.com/24.xml"), true);
+    assertEquals(urls.includes("https://example.com/inactive.xml"), false);
+  } finally {
+    storage.close();
+  }
+});
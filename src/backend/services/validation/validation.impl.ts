@@ -1,24 +1,66 @@
 import { createLogger } from "../../../utils/logger.ts";
 import { IKVStorageService } from "../storage/index.ts";
 import type { WebSocketService } from "../websocket/index.ts";
+import { WebSubServiceImpl } from "../websub/index.ts";
 import { 
+  ActivityPolicy,
+  ActivityPolicySettings,
   ValidationSession,
   ValidationProgress, 
   ValidationResults,
   FeedValidationResult,
   BatchValidationResult,
-  ValidationError
+  ValidationError,
+  ValidationConfig,
+  ValidationSessionStatus
 } from "../../types/validation.types.ts";
-import { checkFeedAccessibility } from "../../checkFeedAccessibility.ts";
-import { checkFeedCompatibility } from "../../checkFeedCompatibility.ts";
-import { getFeedUpdateFrequency } from "../../getFeedUpdateFrequency.ts";
+import type { FeedRecord, ValidationHistoryEntry } from "../../types/feed.types.ts";
+import type { ValidationRule } from "../../types/rule.types.ts";
+import { validateFeed } from "../../validateFeed.ts";
+import { loadValidationRules } from "../../validationRules.ts";
+import { HostScheduler } from "../../hostScheduler.ts";
+import { getFetchLimits, getRetryOptions, loadValidationConfig } from "../../validationConfig.ts";
+import { applyFailurePolicy } from "../../failurePolicy.ts";
+import { discoverFeed } from "../../discoverFeed.ts";
+import { createDefaultPolicySettings, resolveActivityPolicy } from "../../activityPolicy.ts";
+import { computeFeedHealth } from "../../healthScore.ts";
 
 const logger = createLogger("validationService");
 
+/**
+ * Abort controllers of running validation sessions, keyed by validation ID
+ * Module-level because a new service instance is created for every request
+ */
+const activeValidations = new Map<string, AbortController>();
+
+/** How often a paused session re-reads its state */
+const PAUSE_POLL_INTERVAL_MS = 1000;
+
+/** Session statuses in which a validation is still running */
+const RUNNING_STATUSES: ValidationSessionStatus[] = ['pending', 'processing', 'paused'];
+
+/** How often a running session refreshes its heartbeat */
+const SESSION_HEARTBEAT_INTERVAL_MS = 15000;
+
+/** Age of the last heartbeat after which a running session is considered orphaned */
+const SESSION_STALE_AFTER_MS = 60000;
+
+/**
+ * Time until a session's heartbeat becomes stale
+ * @param session The validation session
+ * @returns Milliseconds until the session counts as orphaned, zero or less if it already does
+ */
+function msUntilStale(session: ValidationSession): number {
+  const lastSeen = Date.parse(session.heartbeatAt ?? session.startTime);
+  return lastSeen + SESSION_STALE_AFTER_MS - Date.now();
+}
+
 export class ValidationServiceImpl {
   constructor(
     private readonly storage: IKVStorageService,
-    private readonly websocket: WebSocketService
+    private readonly websocket: WebSocketService,
+    private readonly config: ValidationConfig = loadValidationConfig(),
+    private readonly websub: WebSubServiceImpl = new WebSubServiceImpl(storage)
   ) {}
 
   async startValidation(userId: string, opmlId: string): Promise<string> {
@@ -33,6 +75,7 @@ export class ValidationServiceImpl {
         categoryCounts: {
           active: 0,
           inactive: 0,
+          failing: 0,
           dead: 0,
           incompatible: 0
         }
@@ -72,6 +115,7 @@ export class ValidationServiceImpl {
         categories: {
           active: 0,
           inactive: 0,
+          failing: 0,
           dead: 0,
           incompatible: 0
         },
@@ -95,7 +139,10 @@ export class ValidationServiceImpl {
 
   async revalidateFeed(userId: string, url: string): Promise<FeedValidationResult> {
     try {
-      const result = await this.validateSingleFeed(userId, url);
+      const existingFeed = await this.storage.getFeedData(userId, url);
+      const policy = resolveActivityPolicy(await this.loadPolicySettings(userId), existingFeed?.value.category);
+      const rules = await loadValidationRules(this.config.rulesModule);
+      const result = await this.validateSingleFeed(userId, url, rules, existingFeed?.value, undefined, policy);
       return result;
     } catch (error) {
       logger.error(`Revalidation failed for feed ${url}:`, error);
@@ -103,157 +150,550 @@ export class ValidationServiceImpl {
     }
   }
 
-  private async validateBatchFeeds(userId: string, urls: string[], validationId: string = crypto.randomUUID()): Promise<BatchValidationResult> {
-    const totalFeeds = urls.length;
-    let processedFeeds = 0;
+  /**
+   * Validates a stored feed outside of a session and stores the result
+   * Used when a WebSub hub announces new content; hubs may push only the new entries,
+   * so the whole feed is fetched again to update lastUpdate and the cadence.
+   * @param userId The user ID
+   * @param url The URL of the feed, or a previous URL it was migrated from
+   * @returns Result of the feed validation, or null if the user has no such feed
+   */
+  async refreshFeed(userId: string, url: string): Promise<FeedValidationResult | null> {
+    const currentUrl = await this.storage.resolveFeedAlias(userId, url) ?? url;
+    if (!await this.storage.getFeedData(userId, currentUrl)) {
+      return null;
+    }
+    const rules = await loadValidationRules(this.config.rulesModule);
+    return await this.validateAndStoreFeed(userId, currentUrl, rules, undefined, await this.loadPolicySettings(userId));
+  }
+
+  /**
+   * Pauses a running validation session
+   * Feeds already in flight finish; the remaining feeds wait until the session is resumed
+   * @param userId The user ID
+   * @param validationId The validation session ID
+   * @returns The updated session, or null if the session is not running
+   */
+  async pauseValidation(userId: string, validationId: string): Promise<ValidationSession | null> {
+    const session = await this.storage.transitionValidationSession(userId, validationId, ['pending', 'processing'], {
+      status: 'paused'
+    });
+    if (session) {
+      logger.info(`Paused validation ${validationId}`);
+    }
+    return session;
+  }
+
+  /**
+   * Resumes a paused validation session with its remaining feeds
+   * @param userId The user ID
+   * @param validationId The validation session ID
+   * @returns The updated session, or null if the session is not paused
+   */
+  async resumeValidation(userId: string, validationId: string): Promise<ValidationSession | null> {
+    const session = await this.storage.transitionValidationSession(userId, validationId, ['paused'], {
+      status: 'processing'
+    });
+    if (session) {
+      logger.info(`Resumed validation ${validationId}`);
+    }
+    return session;
+  }
+
+  /**
+   * Cancels a running or paused validation session
+   * In-flight requests are aborted; results stored so far are kept
+   * @param userId The user ID
+   * @param validationId The validation session ID
+   * @returns The updated session, or null if the session is not running
+   */
+  async cancelValidation(userId: string, validationId: string): Promise<ValidationSession | null> {
+    const session = await this.storage.transitionValidationSession(userId, validationId, RUNNING_STATUSES, {
+      status: 'cancelled',
+      endTime: new Date().toISOString()
+    });
+    if (session) {
+      // Runs in another isolate notice the cancelled status before their next feed
+      this.abortValidation(validationId, 'Validation cancelled');
+    }
+    return session;
+  }
+
+  /**
+   * Stops a running validation session: aborts every in-flight request and skips queued feeds
+   * @param validationId The validation session ID
+   * @param reason Why the session is stopped, recorded as the session error
+   * @returns true if a running session was found
+   */
+  abortValidation(validationId: string, reason: string = 'Validation stopped'): boolean {
+    const controller = activeValidations.get(validationId);
+    if (!controller) {
+      return false;
+    }
+    logger.info(`Stopping validation ${validationId}: ${reason}`);
+    controller.abort(new Error(reason));
+    return true;
+  }
+
+  /**
+   * Finds validation sessions orphaned by a crash or restart and resumes or fails them
+   * A running session is orphaned once its heartbeat is stale; sessions with a recent heartbeat
+   * may still run in another instance and are checked again when they would become stale
+   */
+  async recoverOrphanedSessions(): Promise<void> {
+    const sessions = await this.storage.listActiveValidationSessions();
+    if (sessions.length > 0) {
+      logger.info(`Checking ${sessions.length} running validation session(s) for recovery`);
+    }
+
+    for (const { userId, validationId } of sessions) {
+      if (activeValidations.has(validationId)) {
+        continue;
+      }
+      const session = await this.getValidationStatus(userId, validationId);
+      if (!session || !RUNNING_STATUSES.includes(session.status)) {
+        // Finished, but the queue was not cleaned up
+        await this.storage.clearValidationQueue(userId, validationId);
+        continue;
+      }
+
+      const staleIn = msUntilStale(session);
+      if (staleIn > 0) {
+        setTimeout(() => {
+          this.recoverSession(userId, validationId).catch((error) => {
+            logger.error(`Failed to recover validation ${validationId}:`, error);
+          });
+        }, staleIn);
+        continue;
+      }
+      await this.recoverSession(userId, validationId);
+    }
+  }
+
+  /**
+   * Resumes an orphaned session with its remaining feeds, or fails it if resuming is disabled
+   * @param userId The user ID
+   * @param validationId The validation session ID
+   */
+  private async recoverSession(userId: string, validationId: string): Promise<void> {
+    // Claim the session atomically so only one instance recovers it
+    const session = await this.storage.transitionValidationSession(
+      userId,
+      validationId,
+      (current) => RUNNING_STATUSES.includes(current.status) && msUntilStale(current) <= 0,
+      { heartbeatAt: new Date().toISOString() }
+    );
+    if (!session) {
+      return;
+    }
+
+    const remaining = await this.storage.getValidationQueue(userId, validationId);
+    if (remaining.length === 0) {
+      // Every feed was validated before the interruption
+      logger.info(`Completing orphaned validation ${validationId}: no feeds left`);
+      await this.completeValidation(userId, validationId, {
+        validatedFeeds: session.progress.processedFeeds,
+        categories: session.progress.categoryCounts,
+        duration: Date.now() - Date.parse(session.startTime),
+        errors: [],
+        feedResults: await this.storage.getValidationResults(userId, validationId)
+      });
+      await this.storage.clearValidationQueue(userId, validationId);
+      return;
+    }
+
+    if (!this.config.resumeOrphanedSessions) {
+      logger.warn(`Failing orphaned validation ${validationId} with ${remaining.length} feeds left`);
+      await this.handleValidationError(userId, validationId, new Error(
+        `Validation was interrupted by a server restart; ${remaining.length} of ${session.progress.totalFeeds} feeds were not validated`
+      ));
+      await this.storage.clearValidationQueue(userId, validationId);
+      return;
+    }
+
+    // Continue in the background, like a session started through the API
+    logger.info(`Resuming orphaned validation ${validationId} with ${remaining.length} remaining feeds`);
+    this.validateBatchFeeds(userId, remaining, validationId, session.progress).catch((error) => {
+      logger.error(`Resumed validation ${validationId} failed:`, error);
+    });
+  }
+
+  /**
+   * Validates feeds under the host scheduler, persisting the pending queue and each result
+   * @param userId The user ID
+   * @param urls The URLs to validate
+   * @param validationId The validation session ID
+   * @param resumeFrom Progress of an interrupted session to continue; `urls` are then its remaining feeds
+   * @returns Results of the batch validation process
+   */
+  private async validateBatchFeeds(
+    userId: string,
+    urls: string[],
+    validationId: string = crypto.randomUUID(),
+    resumeFrom?: ValidationProgress
+  ): Promise<BatchValidationResult> {
+    const totalFeeds = resumeFrom?.totalFeeds ?? urls.length;
+    let processedFeeds = resumeFrom?.processedFeeds ?? 0;
     const results: FeedValidationResult[] = [];
     const errors: ValidationError[] = [];
 
-    // Create initial progress
-    const progress: ValidationProgress = {
+    // Create initial progress, or continue the interrupted one
+    const progress: ValidationProgress = resumeFrom ? { ...resumeFrom, categoryCounts: { ...resumeFrom.categoryCounts } } : {
       processedFeeds: 0,
       totalFeeds,
       categoryCounts: {
         active: 0,
         inactive: 0,
+        failing: 0,
         dead: 0,
         incompatible: 0
       }
     };
 
+    // One signal per session reaches every in-flight request
+    const controller = new AbortController();
+    const { signal } = controller;
+    activeValidations.set(validationId, controller);
+
+    // Heartbeat so a restarted instance can tell this session from an orphaned one
+    const heartbeat = setInterval(() => {
+      this.storage.transitionValidationSession(userId, validationId, RUNNING_STATUSES, {
+        heartbeatAt: new Date().toISOString()
+      }).catch((error) => logger.warn(`Failed to refresh heartbeat of validation ${validationId}:`, error));
+    }, SESSION_HEARTBEAT_INTERVAL_MS);
+
     try {
-      // Save initial session state
-      await this.storage.saveValidationSession(userId, validationId, {
-        id: validationId,
-        opmlId: 'batch-validation',
-        status: 'processing',
-        progress,
-        startTime: new Date().toISOString()
-      });
+      // The policy is fixed for the whole session and stored with it; a resumed session keeps its original policy
+      const policySettings = resumeFrom
+        ? (await this.getValidationStatus(userId, validationId))?.policy ?? await this.loadPolicySettings(userId)
+        : await this.loadPolicySettings(userId);
+      // Custom rules are loaded once for the whole session
+      const rules = await loadValidationRules(this.config.rulesModule);
+
+      if (!resumeFrom) {
+        // Save initial session state and the work queue, keeping the opmlId the session was started with
+        const startedSession = await this.getValidationStatus(userId, validationId);
+        const now = new Date().toISOString();
+        await this.storage.saveValidationSession(userId, validationId, {
+          id: validationId,
+          opmlId: startedSession?.opmlId ?? 'batch-validation',
+          status: 'processing',
+          progress,
+          startTime: now,
+          heartbeatAt: now,
+          policy: policySettings
+        });
+        await this.storage.saveValidationQueue(userId, validationId, urls);
+      }
+
+      // Concurrent feeds share one pending read of the session state
+      let sessionCheck: Promise<void> | null = null;
+      const checkSessionState = () => {
+        sessionCheck ??= this.waitWhilePaused(userId, validationId, controller).finally(() => {
+          sessionCheck = null;
+        });
+        return sessionCheck;
+      };
+
+      // Schedule every feed: the scheduler caps overall parallelism and requests per host
+      const scheduler = new HostScheduler(this.config);
+      const feedResults = await Promise.all(
+        urls.map((url) => scheduler.run(url, async (): Promise<FeedValidationResult | null> => {
+          // Between feeds: wait while the session is paused
+          await checkSessionState();
+          // Feeds still queued when the session is stopped are skipped
+          if (signal.aborted) {
+            return null;
+          }
+          try {
+            const result = await this.validateAndStoreFeed(userId, url, rules, signal, policySettings);
+            processedFeeds++;
+
+            // Update progress
+            progress.processedFeeds = processedFeeds;
+            progress.currentFeed = url;
+            progress.categoryCounts[result.status]++;
+
+            // Store the result and progress, and broadcast
+            await this.updateProgress(userId, validationId, progress, result);
 
-      // Process feeds in batches of 10 to avoid overwhelming the system
-      const batchSize = 10;
-      for (let i = 0; i < urls.length; i += batchSize) {
-        const batch = urls.slice(i, i + batchSize);
-        const batchResults = await Promise.all(
-          batch.map(async (url) => {
-            try {
-              const result = await this.validateSingleFeed(userId, url);
-              processedFeeds++;
-              
-              // Update progress
-              progress.processedFeeds = processedFeeds;
-              progress.currentFeed = url;
-              progress.categoryCounts[result.status]++;
-              
-              // Update progress in storage and broadcast
-              await this.updateProgress(userId, validationId, progress);
-              
-              // Update feed record immediately after validation
-              try {
-                const existingFeed = await this.storage.getFeedData(userId, url);
-                const now = new Date().toISOString();
-                
-                if (existingFeed?.value) {
-                  const feed = existingFeed.value;
-                  logger.debug(`Updating feed data for ${url}:`, JSON.stringify(result));
-                  await this.storage.updateFeedData(userId, url, {
-                    status: result.status,
-                    lastUpdate: result.lastUpdate || feed.lastUpdate,
-                    updatesInLast3Months: result.updatesInLast3Months || feed.updatesInLast3Months,
-                    incompatibleReason: result.error || feed.incompatibleReason,
-                    text: result.text || feed.text,
-                    title: result.title || feed.title,
-                    type: result.type || feed.type,
-                    htmlUrl: result.htmlUrl || feed.htmlUrl,
-                    description: result.description || feed.description,
-                    lastValidated: now,
-                    validationHistory: [
-                      ...(feed.validationHistory || []).slice(0, 9),
-                      { timestamp: now, status: result.status }
-                    ]
-                  });
-                  logger.debug(`Updated feed data for ${url}, status: ${result.status}`);
-                }
-              } catch (updateError) {
-                logger.error(`Failed to update feed data for ${url}:`, updateError);
-                // Don't throw - allow validation to continue even if feed updates fail
-              }
-              
-              return result;
-            } catch (error) {
-              const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
-              errors.push({
-                feedUrl: url,
-                error: errorMessage,
-                timestamp: new Date().toISOString()
-              });
-              return {
-                url,
-                status: 'incompatible' as const,
-                error: errorMessage
-              };
+            return result;
+          } catch (error) {
+            if (signal.aborted) {
+              return null;
             }
-          })
-        );
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+            errors.push({
+              feedUrl: url,
+              error: errorMessage,
+              timestamp: new Date().toISOString()
+            });
+            const result: FeedValidationResult = {
+              url,
+              status: 'incompatible',
+              error: errorMessage
+            };
+            // Count the feed like any other result, so progress reaches the total
+            processedFeeds++;
+            progress.processedFeeds = processedFeeds;
+            progress.currentFeed = url;
+            progress.categoryCounts[result.status]++;
 
-        results.push(...batchResults);
+            // Dequeue the feed so a resumed session does not retry it
+            await this.updateProgress(userId, validationId, progress, result);
+            return result;
+          }
+        }))
+      );
+      results.push(...feedResults.filter((result): result is FeedValidationResult => result !== null));
+
+      if (signal.aborted) {
+        // A session stopped for any reason other than cancellation ends like a failed one
+        const session = await this.getValidationStatus(userId, validationId);
+        if (session?.status !== 'cancelled') {
+          signal.throwIfAborted();
+        }
+        logger.info(`Validation ${validationId} cancelled after ${processedFeeds} of ${totalFeeds} feeds`);
+        return {
+          totalProcessed: processedFeeds,
+          results,
+          errors
+        };
       }
 
+      // A resumed session reports the results stored before the interruption as well
+      const allResults = resumeFrom ? await this.storage.getValidationResults(userId, validationId) : results;
+
       // Complete validation
       await this.completeValidation(userId, validationId, {
         validatedFeeds: processedFeeds,
         categories: progress.categoryCounts,
         duration: 0,
         errors,
-        feedResults: results
+        feedResults: allResults
       });
 
       return {
         totalProcessed: processedFeeds,
-        results,
+        results: allResults,
         errors
       };
     } catch (error) {
       logger.error('Batch validation failed:', error);
       await this.handleValidationError(userId, validationId, error);
       throw error;
+    } finally {
+      clearInterval(heartbeat);
+      activeValidations.delete(validationId);
+      // The session has ended: drop feeds left unvalidated and unregister it
+      await this.storage.clearValidationQueue(userId, validationId).catch((error) => {
+        logger.error(`Failed to clear validation queue of ${validationId}:`, error);
+      });
     }
   }
 
-  private async validateSingleFeed(_userId: string, url: string): Promise<FeedValidationResult> {
-    // First check accessibility
-    const isAccessible = await checkFeedAccessibility(url);
-    if (!isAccessible) {
-      return {
-        url,
-        status: 'dead',
-        error: 'Feed URL is not accessible'
-      };
+  /**
+   * Validates a single feed and immediately writes the result to its stored record
+   * @param userId The user ID
+   * @param url The URL of the feed to validate
+   * @param rules The custom validation rules to run after the built-in ones
+   * @param signal Cancels the validation; nothing is stored if it aborts
+   * @param policySettings The session's activity policy settings, resolved by the feed's category
+   * @returns Result of the feed validation
+   */
+  private async validateAndStoreFeed(
+    userId: string,
+    url: string,
+    rules: readonly ValidationRule[],
+    signal?: AbortSignal,
+    policySettings?: ActivityPolicySettings
+  ): Promise<FeedValidationResult> {
+    // Load the stored record first so the fetch can be conditional
+    const existingFeed = await this.storage.getFeedData(userId, url);
+    const policy = resolveActivityPolicy(policySettings, existingFeed?.value.category);
+    const result = await this.validateSingleFeed(userId, url, rules, existingFeed?.value, signal, policy);
+
+    // Update feed record immediately after validation
+    try {
+      const now = new Date().toISOString();
+
+      if (existingFeed?.value) {
+        const feed = existingFeed.value;
+        const historyEntry: ValidationHistoryEntry = {
+          timestamp: now,
+          status: result.status,
+          error: result.error,
+          failure: result.failure,
+          responseTimeMs: result.responseTimeMs
+        };
+        // Keep the 10 most recent entries, oldest first
+        const validationHistory = [...(feed.validationHistory || []).slice(-9), historyEntry];
+        let updates: Partial<FeedRecord>;
+        if (result.notModified) {
+          // Unchanged feed: keep the previous analysis, only refresh its status and the validation metadata
+          logger.debug(`Feed ${url} not modified, refreshing status and validation timestamp only`);
+          updates = {
+            status: result.status,
+            lastValidated: now,
+            httpCache: result.httpCache || feed.httpCache,
+            redirects: result.redirects,
+            movedTo: result.movedTo,
+            validationHistory
+          };
+        } else {
+          logger.debug(`Updating feed data for ${url}:`, JSON.stringify(result));
+          updates = {
+            status: result.status,
+            lastUpdate: result.lastUpdate || feed.lastUpdate,
+            updatesInLast3Months: result.updatesInLast3Months || feed.updatesInLast3Months,
+            updateCounts: result.updateCounts || feed.updateCounts,
+            cadence: result.cadence || feed.cadence,
+            dateReport: result.dateReport || feed.dateReport,
+            // A successful validation clears the previous failure
+            incompatibleReason: result.error,
+            failure: result.failure,
+            // Warnings describe the last successful analysis
+            warnings: result.failure ? feed.warnings : result.warnings,
+            text: result.text || feed.text,
+            title: result.title || feed.title,
+            type: result.type || feed.type,
+            htmlUrl: result.htmlUrl || feed.htmlUrl,
+            description: result.description || feed.description,
+            httpCache: result.httpCache || feed.httpCache,
+            redirects: result.redirects,
+            movedTo: result.movedTo,
+            suggestedUrl: result.suggestedUrl,
+            moveSignal: result.failure ? feed.moveSignal : result.moveSignal,
+            podcast: result.failure ? feed.podcast : result.podcast,
+            websub: result.failure ? feed.websub : result.websub,
+            httpsUrl: result.failure ? feed.httpsUrl : result.httpsUrl,
+            lastValidated: now,
+            validationHistory
+          };
+        }
+        // Score the feed as updated; the history keeps the score for its trend
+        const health = computeFeedHealth({ ...feed, ...updates }, new Date(now));
+        historyEntry.healthScore = health.score;
+        await this.storage.updateFeedData(userId, url, {
+          ...updates,
+          healthScore: health.score,
+          healthFactors: health.factors
+        });
+        logger.debug(`Updated feed data for ${url}, status: ${result.status}`);
+
+        // Permanently moved feed: follow it to its new URL if configured, otherwise leave it as a suggestion
+        if (result.movedTo && this.config.autoMigrateRedirects) {
+          await this.storage.migrateFeedUrl(userId, url, result.movedTo);
+        }
+      }
+    } catch (updateError) {
+      logger.error(`Failed to update feed data for ${url}:`, updateError);
+      // Don't throw - allow validation to continue even if feed updates fail
     }
 
-    // Check compatibility
-    const compatibilityCheck = await checkFeedCompatibility(url);
-    if (compatibilityCheck.status === 'incompatible') {
-      return {
-        url,
-        status: 'incompatible',
-        error: compatibilityCheck.incompatibleReason
-      };
+    // Let the feed's hub push its updates, if the server can receive WebSub callbacks
+    if (existingFeed?.value && result.websub && this.websub.enabled) {
+      try {
+        await this.websub.ensureSubscribed(userId, url, result.websub);
+      } catch (error) {
+        logger.warn(`Failed to subscribe to WebSub hub for ${url}:`, error);
+      }
     }
 
-    // Check update frequency for compatible feeds
-    const updateCheck = await getFeedUpdateFrequency(url);
-    return {
-      ...updateCheck,
-      error: updateCheck.incompatibleReason // For compatibility with existing code
-    };
+    return result;
+  }
+
+  private async validateSingleFeed(
+    _userId: string,
+    url: string,
+    rules: readonly ValidationRule[],
+    previous?: FeedRecord,
+    signal?: AbortSignal,
+    policy?: ActivityPolicy
+  ): Promise<FeedValidationResult> {
+    // One fetch per feed, shared by the built-in and custom validation rules
+    // The previous record supplies the cache validators for a conditional request
+    const result = await validateFeed(url, {
+      previous,
+      retry: getRetryOptions(this.config),
+      limits: getFetchLimits(this.config),
+      signal,
+      policy,
+      rules
+    });
+
+    // A failure of a previously working feed only becomes 'dead' after repeated failures
+    if (previous) {
+      const status = applyFailurePolicy(result.status, previous.validationHistory || [], this.config.deadAfterFailures);
+      if (status !== result.status) {
+        logger.info(`Feed ${url} failed validation but is kept as ${status} until ${this.config.deadAfterFailures} consecutive failures`);
+        result.status = status;
+      }
+    }
+
+    // A dead feed's website may still publish a feed under a new URL
+    if (result.status === 'dead' && !result.suggestedUrl && previous?.htmlUrl) {
+      try {
+        result.suggestedUrl = await discoverFeed(previous.htmlUrl, {
+          exclude: [url],
+          limits: getFetchLimits(this.config),
+          signal
+        });
+      } catch (error) {
+        if (signal?.aborted) {
+          throw error;
+        }
+        logger.warn(`Feed discovery failed for ${previous.htmlUrl}:`, error);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Loads the user's activity policy settings
+   * @param userId The user ID
+   * @returns The saved settings, or the built-in policy if the user has none
+   */
+  private async loadPolicySettings(userId: string): Promise<ActivityPolicySettings> {
+    return await this.storage.getActivityPolicySettings(userId) ?? createDefaultPolicySettings();
+  }
+
+  /**
+   * Reads the session state between feeds: waits while it is paused and aborts the run once it is cancelled
+   * @param userId The user ID
+   * @param validationId The validation session ID
+   * @param controller The session's abort controller
+   */
+  private async waitWhilePaused(userId: string, validationId: string, controller: AbortController): Promise<void> {
+    while (!controller.signal.aborted) {
+      let status: ValidationSessionStatus | undefined;
+      try {
+        status = (await this.getValidationStatus(userId, validationId))?.status;
+      } catch (error) {
+        // Keep validating if the session cannot be read
+        logger.warn(`Could not read state of validation ${validationId}:`, error);
+        return;
+      }
 
+      if (status === 'cancelled') {
+        controller.abort(new Error('Validation cancelled'));
+        return;
+      }
+      if (status !== 'paused') {
+        return;
+      }
+      await new Promise((resolve) => setTimeout(resolve, PAUSE_POLL_INTERVAL_MS));
+    }
   }
 
-  private async updateProgress(userId: string, validationId: string, progress: ValidationProgress): Promise<void> {
+  private async updateProgress(
+    userId: string,
+    validationId: string,
+    progress: ValidationProgress,
+    result: FeedValidationResult
+  ): Promise<void> {
     try {
-      await this.storage.updateValidationProgress(userId, validationId, progress);
+      await this.storage.recordValidationResult(userId, validationId, result, progress);
       this.websocket.broadcastProgress(validationId, progress);
     } catch (error) {
       logger.error(`Failed to update progress for validation ${validationId}:`, error);
@@ -263,13 +703,11 @@ export class ValidationServiceImpl {
 
   private async completeValidation(userId: string, validationId: string, results: ValidationResults): Promise<void> {
     try {
-      // Update session status
-      const session = await this.getValidationStatus(userId, validationId);
-      if (session) {
-        session.status = 'completed';
-        session.endTime = new Date().toISOString();
-        await this.storage.saveValidationSession(userId, validationId, session);
-      }
+      // Update session status unless it was cancelled in the meantime
+      await this.storage.transitionValidationSession(userId, validationId, RUNNING_STATUSES, {
+        status: 'completed',
+        endTime: new Date().toISOString()
+      });
 
       // Broadcast completion
       this.websocket.broadcastComplete(validationId, results);
@@ -280,14 +718,12 @@ export class ValidationServiceImpl {
 
   private async handleValidationError(userId: string, validationId: string, error: unknown): Promise<void> {
     try {
-      // Update session status
-      const session = await this.getValidationStatus(userId, validationId);
-      if (session) {
-        session.status = 'error';
-        session.endTime = new Date().toISOString();
-        session.error = error instanceof Error ? error.message : 'Unknown error occurred';
-        await this.storage.saveValidationSession(userId, validationId, session);
-      }
+      // Update session status unless it already ended
+      await this.storage.transitionValidationSession(userId, validationId, RUNNING_STATUSES, {
+        status: 'error',
+        endTime: new Date().toISOString(),
+        error: error instanceof Error ? error.message : 'Unknown error occurred'
+      });
 
       // Broadcast error
       this.websocket.broadcastError(validationId, {
@@ -0,0 +1,2 @@
+export { WEBSUB_RENEWAL_CRON_SCHEDULE, WebSubServiceImpl } from './websub.impl.ts';
+export type { WebSubNotification } from './websub.impl.ts';
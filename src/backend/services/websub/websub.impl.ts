@@ -0,0 +1,275 @@
+import { createLogger } from "../../../utils/logger.ts";
+import type { IKVStorageService } from "../storage/index.ts";
+import type { FeedWebSub } from "../../types/feed.types.ts";
+import type { WebSubConfig, WebSubSubscription } from "../../types/websub.types.ts";
+import { loadWebSubConfig } from "../../validationConfig.ts";
+
+const logger = createLogger("websubService");
+
+/** Cron expression of the lease renewal job */
+export const WEBSUB_RENEWAL_CRON_SCHEDULE = "30 * * * *";
+
+/** Path of the callback route; the subscription ID is appended */
+const CALLBACK_PATH = "/api/websub/";
+
+/** Timeout of a subscription request to a hub */
+const HUB_REQUEST_TIMEOUT_MS = 15000;
+
+/** Age after which a subscription the hub never verified is requested again */
+const PENDING_RETRY_AFTER_MS = 24 * 60 * 60 * 1000;
+
+/** Web Crypto hash of each X-Hub-Signature method */
+const SIGNATURE_HASHES: Record<string, string> = {
+  sha1: "SHA-1",
+  sha256: "SHA-256",
+  sha384: "SHA-384",
+  sha512: "SHA-512"
+};
+
+/**
+ * A content notification pushed by a hub
+ */
+export interface WebSubNotification {
+  subscription: WebSubSubscription;
+  /** False if the X-Hub-Signature is missing or wrong; the content must then be ignored */
+  authentic: boolean;
+}
+
+/**
+ * Creates a random secret for signing notifications
+ */
+function createSecret(): string {
+  return Array.from(crypto.getRandomValues(new Uint8Array(32)), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Checks the X-Hub-Signature of a notification, e.g. "sha256=4f2a..."
+ * @param secret The subscription's secret
+ * @param body The raw notification body
+ * @param header The X-Hub-Signature header
+ * @returns true if the signature is the HMAC of the body with the secret
+ */
+async function verifySignature(secret: string, body: Uint8Array<ArrayBuffer>, header: string | null): Promise<boolean> {
+  const match = /^(sha1|sha256|sha384|sha512)=([0-9a-f]+)$/i.exec(header?.trim() ?? "");
+  if (!match || match[2].length % 2 !== 0) {
+    return false;
+  }
+  const signature = new Uint8Array(match[2].match(/../g)!.map((byte) => parseInt(byte, 16)));
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(secret),
+    { name: "HMAC", hash: SIGNATURE_HASHES[match[1].toLowerCase()] },
+    false,
+    ["verify"]
+  );
+  return await crypto.subtle.verify("HMAC", key, signature, body);
+}
+
+/**
+ * WebSub subscriber
+ * Subscribes feeds at the hubs they advertise, answers the hubs' intent verifications,
+ * authenticates content notifications and renews leases before they expire.
+ * Refreshing the feed record on a notification is left to the caller.
+ */
+export class WebSubServiceImpl {
+  constructor(
+    private readonly storage: IKVStorageService,
+    private readonly config: WebSubConfig = loadWebSubConfig(),
+    /** Used for hub requests; replaceable to test against a local hub stand-in */
+    private readonly fetchFn: typeof fetch = fetch
+  ) {}
+
+  /**
+   * True if a callback URL is configured, so hubs can reach this server
+   */
+  get enabled(): boolean {
+    return this.config.callbackBaseUrl !== null;
+  }
+
+  /**
+   * Subscribes a feed at its hub, unless it already has a subscription for the same topic and hub
+   * The subscription is stored as pending before each request, as a hub may verify the intent before it answers;
+   * if every hub refuses, the feed's previous subscription is restored.
+   * @param userId The user the feed belongs to
+   * @param feedUrl The URL of the feed record
+   * @param websub The hubs and topic advertised by the feed
+   * @returns The feed's subscription, or null if WebSub is disabled or no hub accepted the request
+   */
+  async ensureSubscribed(userId: string, feedUrl: string, websub: FeedWebSub): Promise<WebSubSubscription | null> {
+    if (!this.enabled) {
+      return null;
+    }
+    const existing = await this.storage.getWebSubSubscriptionForFeed(userId, feedUrl);
+    if (existing && existing.topic === websub.topic && websub.hubs.includes(existing.hub)) {
+      return existing;
+    }
+
+    // A new topic gets a new callback URL; saving it drops the previous subscription
+    const subscription: Omit<WebSubSubscription, "hub"> = {
+      id: crypto.randomUUID(),
+      userId,
+      feedUrl,
+      topic: websub.topic,
+      secret: createSecret(),
+      state: "pending",
+      requestedAt: new Date().toISOString()
+    };
+    for (const hub of websub.hubs) {
+      await this.storage.saveWebSubSubscription({ ...subscription, hub });
+      if (await this.sendSubscriptionRequest({ ...subscription, hub })) {
+        logger.info(`Requested WebSub subscription for ${feedUrl} at ${hub}`);
+        // Read back, as the hub may already have verified it
+        return await this.storage.getWebSubSubscription(subscription.id) ?? { ...subscription, hub };
+      }
+    }
+    logger.warn(`No WebSub hub accepted the subscription for ${feedUrl}`);
+    if (existing) {
+      await this.storage.saveWebSubSubscription(existing);
+    } else {
+      await this.storage.deleteWebSubSubscription(subscription.id);
+    }
+    return null;
+  }
+
+  /**
+   * Answers a hub's intent verification (GET on the callback URL)
+   * Subscriptions are confirmed if the topic matches; unsubscriptions are never requested and so refused.
+   * @param id The subscription ID from the callback URL
+   * @param params The query parameters (hub.mode, hub.topic, hub.challenge, hub.lease_seconds, hub.reason)
+   * @returns The response body to send with 200, or null to refuse with 404
+   */
+  async verifyIntent(id: string, params: URLSearchParams): Promise<string | null> {
+    const subscription = await this.storage.getWebSubSubscription(id);
+    if (!subscription || params.get("hub.topic") !== subscription.topic) {
+      return null;
+    }
+    const now = new Date();
+
+    const mode = params.get("hub.mode");
+    if (mode === "denied") {
+      const reason = params.get("hub.reason") ?? undefined;
+      logger.warn(`Hub ${subscription.hub} denied the subscription for ${subscription.feedUrl}${reason ? `: ${reason}` : ""}`);
+      await this.storage.saveWebSubSubscription({ ...subscription, state: "denied", deniedReason: reason });
+      return "";
+    }
+
+    const challenge = params.get("hub.challenge");
+    if (mode !== "subscribe" || !challenge) {
+      return null;
+    }
+    const leaseSeconds = parseInt(params.get("hub.lease_seconds") ?? "", 10);
+    const hasLease = !isNaN(leaseSeconds) && leaseSeconds > 0;
+    await this.storage.saveWebSubSubscription({
+      ...subscription,
+      state: "active",
+      verifiedAt: now.toISOString(),
+      leaseSeconds: hasLease ? leaseSeconds : undefined,
+      expiresAt: hasLease ? new Date(now.getTime() + leaseSeconds * 1000).toISOString() : undefined,
+      deniedReason: undefined
+    });
+    logger.info(`WebSub subscription for ${subscription.feedUrl} verified${hasLease ? ` for ${leaseSeconds}s` : ""}`);
+    return challenge;
+  }
+
+  /**
+   * Receives a content notification (POST on the callback URL)
+   * @param id The subscription ID from the callback URL
+   * @param body The raw notification body
+   * @param signature The X-Hub-Signature header
+   * @returns The subscription and whether the notification is authentic, or null if the subscription is unknown
+   */
+  async receiveNotification(id: string, body: Uint8Array<ArrayBuffer>, signature: string | null): Promise<WebSubNotification | null> {
+    const subscription = await this.storage.getWebSubSubscription(id);
+    if (!subscription || subscription.state === "denied") {
+      return null;
+    }
+    const authentic = await verifySignature(subscription.secret, body, signature);
+    if (!authentic) {
+      logger.warn(`Ignoring WebSub notification for ${subscription.feedUrl} with a missing or invalid signature`);
+      return { subscription, authentic };
+    }
+    const updated = { ...subscription, lastNotificationAt: new Date().toISOString() };
+    await this.storage.saveWebSubSubscription(updated);
+    logger.info(`WebSub notification for ${subscription.feedUrl} from ${subscription.hub}`);
+    return { subscription: updated, authentic };
+  }
+
+  /**
+   * Renews the leases that expire soon and retries subscriptions the hub never verified
+   * Subscriptions of feeds that no longer exist are dropped instead.
+   * @param now The current time
+   * @returns The number of renewal requests accepted by the hubs
+   */
+  async renewLeases(now: Date = new Date()): Promise<number> {
+    if (!this.enabled) {
+      return 0;
+    }
+    let renewed = 0;
+    for (const subscription of await this.storage.listWebSubSubscriptions()) {
+      if (!this.needsRenewal(subscription, now)) {
+        continue;
+      }
+      if (!await this.storage.getFeedData(subscription.userId, subscription.feedUrl)) {
+        logger.info(`Dropping WebSub subscription of removed feed ${subscription.feedUrl}`);
+        await this.storage.deleteWebSubSubscription(subscription.id);
+        continue;
+      }
+      // The hub verifies the renewal again, which refreshes the lease
+      if (await this.sendSubscriptionRequest(subscription)) {
+        await this.storage.saveWebSubSubscription({ ...subscription, requestedAt: now.toISOString() });
+        renewed++;
+      } else {
+        logger.warn(`Hub ${subscription.hub} refused to renew the subscription for ${subscription.feedUrl}`);
+      }
+    }
+    if (renewed > 0) {
+      logger.info(`Renewed ${renewed} WebSub subscriptions`);
+    }
+    return renewed;
+  }
+
+  /**
+   * Checks if a subscription has to be requested again
+   */
+  private needsRenewal(subscription: WebSubSubscription, now: Date): boolean {
+    if (subscription.state === "pending") {
+      return now.getTime() - Date.parse(subscription.requestedAt) >= PENDING_RETRY_AFTER_MS;
+    }
+    if (subscription.state !== "active" || !subscription.expiresAt) {
+      return false;
+    }
+    const renewAt = Date.parse(subscription.expiresAt) - this.config.renewBeforeSeconds * 1000;
+    // Do not ask again while the previous renewal is still being verified, unless the hub never answered
+    const requestedAt = Date.parse(subscription.requestedAt);
+    return now.getTime() >= renewAt && (requestedAt < renewAt || now.getTime() - requestedAt >= PENDING_RETRY_AFTER_MS);
+  }
+
+  /**
+   * Sends a subscription request to the subscription's hub
+   * @returns true if the hub accepted the request (202 Accepted, or 204 from some hubs)
+   */
+  private async sendSubscriptionRequest(subscription: WebSubSubscription): Promise<boolean> {
+    const body = new URLSearchParams({
+      "hub.callback": new URL(`${CALLBACK_PATH}${subscription.id}`, this.config.callbackBaseUrl!).href,
+      "hub.mode": "subscribe",
+      "hub.topic": subscription.topic,
+      "hub.lease_seconds": String(this.config.leaseSeconds),
+      "hub.secret": subscription.secret
+    });
+    try {
+      const response = await this.fetchFn(subscription.hub, {
+        method: "POST",
+        body,
+        signal: AbortSignal.timeout(HUB_REQUEST_TIMEOUT_MS)
+      });
+      await response.body?.cancel();
+      if (!response.ok) {
+        logger.debug(`Hub ${subscription.hub} answered ${response.status} to the subscription for ${subscription.topic}`);
+      }
+      return response.ok;
+    } catch (error) {
+      logger.debug(`Subscription request to hub ${subscription.hub} failed:`, error);
+      return false;
+    }
+  }
+}
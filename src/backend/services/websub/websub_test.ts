@@ -0,0 +1,218 @@
+import { assertEquals } from "@std/assert";
+import { WebSubServiceImpl } from "./websub.impl.ts";
+import { KVStorageService } from "../storage/index.ts";
+import type { FeedRecord } from "../../types/feed.types.ts";
+import type { WebSubConfig } from "../../types/websub.types.ts";
+
+const USER_ID = "0b8c6a2e-3f41-4d5e-9a7b-1c2d3e4f5a6b";
+const FEED_URL = "https://blog.example.com/feed.xml";
+const HUB_URL = "https://hub.example.com/";
+const CONFIG: WebSubConfig = {
+  callbackBaseUrl: "https://reader.example.com",
+  leaseSeconds: 86400,
+  renewBeforeSeconds: 3600
+};
+
+/**
+ * Local stand-in for a WebSub hub
+ * Answers subscription requests, then plays the hub's side of the protocol on demand:
+ * verifying the subscriber's intent and pushing signed notifications to the callback.
+ */
+class HubStandIn {
+  readonly requests: URLSearchParams[] = [];
+  /** Status of the answer to subscription requests */
+  status = 202;
+  /** Set to verify the intent before answering a request, as the specification allows */
+  verifyBeforeAnswering?: WebSubServiceImpl;
+  /** The subscriber's answer to the verification made before answering */
+  earlyVerification?: string | null;
+
+  readonly fetch: typeof fetch = async (input, init) => {
+    assertEquals(String(input), HUB_URL);
+    this.requests.push(new URLSearchParams(init?.body as URLSearchParams));
+    if (this.verifyBeforeAnswering) {
+      this.earlyVerification = await this.verifyIntent(this.verifyBeforeAnswering);
+    }
+    return new Response(null, { status: this.status });
+  };
+
+  /** Subscription ID of the last request, from its callback URL */
+  get subscriptionId(): string {
+    return new URL(this.requests.at(-1)!.get("hub.callback")!).pathname.split("/").pop()!;
+  }
+
+  /** Verifies the intent of the last request, as the hub's GET on the callback URL */
+  verifyIntent(service: WebSubServiceImpl, topic = this.requests.at(-1)!.get("hub.topic")!): Promise<string | null> {
+    return service.verifyIntent(this.subscriptionId, new URLSearchParams({
+      "hub.mode": "subscribe",
+      "hub.topic": topic,
+      "hub.challenge": "challenge-123",
+      "hub.lease_seconds": String(CONFIG.leaseSeconds)
+    }));
+  }
+
+  /** Signs a notification body with the secret of the last request, as the X-Hub-Signature header */
+  async sign(body: Uint8Array<ArrayBuffer>): Promise<string> {
+    const key = await crypto.subtle.importKey(
+      "raw",
+      new TextEncoder().encode(this.requests.at(-1)!.get("hub.secret")!),
+      { name: "HMAC", hash: "SHA-256" },
+      false,
+      ["sign"]
+    );
+    const signature = new Uint8Array(await crypto.subtle.sign("HMAC", key, body));
+    return `sha256=${Array.from(signature, (byte) => byte.toString(16).padStart(2, "0")).join("")}`;
+  }
+}
+
+function createFeed(url: string): FeedRecord {
+  return {
+    userId: USER_ID,
+    url,
+    text: "Example blog",
+    status: "active",
+    lastUpdate: undefined,
+    updatesInLast3Months: 0,
+    category: "Blogs",
+    lastValidated: null,
+    validationHistory: []
+  };
+}
+
+type WebSubTest = (service: WebSubServiceImpl, hub: HubStandIn, storage: KVStorageService) => Promise<void>;
+
+/**
+ * Runs a test against an in-memory store holding one feed, with the hub stand-in
+ */
+async function withFeed(test: WebSubTest): Promise<void> {
+  const storage = await KVStorageService.initialize(":memory:");
+  try {
+    const hub = new HubStandIn();
+    const service = new WebSubServiceImpl(storage, CONFIG, hub.fetch);
+    await storage.saveFeedData(USER_ID, createFeed(FEED_URL));
+    await test(service, hub, storage);
+  } finally {
+    storage.close();
+  }
+}
+
+/**
+ * Runs a test against an in-memory store holding one feed, subscribed at the hub stand-in
+ */
+function withSubscribedFeed(test: WebSubTest): Promise<void> {
+  return withFeed(async (service, hub, storage) => {
+    await service.ensureSubscribed(USER_ID, FEED_URL, { hubs: [HUB_URL], topic: FEED_URL });
+    await test(service, hub, storage);
+  });
+}
+
+Deno.test("WebSub subscriber answers the hub's intent verification", async () => {
+  await withSubscribedFeed(async (service, hub, storage) => {
+    assertEquals(hub.requests.length, 1);
+    assertEquals(hub.requests[0].get("hub.mode"), "subscribe");
+    assertEquals(hub.requests[0].get("hub.topic"), FEED_URL);
+    assertEquals((await storage.getWebSubSubscription(hub.subscriptionId))?.state, "pending");
+
+    // A verification for another topic is refused
+    assertEquals(await hub.verifyIntent(service, "https://other.example.com/feed.xml"), null);
+
+    assertEquals(await hub.verifyIntent(service), "challenge-123");
+    const subscription = await storage.getWebSubSubscription(hub.subscriptionId);
+    assertEquals(subscription?.state, "active");
+    assertEquals(subscription?.leaseSeconds, CONFIG.leaseSeconds);
+
+    // An existing subscription for the same topic and hub is not requested again
+    await service.ensureSubscribed(USER_ID, FEED_URL, { hubs: [HUB_URL], topic: FEED_URL });
+    assertEquals(hub.requests.length, 1);
+  });
+});
+
+Deno.test("WebSub subscriber answers an intent verification made before the hub answers", async () => {
+  await withFeed(async (service, hub, storage) => {
+    hub.verifyBeforeAnswering = service;
+    const subscription = await service.ensureSubscribed(USER_ID, FEED_URL, { hubs: [HUB_URL], topic: FEED_URL });
+
+    assertEquals(hub.earlyVerification, "challenge-123");
+    assertEquals(subscription?.state, "active");
+    assertEquals((await storage.getWebSubSubscription(hub.subscriptionId))?.state, "active");
+  });
+});
+
+Deno.test("WebSub subscriber keeps no subscription that every hub refused", async () => {
+  await withFeed(async (service, hub, storage) => {
+    hub.status = 503;
+    assertEquals(await service.ensureSubscribed(USER_ID, FEED_URL, { hubs: [HUB_URL], topic: FEED_URL }), null);
+    assertEquals(await storage.getWebSubSubscription(hub.subscriptionId), null);
+    assertEquals(await storage.getWebSubSubscriptionForFeed(USER_ID, FEED_URL), null);
+  });
+
+  await withSubscribedFeed(async (service, hub, storage) => {
+    await hub.verifyIntent(service);
+    const { id } = (await storage.getWebSubSubscription(hub.subscriptionId))!;
+    hub.status = 503;
+    const newTopic = "https://blog.example.com/atom.xml";
+    assertEquals(await service.ensureSubscribed(USER_ID, FEED_URL, { hubs: [HUB_URL], topic: newTopic }), null);
+
+    const kept = await storage.getWebSubSubscriptionForFeed(USER_ID, FEED_URL);
+    assertEquals(kept?.id, id);
+    assertEquals(kept?.state, "active");
+    assertEquals(await storage.getWebSubSubscription(hub.subscriptionId), null);
+  });
+});
+
+Deno.test("WebSub subscriber authenticates HMAC-signed notifications", async () => {
+  await withSubscribedFeed(async (service, hub) => {
+    await hub.verifyIntent(service);
+    const body = new TextEncoder().encode("<rss><channel><item><title>New post</title></item></channel></rss>");
+
+    const signed = await service.receiveNotification(hub.subscriptionId, body, await hub.sign(body));
+    assertEquals(signed?.authentic, true);
+    assertEquals(signed?.subscription.lastNotificationAt !== undefined, true);
+
+    const tampered = await service.receiveNotification(hub.subscriptionId, new TextEncoder().encode("<rss/>"), await hub.sign(body));
+    assertEquals(tampered?.authentic, false);
+    assertEquals((await service.receiveNotification(hub.subscriptionId, body, null))?.authentic, false);
+    assertEquals(await service.receiveNotification("unknown", body, await hub.sign(body)), null);
+  });
+});
+
+Deno.test("WebSub subscriber renews leases before they expire", async () => {
+  await withSubscribedFeed(async (service, hub, storage) => {
+    await hub.verifyIntent(service);
+    const { expiresAt } = (await storage.getWebSubSubscription(hub.subscriptionId))!;
+
+    // Not yet within the renewal window
+    assertEquals(await service.renewLeases(new Date(Date.parse(expiresAt!) - 2 * CONFIG.renewBeforeSeconds * 1000)), 0);
+
+    const renewed = await service.renewLeases(new Date(Date.parse(expiresAt!) - CONFIG.renewBeforeSeconds * 1000 / 2));
+    assertEquals(renewed, 1);
+    assertEquals(hub.requests.length, 2);
+    assertEquals(hub.requests[1].get("hub.callback"), hub.requests[0].get("hub.callback"));
+  });
+});
+
+Deno.test("WebSub subscriber keeps renewing the lease of a migrated feed", async () => {
+  await withSubscribedFeed(async (service, hub, storage) => {
+    await hub.verifyIntent(service);
+    const { id, expiresAt } = (await storage.getWebSubSubscription(hub.subscriptionId))!;
+    const newUrl = "https://example.com/blog/feed.xml";
+    await storage.migrateFeedUrl(USER_ID, FEED_URL, newUrl);
+
+    assertEquals((await storage.getWebSubSubscriptionForFeed(USER_ID, newUrl))?.id, id);
+    assertEquals(await storage.getWebSubSubscriptionForFeed(USER_ID, FEED_URL), null);
+    assertEquals(await service.renewLeases(new Date(Date.parse(expiresAt!) - 1000)), 1);
+    assertEquals((await storage.getWebSubSubscription(id))?.feedUrl, newUrl);
+  });
+});
+
+Deno.test("WebSub subscriber drops the subscription of a removed feed", async () => {
+  await withSubscribedFeed(async (service, hub, storage) => {
+    await hub.verifyIntent(service);
+    const { id, expiresAt } = (await storage.getWebSubSubscription(hub.subscriptionId))!;
+    await storage.deleteFeedData(USER_ID, FEED_URL);
+
+    assertEquals(await service.renewLeases(new Date(Date.parse(expiresAt!) - 1000)), 0);
+    assertEquals(hub.requests.length, 1);
+    assertEquals(await storage.getWebSubSubscription(id), null);
+  });
+});
@@ -4,8 +4,134 @@
 
 /**
  * Possible states for a feed
+ * 'failing' marks a previously working feed whose recent validations failed,
+ * before it is demoted to 'dead' after repeated consecutive failures
  */
-export type FeedStatus = 'active' | 'inactive' | 'dead' | 'incompatible';
+export type FeedStatus = 'active' | 'inactive' | 'failing' | 'dead' | 'incompatible';
+
+/**
+ * Classification of why a feed failed validation
+ * Network failures: DNS_FAILURE, TLS_ERROR, TIMEOUT, NETWORK_ERROR (any other connection failure),
+ * BODY_TOO_LARGE (the response exceeded the configured size limit)
+ * HTTP failures: HTTP_4XX, HTTP_5XX
+ * Content failures: NOT_XML, HTML_PAGE, NO_ENTRIES, NO_DATES, PARSE_ERROR
+ * RULE_FAILED: a custom validation rule marked the feed as not working
+ */
+export type FeedErrorCode =
+    | 'DNS_FAILURE'
+    | 'TLS_ERROR'
+    | 'TIMEOUT'
+    | 'NETWORK_ERROR'
+    | 'BODY_TOO_LARGE'
+    | 'HTTP_4XX'
+    | 'HTTP_5XX'
+    | 'NOT_XML'
+    | 'HTML_PAGE'
+    | 'NO_ENTRIES'
+    | 'NO_DATES'
+    | 'PARSE_ERROR'
+    | 'RULE_FAILED';
+
+/**
+ * A classified validation failure with its details
+ */
+export interface FeedError {
+    /** The failure class */
+    code: FeedErrorCode;
+    /** Human-readable description of the failure */
+    message: string;
+    /** HTTP status code, for HTTP_4XX and HTTP_5XX */
+    httpStatus?: number;
+    /** Content-Type of the response, for content failures */
+    contentType?: string;
+}
+
+/**
+ * Classification of a non-fatal problem found while validating a working feed
+ * CONTENT_TYPE_MISMATCH: the body is a valid feed but the Content-Type header names another format
+ * Spec lint: MISSING_GUID, DUPLICATE_GUID, MISSING_LINK, RELATIVE_URL, INVALID_DATE, MISSING_SELF_LINK,
+ * OVERSIZED_FEED, HTML_IN_TITLE
+ * MIXED_CONTENT: an https feed whose entries link to or embed http:// URLs
+ * CUSTOM_RULE: a problem found by a custom validation rule
+ */
+export type FeedWarningCode =
+    | 'CONTENT_TYPE_MISMATCH'
+    | 'MISSING_GUID'
+    | 'DUPLICATE_GUID'
+    | 'MISSING_LINK'
+    | 'RELATIVE_URL'
+    | 'INVALID_DATE'
+    | 'MISSING_SELF_LINK'
+    | 'OVERSIZED_FEED'
+    | 'HTML_IN_TITLE'
+    | 'MIXED_CONTENT'
+    | 'CUSTOM_RULE';
+
+/**
+ * A non-fatal problem of a working feed
+ */
+export interface FeedWarning {
+    /** The warning class */
+    code: FeedWarningCode;
+    /** Human-readable description of the problem */
+    message: string;
+    /** Number of affected entries, URLs or dates, for problems that can occur more than once */
+    count?: number;
+    /** Name of the custom validation rule that found the problem, for CUSTOM_RULE warnings */
+    rule?: string;
+}
+
+/**
+ * Evidence of a feed move announced inside the feed content
+ * NEW_FEED_URL: an <itunes:new-feed-url> element
+ * SELF_LINK: an Atom <link rel="self"> (or JSON Feed feed_url) pointing to another URL
+ * MOVED_ENTRY: an entry announcing the move, e.g. "We've moved"
+ */
+export type FeedMoveEvidence = 'NEW_FEED_URL' | 'SELF_LINK' | 'MOVED_ENTRY';
+
+/**
+ * A new feed location announced inside the feed content
+ */
+export interface FeedMoveSignal {
+    /** The announced new feed URL */
+    url: string;
+    /** How the move was announced */
+    evidence: FeedMoveEvidence;
+    /** Human-readable evidence, e.g. the title of the announcing entry */
+    detail: string;
+}
+
+/**
+ * Podcast details of a feed with enclosures or iTunes elements
+ */
+export interface PodcastInfo {
+    /** Number of entries with an enclosure */
+    episodeCount: number;
+    /** Publication date of the newest episode */
+    latestEpisode?: string;
+    /** Cover art from <itunes:image>, the channel image, or the Atom logo */
+    artworkUrl?: string;
+    /** Mean <itunes:duration> of the episodes, in seconds */
+    averageDurationSeconds?: number;
+    /** Duration of the newest episode, in seconds */
+    latestDurationSeconds?: number;
+    /** Number of newest enclosure URLs that were requested */
+    mediaChecked: number;
+    /** Sampled enclosure URLs that did not resolve */
+    failedMediaUrls?: string[];
+    /** True if none of the sampled enclosures resolves: the feed works but its episodes cannot be played */
+    deadMedia: boolean;
+}
+
+/**
+ * WebSub (formerly PubSubHubbub) hubs advertised by a feed, which can push its updates
+ */
+export interface FeedWebSub {
+    /** Hub URLs from <link rel="hub">, JSON Feed hubs or the HTTP Link header, in order of preference */
+    hubs: string[];
+    /** The topic URL to subscribe to: the feed's self link, or the URL it was fetched from */
+    topic: string;
+}
 
 /**
  * Base feed interface with common properties shared across the application
@@ -17,7 +143,7 @@ export interface FeedBase {
     text: string;
     /** Feed's human-readable title (from RSS or OPML, optional but often simply duplicate the value of 'text') */
     title?: string;
-    /** Feed type, usually 'rss' (optional, from OPML) */
+    /** Feed type, usually 'rss', or 'json' for JSON Feeds (optional, from OPML or detected on validation) */
     type?: string;
     /** Website URL for the feed (optional, from OPML) */
     htmlUrl?: string;
@@ -30,14 +156,34 @@ export interface FeedBase {
  * This is equivalent to the previous FeedStatus interface in parseOPML.ts
  */
 export interface FeedEntry extends FeedBase {
-    /** Current status of the feed (active/inactive/dead/incompatible) */
+    /** Current status of the feed (active/inactive/failing/dead/incompatible) */
     status: FeedStatus;
     /** Most recent update time of the feed, null if never updated or inaccessible */
     lastUpdate: string | undefined;
     /** Number of updates in the last 3 months */
     updatesInLast3Months: number;
+    /** Number of updates in each counting window of the activity policy, keyed by window length in days */
+    updateCounts?: Record<string, number>;
+    /** Posting cadence derived from the entry dates of the last successful analysis */
+    cadence?: FeedCadence;
+    /** How the entry dates of the last successful analysis were read */
+    dateReport?: FeedDateReport;
     /** Reason for incompatibility if status is 'incompatible' */
     incompatibleReason?: string;
+    /** Classified failure of the last validation, if it failed */
+    failure?: FeedError;
+    /** Non-fatal problems found by the last successful analysis */
+    warnings?: FeedWarning[];
+    /** Working feed discovered on the feed's HTML page or website, offered as a replacement URL */
+    suggestedUrl?: string;
+    /** New location announced inside the feed content by the last successful analysis */
+    moveSignal?: FeedMoveSignal;
+    /** Podcast details of the last successful analysis, if the feed is a podcast */
+    podcast?: PodcastInfo;
+    /** WebSub hubs advertised by the feed in its last successful analysis */
+    websub?: FeedWebSub;
+    /** https:// URL serving the same channel as an http:// feed, offered as an upgrade */
+    httpsUrl?: string;
 }
 
 /**
@@ -53,6 +199,58 @@ export interface FeedRecord extends FeedEntry {
     lastValidated: string | null;
     /** History of validation attempts and results */
     validationHistory: ValidationHistoryEntry[];
+    /** HTTP cache validators from the last successful fetch, used for conditional requests */
+    httpCache?: FeedHttpCache;
+    /** Redirects followed during the last validation, in order */
+    redirects?: RedirectHop[];
+    /** Target of a permanent redirect (301/308) found during the last validation, pending migration */
+    movedTo?: string;
+    /** Previous URLs of this feed, kept after migrating to a new URL */
+    aliases?: string[];
+    /** Composite health score from 0 (broken) to 100 (healthy), computed after every validation */
+    healthScore?: number;
+    /** Factors the health score was computed from */
+    healthFactors?: FeedHealthFactors;
+}
+
+/**
+ * Factors of a feed's health score, each from 0 (worst) to 100 (best)
+ */
+export interface FeedHealthFactors {
+    /** Share of successful validations in the validation history */
+    reliability: number;
+    /** Recency of the last entry, measured against the feed's own posting cadence */
+    freshness: number;
+    /** Median response time of the successful validations; missing if no response time was recorded */
+    latency?: number;
+    /** Absence of spec and content warnings */
+    warnings: number;
+    /** Absence of redirects and pending moves */
+    redirects: number;
+}
+
+/**
+ * A single HTTP redirect followed while fetching a feed
+ */
+export interface RedirectHop {
+    /** The URL that answered with a redirect */
+    from: string;
+    /** The absolute URL from the Location header */
+    to: string;
+    /** The redirect status code (301, 302, 303, 307 or 308) */
+    status: number;
+}
+
+/**
+ * HTTP cache state of a feed, captured from its last successful fetch
+ */
+export interface FeedHttpCache {
+    /** Value of the ETag response header */
+    etag?: string;
+    /** Value of the Last-Modified response header */
+    lastModified?: string;
+    /** SHA-256 hash (hex) of the response body */
+    bodyHash?: string;
 }
 
 /**
@@ -62,6 +260,54 @@ export interface ValidationHistoryEntry {
     timestamp: string;
     status: FeedStatus;
     error?: string;
+    /** Classified failure, if the validation failed */
+    failure?: FeedError;
+    /** Duration of the feed request in milliseconds, if a response was received */
+    responseTimeMs?: number;
+    /** Health score of the feed after this validation */
+    healthScore?: number;
+}
+
+/**
+ * Posting cadence of a feed, derived from the dates of its entries
+ * Interval metrics and the prediction require at least two dated entries
+ */
+export interface FeedCadence {
+    /** Number of dated entries the metrics are based on */
+    sampleSize: number;
+    /** Mean time between two consecutive entries, in hours */
+    meanIntervalHours?: number;
+    /** Median time between two consecutive entries, in hours */
+    medianIntervalHours?: number;
+    /** Average number of entries per week between the oldest and newest entry */
+    postsPerWeek?: number;
+    /** Longest time between two consecutive entries, in hours */
+    longestGapHours?: number;
+    /** Entries per day of the week (UTC), index 0 is Sunday */
+    dayOfWeek: number[];
+    /** Entries per hour of the day (UTC), index 0 is midnight */
+    hourOfDay: number[];
+    /** Newest entry plus the median interval; a past date means the feed is overdue */
+    predictedNextPost?: string;
+}
+
+/**
+ * Where the dates used to analyze a feed came from
+ * 'entries' when at least one entry has a readable date; otherwise the channel's lastBuildDate
+ * or the HTTP Last-Modified header stand in as a single date
+ */
+export type FeedDateSource = 'entries' | 'lastBuildDate' | 'lastModified';
+
+/**
+ * Report on how a feed's dates were read
+ */
+export interface FeedDateReport {
+    /** Where the dates came from */
+    source: FeedDateSource;
+    /** Number of entries without a readable date */
+    undated: number;
+    /** Number of dates in the future, clamped to the time of the analysis */
+    future: number;
 }
 
 /**
@@ -72,6 +318,7 @@ export interface CategoryStats {
     totalFeeds: number;
     activeFeeds: number;
     inactiveFeeds: number;
+    failingFeeds: number;
     deadFeeds: number;
     incompatibleFeeds: number;
     mostUpdatedFeeds: Array<{
@@ -80,6 +327,35 @@ export interface CategoryStats {
     }>;
 }
 
+/**
+ * Why feeds are considered the same subscription
+ * EQUIVALENT_URL: URLs that only differ in scheme, "www.", trailing slash, format parameter or FeedBurner host
+ * SAME_CONTENT: same website link and title
+ */
+export type DuplicateReason = 'EQUIVALENT_URL' | 'SAME_CONTENT';
+
+/**
+ * Feeds that are the same subscription, with the feed suggested to keep first
+ */
+export interface DuplicateFeedGroup {
+    /** How the feeds of the group are linked */
+    reasons: DuplicateReason[];
+    /** URL of the feed suggested to keep: working, HTTPS, not proxied, most updates */
+    keepUrl: string;
+    feeds: Array<Pick<FeedRecord, 'url' | 'title' | 'category' | 'status'>>;
+}
+
+/**
+ * A feed listed again in an uploaded OPML file; feeds are stored by URL, so only its first occurrence is stored
+ */
+export interface OpmlDuplicate {
+    url: string;
+    /** Category of the skipped occurrence */
+    category: string;
+    /** Category of the kept occurrence */
+    keptCategory: string;
+}
+
 /**
  * Feed update for batch operations
  */
@@ -0,0 +1,83 @@
+/**
+ * Fetch-related types shared by the feed validation pipeline
+ */
+
+import type { FeedErrorCode, FeedHttpCache, RedirectHop } from './feed.types.ts';
+
+/**
+ * Retry behaviour for transient fetch failures
+ */
+export interface RetryOptions {
+    /** Number of retries after the first attempt */
+    maxRetries: number;
+    /** Base delay in milliseconds, doubled after every attempt */
+    baseDelayMs: number;
+    /** Upper bound in milliseconds for a single delay */
+    maxDelayMs: number;
+}
+
+/**
+ * Time and size limits for a single feed request, enforced with AbortSignal
+ */
+export interface FetchLimits {
+    /** Maximum time in milliseconds until the response headers arrive */
+    connectTimeoutMs: number;
+    /** Maximum time in milliseconds for the whole request, including reading the body */
+    requestTimeoutMs: number;
+    /** Maximum size of the response body in bytes */
+    maxBodyBytes: number;
+}
+
+/**
+ * Options for fetching a feed
+ */
+export interface FetchFeedOptions {
+    /** Cache validators from a previous fetch; sent as If-None-Match / If-Modified-Since */
+    cache?: FeedHttpCache;
+    /** Retry network errors and 5xx/429 responses; no retries if omitted */
+    retry?: RetryOptions;
+    /** Timeouts and body size limit; unlimited if omitted */
+    limits?: FetchLimits;
+    /** Cancels the request, including pending retries; fetchFeed rejects with the signal's reason */
+    signal?: AbortSignal;
+}
+
+/**
+ * The result of fetching a feed URL once.
+ * Every validation stage analyzes this same response instead of issuing its own request.
+ */
+export interface FeedResponse {
+    /** The URL that was requested */
+    url: string;
+    /** The URL that finally answered, after following redirects */
+    finalUrl: string;
+    /** Redirects followed to reach the final URL, in order */
+    redirects: RedirectHop[];
+    /** HTTP status code, 0 if the request failed before a response was received */
+    status: number;
+    /** HTTP status text, empty if the request failed before a response was received */
+    statusText: string;
+    /** True if the server answered with a 2xx status or 304 Not Modified */
+    ok: boolean;
+    /** Response headers (empty if the request failed) */
+    headers: Headers;
+    /** Value of the Content-Type header, null if missing */
+    contentType: string | null;
+    /** Response body as text, empty unless the response was successful */
+    body: string;
+    /** Network-level error message if the request could not be completed */
+    error?: string;
+    /** Classification of the network-level error (DNS_FAILURE, TLS_ERROR, TIMEOUT, NETWORK_ERROR or BODY_TOO_LARGE) */
+    errorCode?: FeedErrorCode;
+    /** Number of requests made, including retries */
+    attempts: number;
+    /** Duration in milliseconds of the last request, including redirects and reading the body; missing if no response was received */
+    elapsedMs?: number;
+    /**
+     * True if the feed is unchanged since the cached fetch: either the server
+     * answered 304 Not Modified or the body hash matches the cached one
+     */
+    notModified: boolean;
+    /** Cache validators to persist for the next conditional request */
+    cache?: FeedHttpCache;
+}
@@ -5,4 +5,6 @@
 export * from './feed.types.ts';
 export * from './validation.types.ts';
 export * from './storage.types.ts';
-export * from './websocket.types.ts';
\ No newline at end of file
+export * from './websocket.types.ts';
+export * from './fetch.types.ts';
+export * from './websub.types.ts';export * from './rule.types.ts';
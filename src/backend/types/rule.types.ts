@@ -0,0 +1,127 @@
+/**
+ * Types of the validator rule chain
+ * Every validation stage is a rule; custom rules are registered through a config module.
+ */
+
+import type { FeedError, FeedStatus, FeedWarning } from './feed.types.ts';
+import type { FeedResponse, FetchLimits } from './fetch.types.ts';
+import type { ActivityPolicy, FeedValidationResult } from './validation.types.ts';
+import type { JsonFeed } from '../jsonFeed.ts';
+import type { XmlNode } from '../xmlNode.ts';
+
+/**
+ * A date of a parsed feed entry, as found in the feed
+ */
+export interface ParsedFeedDate {
+  /** The element or field it was read from: pubDate, dc:date, published, updated, date_published or date_modified */
+  source: string;
+  value: string;
+}
+
+/**
+ * An entry of a parsed feed, independent of its format
+ */
+export interface ParsedFeedEntry {
+  id?: string;
+  title?: string;
+  /** True if the title is declared as HTML markup (Atom type="html" or "xhtml") */
+  htmlTitle?: boolean;
+  link?: string;
+  /** Summary or excerpt: RSS <description>, Atom <summary>, JSON Feed `summary` */
+  summary?: string;
+  /** Full content: RSS <content:encoded>, Atom <content>, JSON Feed `content_html`/`content_text` */
+  content?: string;
+  /** Raw publication date as found in the feed */
+  published?: string;
+  /** Every date of the entry, in order of preference */
+  dates: ParsedFeedDate[];
+  /** Enclosure URLs */
+  enclosures: string[];
+  /** Every URL the entry links to, including its link and enclosures */
+  urls: string[];
+  /** Raw <itunes:duration> of a podcast episode */
+  duration?: string;
+}
+
+/**
+ * A feed document parsed once for the rules, independent of its format
+ */
+export interface ParsedFeed {
+  format: 'rss' | 'rdf' | 'atom' | 'json';
+  title?: string;
+  /** True if the title is declared as HTML markup (Atom type="html" or "xhtml") */
+  htmlTitle?: boolean;
+  /** Website link of the channel */
+  link?: string;
+  description?: string;
+  /** Raw date the channel was last updated: RSS <lastBuildDate>, Atom <updated> */
+  updated?: string;
+  /** The feed's own URL: Atom <link rel="self"> or JSON Feed `feed_url` */
+  selfLink?: string;
+  /** WebSub hubs: Atom <link rel="hub"> or JSON Feed `hubs` */
+  hubs: string[];
+  /** New location announced with <itunes:new-feed-url> */
+  newFeedUrl?: string;
+  /** Every URL the channel links to */
+  urls: string[];
+  /** True if relative URLs are resolved against an xml:base */
+  hasBase: boolean;
+  /** True if the channel carries iTunes podcast elements */
+  itunes: boolean;
+  /** Artwork: <itunes:image>, the RSS <image> or the Atom logo or icon */
+  image?: string;
+  entries: ParsedFeedEntry[];
+  /** The parsed document, for rules that need elements not listed above */
+  document: XmlNode | JsonFeed;
+}
+
+/**
+ * What a rule sees of the feed under validation
+ */
+export interface ValidationRuleContext {
+  /** The URL being validated */
+  url: string;
+  /** The fetched response, shared by all rules */
+  response: FeedResponse;
+  /** The parsed feed, or null if the body is not an RSS/Atom/JSON feed; parsed once on first access and shared by all rules */
+  readonly feed: ParsedFeed | null;
+  /** The result of the rules that ran before, including the current status */
+  result: Readonly<FeedValidationResult>;
+  /** Rules deciding between active and inactive */
+  policy?: ActivityPolicy;
+  /** Timeouts and body size limit for rules that make requests */
+  limits?: FetchLimits;
+  /** Cancels the validation; rules that make requests must pass it on */
+  signal?: AbortSignal;
+}
+
+/**
+ * What a rule changes in the validation result
+ */
+export interface ValidationRuleOutcome {
+  /** New status of the feed */
+  status?: FeedStatus;
+  /** Classified failure; a rule that makes a working feed fail without one gets a RULE_FAILED failure */
+  failure?: FeedError;
+  /** Warnings added to the result; CUSTOM_RULE warnings are attributed to the rule */
+  warnings?: FeedWarning[];
+  /** Further result fields, e.g. analysis details */
+  details?: Partial<FeedValidationResult>;
+  /** Ends the chain: no further rules run */
+  stop?: boolean;
+}
+
+/**
+ * A validation rule
+ */
+export interface ValidationRule {
+  /** Unique name, used in logs and to attribute warnings */
+  name: string;
+  /** Only runs while the feed is working (active or inactive) */
+  workingOnly?: boolean;
+  /**
+   * Inspects the feed
+   * @returns The changes to the result, or nothing if the rule has no finding
+   */
+  run(context: ValidationRuleContext): ValidationRuleOutcome | void | Promise<ValidationRuleOutcome | void>;
+}
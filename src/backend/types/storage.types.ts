@@ -2,8 +2,9 @@
  * Storage-related types used throughout the application
  */
 
-import type { FeedRecord, FeedUpdate, FeedStatus, CategoryStats as FeedCategoryStats } from './feed.types.ts'; // Ensure CategoryStats is imported
-import type { ValidationSession, ValidationProgress } from './validation.types.ts';
+import type { FeedRecord, FeedUpdate, FeedStatus, FeedErrorCode, CategoryStats as FeedCategoryStats } from './feed.types.ts'; // Ensure CategoryStats is imported
+import type { ActivityPolicySettings, FeedValidationResult, ValidationSchedule, ValidationSession, ValidationSessionStatus, ValidationProgress } from './validation.types.ts';
+import type { WebSubSubscription } from './websub.types.ts';
 
 /**
  * Storage key prefixes for different data types
@@ -12,7 +13,30 @@ export const enum StoragePrefix {
     Feed = 'feed:',
     Session = 'session:',
     Category = 'category:',
-    Stats = 'stats:' // Assuming stats might be used elsewhere, keep if needed
+    Stats = 'stats:', // Assuming stats might be used elsewhere, keep if needed
+    Alias = 'alias:',
+    Queue = 'queue:', // Feeds still to validate, one key per URL: [userId, Queue, validationId, url]
+    Result = 'result:', // Per-feed validation results: [userId, Result, validationId, url]
+    ActiveSession = 'active-session:', // Global index of running sessions: [ActiveSession, validationId]
+    Schedule = 'schedule:', // Revalidation schedules of all users: [Schedule, userId]
+    Policy = 'policy:', // Activity policy settings: [userId, Policy]
+    WebSub = 'websub:' // WebSub subscriptions of all users: [WebSub, subscriptionId], indexed by [userId, WebSub, feedUrl]
+}
+
+/**
+ * Entry of the global index of running validation sessions
+ */
+export interface ActiveValidationSession {
+    userId: string;
+    validationId: string;
+}
+
+/**
+ * Revalidation schedule of a user, as listed by the scheduler
+ */
+export interface UserValidationSchedule {
+    userId: string;
+    schedule: ValidationSchedule;
 }
 
 /**
@@ -32,14 +56,20 @@ export interface BatchResult {
  */
 export interface ListFeedsOptions {
     filter?: string;
-    sort?: 'lastUpdate' | 'status' | 'category' | 'updatesInLast3Months';
+    sort?: 'lastUpdate' | 'status' | 'category' | 'updatesInLast3Months' | 'healthScore';
     category?: string;
     status?: FeedStatus;
+    errorCode?: FeedErrorCode; // Only feeds whose last validation failed with this error
     cursor?: string; // KV cursor for pagination
     limit?: number;
     prefix?: string; // KV prefix for range queries (Keep if used, Deno KV list uses prefix array)
 }
 
+/**
+ * Filters of a feed listing
+ */
+export type ListFeedsFilters = Pick<ListFeedsOptions, 'filter' | 'category' | 'status' | 'errorCode'>;
+
 /**
  * Result of listing feeds with cursor-based pagination
  */
@@ -98,11 +128,29 @@ export interface IKVStorageService {
      * Lists feeds for a user with filtering, sorting, and pagination support
      */
     listFeeds(userId: string, options: ListFeedsOptions): Promise<ListFeedsResult>;
+    /**
+     * Lists all feeds of a user that match the filters, without pagination
+     */
+    listAllFeeds(userId: string, filters?: ListFeedsFilters): Promise<FeedRecord[]>;
     /**
      * Deletes a feed record for a user
      */
     deleteFeedData(userId: string, url: string, options?: AtomicOptions): Promise<void>;
 
+    // Feed URL migration
+    /**
+     * Moves a feed record to a new URL, keeping the old URL as an alias
+     */
+    migrateFeedUrl(userId: string, oldUrl: string, newUrl: string): Promise<FeedRecord>;
+    /**
+     * Resolves a feed URL through the user's aliases, returning the current URL or null if it is not an alias
+     */
+    resolveFeedAlias(userId: string, url: string): Promise<string | null>;
+    /**
+     * Merges duplicate feed records into the one to keep, keeping their URLs as aliases
+     */
+    mergeFeeds(userId: string, keepUrl: string, mergeUrls: string[]): Promise<FeedRecord>;
+
     // Validation session management
     /**
      * Saves a validation session for a user
@@ -116,11 +164,96 @@ export interface IKVStorageService {
      * Updates the progress of an ongoing validation session for a user
      */
     updateValidationProgress(userId: string, id: string, progress: ValidationProgress, options?: AtomicOptions): Promise<{ versionstamp: string }>;
+    /**
+     * Atomically updates a validation session if its status is one of `from` (or the predicate accepts it); returns null otherwise
+     */
+    transitionValidationSession(
+        userId: string,
+        id: string,
+        from: ValidationSessionStatus[] | ((session: ValidationSession) => boolean),
+        changes: Partial<ValidationSession>
+    ): Promise<ValidationSession | null>;
+
+    // Persistent validation work queue (crash recovery)
+    /**
+     * Stores the URLs a validation session still has to validate and registers the session as running
+     */
+    saveValidationQueue(userId: string, id: string, urls: string[]): Promise<void>;
+    /**
+     * Lists the URLs a validation session still has to validate
+     */
+    getValidationQueue(userId: string, id: string): Promise<string[]>;
+    /**
+     * Atomically removes a URL from the queue, stores its result and updates the session progress
+     */
+    recordValidationResult(userId: string, id: string, result: FeedValidationResult, progress: ValidationProgress): Promise<void>;
+    /**
+     * Lists the per-feed results stored for a validation session
+     */
+    getValidationResults(userId: string, id: string): Promise<FeedValidationResult[]>;
+    /**
+     * Deletes the remaining queue of a finished session and unregisters it as running
+     */
+    clearValidationQueue(userId: string, id: string): Promise<void>;
+    /**
+     * Lists the sessions registered as running, across all users
+     */
+    listActiveValidationSessions(): Promise<ActiveValidationSession[]>;
     /**
      * Deletes a validation session for a user
      */
     deleteValidationSession(userId: string, id: string): Promise<void>;
 
+    // Scheduled revalidation
+    /**
+     * Retrieves the revalidation schedule of a user, or null if none was saved
+     */
+    getValidationSchedule(userId: string): Promise<ValidationSchedule | null>;
+    /**
+     * Saves the revalidation schedule of a user
+     */
+    saveValidationSchedule(userId: string, schedule: ValidationSchedule): Promise<void>;
+    /**
+     * Lists the revalidation schedules of all users
+     */
+    listValidationSchedules(): Promise<UserValidationSchedule[]>;
+    /**
+     * Atomically records that the scheduler revalidated the feeds with the given statuses
+     */
+    recordScheduledRun(userId: string, statuses: FeedStatus[], time: string): Promise<void>;
+
+    // Activity policy
+    /**
+     * Retrieves the activity policy settings of a user, or null if none were saved
+     */
+    getActivityPolicySettings(userId: string): Promise<ActivityPolicySettings | null>;
+    /**
+     * Saves the activity policy settings of a user
+     */
+    saveActivityPolicySettings(userId: string, settings: ActivityPolicySettings): Promise<void>;
+
+    // WebSub subscriptions
+    /**
+     * Retrieves a WebSub subscription by its ID, or null if it does not exist
+     */
+    getWebSubSubscription(id: string): Promise<WebSubSubscription | null>;
+    /**
+     * Retrieves the WebSub subscription of a user's feed, or null if the feed is not subscribed
+     */
+    getWebSubSubscriptionForFeed(userId: string, feedUrl: string): Promise<WebSubSubscription | null>;
+    /**
+     * Saves a WebSub subscription, replacing any other subscription of the same feed
+     */
+    saveWebSubSubscription(subscription: WebSubSubscription): Promise<void>;
+    /**
+     * Deletes a WebSub subscription
+     */
+    deleteWebSubSubscription(id: string): Promise<void>;
+    /**
+     * Lists the WebSub subscriptions of all users
+     */
+    listWebSubSubscriptions(): Promise<WebSubSubscription[]>;
+
     // Category management
     /**
      * Generates statistics for all feed categories for a user
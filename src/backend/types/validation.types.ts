@@ -2,12 +2,14 @@
  * Validation-related types used throughout the application
  */
 
-import { FeedStatus } from './feed.types.ts';
+import { FeedCadence, FeedDateReport, FeedError, FeedMoveSignal, FeedWarning, FeedWebSub, PodcastInfo, FeedHttpCache, FeedStatus, RedirectHop } from './feed.types.ts';
 
 /**
  * Status of a validation session
+ * 'paused' sessions finish their in-flight feeds and wait before starting the next one;
+ * 'cancelled' sessions stop immediately and keep the results stored so far
  */
-export type ValidationSessionStatus = 'pending' | 'processing' | 'completed' | 'error';
+export type ValidationSessionStatus = 'pending' | 'processing' | 'paused' | 'completed' | 'cancelled' | 'error';
 
 /**
  * Represents the progress of a validation session
@@ -19,6 +21,7 @@ export interface ValidationProgress {
   categoryCounts: {
     active: number;
     inactive: number;
+    failing: number;
     dead: number;
     incompatible: number;
   };
@@ -35,6 +38,10 @@ export interface ValidationSession {
   startTime: string;
   endTime?: string;
   error?: string;
+  /** Last sign of life of the process running the session; a stale heartbeat marks an orphaned session */
+  heartbeatAt?: string;
+  /** Activity policy settings the session validated with, so its results can be reproduced */
+  policy?: ActivityPolicySettings;
 }
 
 /**
@@ -44,6 +51,10 @@ export interface FeedValidationResult {
   url: string;
   status: FeedStatus;
   error?: string;
+  /** Classified failure, if the validation failed */
+  failure?: FeedError;
+  /** Non-fatal problems of a working feed */
+  warnings?: FeedWarning[];
   lastUpdate?: string | undefined;
   updatesInLast3Months?: number;
   text?: string;
@@ -51,6 +62,32 @@ export interface FeedValidationResult {
   type?: string;
   htmlUrl?: string;
   description?: string;
+  /** True if the feed was unchanged since the last validation (304 or identical body) */
+  notModified?: boolean;
+  /** Cache validators to persist for the next conditional request */
+  httpCache?: FeedHttpCache;
+  /** Redirects followed while fetching the feed */
+  redirects?: RedirectHop[];
+  /** Target of a permanent redirect (301/308), if the feed has moved */
+  movedTo?: string;
+  /** Working feed discovered on the returned HTML page or the dead feed's website */
+  suggestedUrl?: string;
+  /** New location announced inside the feed content */
+  moveSignal?: FeedMoveSignal;
+  /** Podcast details, if the feed is a podcast */
+  podcast?: PodcastInfo;
+  /** WebSub hubs advertised by the feed */
+  websub?: FeedWebSub;
+  /** https:// URL serving the same channel as an http:// feed */
+  httpsUrl?: string;
+  /** Duration of the feed request in milliseconds, if a response was received */
+  responseTimeMs?: number;
+  /** Number of entries in each counting window of the activity policy, keyed by window length in days */
+  updateCounts?: Record<string, number>;
+  /** Posting cadence derived from the entry dates */
+  cadence?: FeedCadence;
+  /** How the entry dates were read, including clamped future dates */
+  dateReport?: FeedDateReport;
 }
 
 /**
@@ -70,6 +107,7 @@ export interface ValidationResults {
   categories: {
     active: number;
     inactive: number;
+    failing: number;
     dead: number;
     incompatible: number;
   };
@@ -85,4 +123,72 @@ export interface BatchValidationResult {
   totalProcessed: number;
   results: FeedValidationResult[];
   errors: ValidationError[];
+}
+
+/**
+ * Rules deciding whether a feed is active or inactive
+ */
+export interface ActivityPolicy {
+  /** Days without enough new entries after which a feed is inactive */
+  inactiveAfterDays: number;
+  /** Windows, in days, over which entries are counted */
+  countWindowsDays: number[];
+  /** Minimum number of entries within `inactiveAfterDays` for a feed to be active */
+  minPosts: number;
+}
+
+/**
+ * Per-user activity policy with per-category overrides
+ */
+export interface ActivityPolicySettings {
+  /** Policy for feeds without a category override */
+  default: ActivityPolicy;
+  /** Overrides of individual policy fields, keyed by category name */
+  categories: Record<string, Partial<ActivityPolicy>>;
+  updatedAt: string;
+}
+
+/**
+ * Per-user settings for scheduled revalidation of stored feeds
+ */
+export interface ValidationSchedule {
+  /** Whether the scheduler revalidates this user's feeds */
+  enabled: boolean;
+  /** Hours between two revalidations of the feeds with each status; 0 never revalidates them */
+  intervalHours: Record<FeedStatus, number>;
+  /** When the scheduler last revalidated the feeds with each status */
+  lastRuns: Partial<Record<FeedStatus, string>>;
+  updatedAt: string;
+}
+
+/**
+ * Validation settings shared by the CLI and the web server
+ */
+export interface ValidationConfig {
+  /** Maximum number of feeds validated at the same time, across all hosts */
+  maxConcurrency: number;
+  /** Maximum number of in-flight requests to a single hostname */
+  maxPerHost: number;
+  /** Minimum delay in milliseconds between the start of two requests to the same hostname */
+  hostDelayMs: number;
+  /** Number of retries after a network error or a 5xx/429 response */
+  maxRetries: number;
+  /** Base delay in milliseconds for exponential backoff between retries */
+  retryBaseDelayMs: number;
+  /** Upper bound in milliseconds for a single retry delay, including Retry-After */
+  retryMaxDelayMs: number;
+  /** Consecutive failed validations after which a failing feed is marked dead */
+  deadAfterFailures: number;
+  /** Automatically migrate feeds to the target of a permanent redirect */
+  autoMigrateRedirects: boolean;
+  /** Maximum time in milliseconds until a feed's response headers arrive */
+  connectTimeoutMs: number;
+  /** Maximum time in milliseconds for a whole feed request, including the body */
+  requestTimeoutMs: number;
+  /** Maximum size of a feed response body in bytes */
+  maxBodyBytes: number;
+  /** Resume sessions orphaned by a restart instead of marking them as failed */
+  resumeOrphanedSessions: boolean;
+  /** Path or URL of a config module registering custom validation rules; null for the built-in rules only */
+  rulesModule: string | null;
 }
\ No newline at end of file
@@ -0,0 +1,54 @@
+/**
+ * WebSub subscriber types
+ */
+
+/**
+ * State of a WebSub subscription
+ * 'pending' subscriptions wait for the hub's intent verification,
+ * 'denied' subscriptions were refused by the hub and are not renewed
+ */
+export type WebSubSubscriptionState = 'pending' | 'active' | 'denied';
+
+/**
+ * A subscription of a user's feed at a WebSub hub
+ * Stored under a global prefix so the callback route can find it without a user ID
+ */
+export interface WebSubSubscription {
+  /** Random ID, part of the callback URL */
+  id: string;
+  /** User the feed belongs to */
+  userId: string;
+  /** URL of the feed record that is refreshed on notifications */
+  feedUrl: string;
+  /** The subscribed topic URL */
+  topic: string;
+  /** The hub that accepted the subscription request */
+  hub: string;
+  /** Secret the hub signs notifications with (X-Hub-Signature) */
+  secret: string;
+  state: WebSubSubscriptionState;
+  /** When the subscription was last requested */
+  requestedAt: string;
+  /** When the hub last verified the subscription */
+  verifiedAt?: string;
+  /** Lease granted by the hub, in seconds */
+  leaseSeconds?: number;
+  /** When the lease expires; it is renewed before */
+  expiresAt?: string;
+  /** When the hub last pushed a notification */
+  lastNotificationAt?: string;
+  /** Reason given by the hub for denying the subscription */
+  deniedReason?: string;
+}
+
+/**
+ * WebSub subscriber settings of the web server
+ */
+export interface WebSubConfig {
+  /** Public base URL of the web server that hubs send callbacks to; WebSub is disabled without it */
+  callbackBaseUrl: string | null;
+  /** Lease requested from hubs, in seconds */
+  leaseSeconds: number;
+  /** Time before a lease expires at which it is renewed, in seconds */
+  renewBeforeSeconds: number;
+}
@@ -0,0 +1,100 @@
+/**
+ * Single-fetch feed validation pipeline
+ * Fetches a feed URL once and runs the validation rules (accessibility, compatibility,
+ * update frequency and the analyses of working feeds, then any custom rules) over the same response.
+ */
+import { fetchFeed, getPermanentRedirectTarget } from "./fetchFeed.ts";
+import { BUILT_IN_RULES, runValidationRules } from "./validationRules.ts";
+import { DEFAULT_ACTIVITY_POLICY, deriveActivityStatus } from "./activityPolicy.ts";
+import { ActivityPolicy, FeedValidationResult } from "./types/validation.types.ts";
+import type { ValidationRule } from "./types/rule.types.ts";
+import type { FeedRecord } from "./types/feed.types.ts";
+import type { FetchLimits, RetryOptions } from "./types/fetch.types.ts";
+import { createLogger } from "../utils/logger.ts";
+
+const logger = createLogger("validateFeed");
+
+/**
+ * Options for validating a feed
+ */
+export interface ValidateFeedOptions {
+  /** The stored state of the feed from its previous validation, if any */
+  previous?: Pick<FeedRecord, 'status' | 'lastUpdate' | 'updatesInLast3Months' | 'updateCounts' | 'httpCache'>;
+  /** Retry behaviour for transient fetch failures */
+  retry?: RetryOptions;
+  /** Timeouts and body size limit for the request */
+  limits?: FetchLimits;
+  /** Cancels the validation; validateFeed then rejects with the signal's reason */
+  signal?: AbortSignal;
+  /** Rules deciding between active and inactive; defaults to the built-in policy */
+  policy?: ActivityPolicy;
+  /** Custom validation rules, run after the built-in ones */
+  rules?: readonly ValidationRule[];
+}
+
+/**
+ * Validates a feed with a single HTTP request
+ * When the previous validation found a working feed whose stored analysis can answer the activity policy,
+ * the request is conditional and an unchanged feed keeps its previous analysis; only its status is re-derived
+ * for the current time and policy. Otherwise the feed is fetched and analysed in full.
+ * @param feedUrl The URL of the feed to validate
+ * @param options Optional validation options (previous feed state, retry behaviour, limits, cancellation, activity policy, custom rules)
+ * @returns Promise<FeedValidationResult> The combined result of all validation stages
+ */
+export async function validateFeed(feedUrl: string, options: ValidateFeedOptions = {}): Promise<FeedValidationResult> {
+  const { previous, retry, limits, signal, policy, rules } = options;
+  // Only trust cached validators if the cached copy was a working feed whose stored analysis
+  // still decides its status under the policy in effect
+  const storedStatus = previous ? deriveActivityStatus(previous, policy ?? DEFAULT_ACTIVITY_POLICY) : null;
+  const canUseCache = (previous?.status === 'active' || previous?.status === 'inactive') && storedStatus !== null;
+  const response = await fetchFeed(feedUrl, {
+    cache: canUseCache ? previous?.httpCache : undefined,
+    retry,
+    limits,
+    signal
+  });
+  const redirects = response.redirects.length > 0 ? response.redirects : undefined;
+  const permanentTarget = getPermanentRedirectTarget(response.redirects);
+
+  // Unchanged since the last validation: keep the previous analysis with the re-derived status
+  if (response.notModified && previous && storedStatus) {
+    if (storedStatus !== previous.status) {
+      logger.info(`Feed ${feedUrl} not modified, status changed from ${previous.status} to ${storedStatus}`);
+    } else {
+      logger.debug(`Feed ${feedUrl} not modified, keeping previous analysis`);
+    }
+    return {
+      url: feedUrl,
+      status: storedStatus,
+      lastUpdate: previous.lastUpdate,
+      updatesInLast3Months: previous.updatesInLast3Months,
+      notModified: true,
+      httpCache: response.cache,
+      responseTimeMs: response.elapsedMs,
+      redirects,
+      movedTo: permanentTarget
+    };
+  }
+
+  // Stages 1-9 and custom rules: every check is a rule over the same response
+  const result = await runValidationRules([...BUILT_IN_RULES, ...(rules ?? [])], {
+    url: feedUrl,
+    response,
+    policy,
+    limits,
+    signal
+  });
+  // Only offer a migration if the permanent redirect target is a working feed
+  const isWorking = result.status === 'active' || result.status === 'inactive';
+  if (permanentTarget && isWorking) {
+    logger.info(`Feed ${feedUrl} has permanently moved to ${permanentTarget}`);
+  }
+  return {
+    ...result,
+    url: feedUrl,
+    httpCache: response.cache,
+    responseTimeMs: response.elapsedMs,
+    redirects,
+    movedTo: isWorking ? permanentTarget : undefined
+  };
+}
@@ -0,0 +1,160 @@
+/**
+ * Validation configuration shared by the CLI and the web server, and WebSub subscriber settings of the web server
+ * Defaults can be overridden with environment variables
+ */
+import { ValidationConfig } from "./types/validation.types.ts";
+import { WebSubConfig } from "./types/websub.types.ts";
+import { FetchLimits, RetryOptions } from "./types/fetch.types.ts";
+import { createLogger } from "../utils/logger.ts";
+
+const logger = createLogger("validationConfig");
+
+/**
+ * Default validation settings
+ */
+export const DEFAULT_VALIDATION_CONFIG: ValidationConfig = {
+  maxConcurrency: 10,
+  maxPerHost: 2,
+  hostDelayMs: 1000,
+  maxRetries: 2,
+  retryBaseDelayMs: 1000,
+  retryMaxDelayMs: 30000,
+  deadAfterFailures: 3,
+  autoMigrateRedirects: false,
+  connectTimeoutMs: 10000,
+  requestTimeoutMs: 30000,
+  maxBodyBytes: 10 * 1024 * 1024,
+  resumeOrphanedSessions: true,
+  rulesModule: null
+};
+
+/**
+ * Default WebSub subscriber settings: disabled until a callback URL is configured
+ */
+export const DEFAULT_WEBSUB_CONFIG: WebSubConfig = {
+  callbackBaseUrl: null,
+  leaseSeconds: 10 * 24 * 60 * 60,
+  renewBeforeSeconds: 24 * 60 * 60
+};
+
+/**
+ * Reads a non-negative integer from an environment variable
+ * @param name The environment variable name
+ * @param fallback The value to use if the variable is missing or invalid
+ * @returns The parsed value or the fallback
+ */
+function readIntEnv(name: string, fallback: number): number {
+  const raw = Deno.env.get(name);
+  if (raw === undefined || raw === '') {
+    return fallback;
+  }
+  const value = parseInt(raw, 10);
+  if (isNaN(value) || value < 0) {
+    logger.warn(`Ignoring invalid value for ${name}: ${raw}`);
+    return fallback;
+  }
+  return value;
+}
+
+/**
+ * Reads a boolean flag from an environment variable ("true"/"1" or "false"/"0")
+ * @param name The environment variable name
+ * @param fallback The value to use if the variable is missing or invalid
+ * @returns The parsed value or the fallback
+ */
+function readBoolEnv(name: string, fallback: boolean): boolean {
+  const raw = Deno.env.get(name)?.trim().toLowerCase();
+  if (raw === undefined || raw === '') {
+    return fallback;
+  }
+  if (raw === 'true' || raw === '1') {
+    return true;
+  }
+  if (raw === 'false' || raw === '0') {
+    return false;
+  }
+  logger.warn(`Ignoring invalid value for ${name}: ${raw}`);
+  return fallback;
+}
+
+/**
+ * Loads the validation configuration
+ * Environment variables:
+ * - VALIDATION_CONCURRENCY: overall number of feeds validated in parallel
+ * - VALIDATION_MAX_PER_HOST: in-flight requests allowed per hostname
+ * - VALIDATION_HOST_DELAY_MS: minimum delay between requests to one hostname
+ * - VALIDATION_MAX_RETRIES: retries after network errors and 5xx/429 responses
+ * - VALIDATION_RETRY_BASE_DELAY_MS: base delay of the exponential backoff
+ * - VALIDATION_RETRY_MAX_DELAY_MS: upper bound of a single retry delay
+ * - VALIDATION_DEAD_AFTER_FAILURES: consecutive failed validations before a feed is dead
+ * - VALIDATION_AUTO_MIGRATE_REDIRECTS: move feeds to the target of a permanent redirect
+ * - VALIDATION_CONNECT_TIMEOUT_MS: maximum wait for a feed's response headers
+ * - VALIDATION_REQUEST_TIMEOUT_MS: maximum duration of a feed request, including the body
+ * - VALIDATION_MAX_BODY_BYTES: maximum size of a feed response body
+ * - VALIDATION_RESUME_ORPHANED_SESSIONS: resume sessions interrupted by a restart instead of failing them
+ * - VALIDATION_RULES_MODULE: path or URL of a module exporting custom validation rules
+ * @returns ValidationConfig The effective configuration
+ */
+export function loadValidationConfig(): ValidationConfig {
+  return {
+    maxConcurrency: Math.max(1, readIntEnv("VALIDATION_CONCURRENCY", DEFAULT_VALIDATION_CONFIG.maxConcurrency)),
+    maxPerHost: Math.max(1, readIntEnv("VALIDATION_MAX_PER_HOST", DEFAULT_VALIDATION_CONFIG.maxPerHost)),
+    hostDelayMs: readIntEnv("VALIDATION_HOST_DELAY_MS", DEFAULT_VALIDATION_CONFIG.hostDelayMs),
+    maxRetries: readIntEnv("VALIDATION_MAX_RETRIES", DEFAULT_VALIDATION_CONFIG.maxRetries),
+    retryBaseDelayMs: readIntEnv("VALIDATION_RETRY_BASE_DELAY_MS", DEFAULT_VALIDATION_CONFIG.retryBaseDelayMs),
+    retryMaxDelayMs: readIntEnv("VALIDATION_RETRY_MAX_DELAY_MS", DEFAULT_VALIDATION_CONFIG.retryMaxDelayMs),
+    deadAfterFailures: Math.max(1, readIntEnv("VALIDATION_DEAD_AFTER_FAILURES", DEFAULT_VALIDATION_CONFIG.deadAfterFailures)),
+    autoMigrateRedirects: readBoolEnv("VALIDATION_AUTO_MIGRATE_REDIRECTS", DEFAULT_VALIDATION_CONFIG.autoMigrateRedirects),
+    connectTimeoutMs: Math.max(1, readIntEnv("VALIDATION_CONNECT_TIMEOUT_MS", DEFAULT_VALIDATION_CONFIG.connectTimeoutMs)),
+    requestTimeoutMs: Math.max(1, readIntEnv("VALIDATION_REQUEST_TIMEOUT_MS", DEFAULT_VALIDATION_CONFIG.requestTimeoutMs)),
+    maxBodyBytes: Math.max(1, readIntEnv("VALIDATION_MAX_BODY_BYTES", DEFAULT_VALIDATION_CONFIG.maxBodyBytes)),
+    resumeOrphanedSessions: readBoolEnv("VALIDATION_RESUME_ORPHANED_SESSIONS", DEFAULT_VALIDATION_CONFIG.resumeOrphanedSessions),
+    rulesModule: Deno.env.get("VALIDATION_RULES_MODULE")?.trim() || DEFAULT_VALIDATION_CONFIG.rulesModule
+  };
+}
+
+/**
+ * Loads the WebSub subscriber settings
+ * Environment variables:
+ * - WEBSUB_CALLBACK_BASE_URL: public base URL of the web server (e.g. https://opml.example.com); enables WebSub subscriptions
+ * - WEBSUB_LEASE_SECONDS: lease requested from hubs
+ * - WEBSUB_RENEW_BEFORE_SECONDS: time before a lease expires at which it is renewed
+ * @returns WebSubConfig The effective settings
+ */
+export function loadWebSubConfig(): WebSubConfig {
+  const callbackBaseUrl = Deno.env.get("WEBSUB_CALLBACK_BASE_URL")?.trim() || null;
+  if (callbackBaseUrl && !URL.canParse(callbackBaseUrl)) {
+    logger.warn(`Ignoring invalid value for WEBSUB_CALLBACK_BASE_URL: ${callbackBaseUrl}`);
+  }
+  return {
+    callbackBaseUrl: callbackBaseUrl && URL.canParse(callbackBaseUrl) ? callbackBaseUrl : DEFAULT_WEBSUB_CONFIG.callbackBaseUrl,
+    leaseSeconds: Math.max(1, readIntEnv("WEBSUB_LEASE_SECONDS", DEFAULT_WEBSUB_CONFIG.leaseSeconds)),
+    renewBeforeSeconds: readIntEnv("WEBSUB_RENEW_BEFORE_SECONDS", DEFAULT_WEBSUB_CONFIG.renewBeforeSeconds)
+  };
+}
+
+/**
+ * Extracts the fetch retry options from the validation configuration
+ * @param config The validation configuration
+ * @returns RetryOptions The retry options for fetchFeed
+ */
+export function getRetryOptions(config: ValidationConfig): RetryOptions {
+  return {
+    maxRetries: config.maxRetries,
+    baseDelayMs: config.retryBaseDelayMs,
+    maxDelayMs: config.retryMaxDelayMs
+  };
+}
+
+/**
+ * Extracts the fetch time and size limits from the validation configuration
+ * @param config The validation configuration
+ * @returns FetchLimits The limits for fetchFeed
+ */
+export function getFetchLimits(config: ValidationConfig): FetchLimits {
+  return {
+    connectTimeoutMs: config.connectTimeoutMs,
+    requestTimeoutMs: config.requestTimeoutMs,
+    maxBodyBytes: config.maxBodyBytes
+  };
+}
@@ -0,0 +1,270 @@
+/**
+ * Validator rule chain
+ * The built-in validation stages are rules that run in order over the shared response and the feed
+ * parsed once from its body; custom rules from a config module run after them, for both the CLI and the web server.
+ */
+import { resolve, toFileUrl } from "@std/path";
+import { getPermanentRedirectTarget } from "./fetchFeed.ts";
+import { checkFeedAccessibility } from "./checkFeedAccessibility.ts";
+import { checkFeedCompatibility } from "./checkFeedCompatibility.ts";
+import { getFeedUpdateFrequency } from "./getFeedUpdateFrequency.ts";
+import { discoverFeed } from "./discoverFeed.ts";
+import { lintFeed } from "./lintFeed.ts";
+import { detectFeedMove } from "./detectFeedMove.ts";
+import { checkPodcast } from "./checkPodcast.ts";
+import { detectWebSub } from "./detectWebSub.ts";
+import { findMixedContent, probeHttpsUpgrade } from "./checkHttps.ts";
+import { parseFeedDocument } from "./parseFeedDocument.ts";
+import { getErrorMessage } from "./feedErrors.ts";
+import { FeedValidationResult } from "./types/validation.types.ts";
+import { ParsedFeed, ValidationRule, ValidationRuleContext, ValidationRuleOutcome } from "./types/rule.types.ts";
+import { createLogger } from "../utils/logger.ts";
+
+const logger = createLogger("validationRules");
+
+/**
+ * The built-in validation stages, in the order they run
+ */
+export const BUILT_IN_RULES: readonly ValidationRule[] = [
+  {
+    // Stage 1: accessibility
+    name: "accessibility",
+    run: ({ url, response }) => {
+      const accessibility = checkFeedAccessibility(response);
+      if (!accessibility.accessible) {
+        logger.debug(`Feed ${url} is not accessible (${accessibility.failure?.code}): ${accessibility.failure?.message}`);
+        return { status: 'dead', failure: accessibility.failure, stop: true };
+      }
+    }
+  },
+  {
+    // Stage 2: format compatibility
+    name: "compatibility",
+    run: async ({ url, response, feed, limits, signal }) => {
+      const compatibilityCheck = checkFeedCompatibility(response, feed);
+      if (compatibilityCheck.status === 'active') {
+        return { status: 'active' };
+      }
+      // An HTML page instead of a feed: look for the feed it announces
+      let suggestedUrl: string | undefined;
+      if (compatibilityCheck.failure?.code === 'HTML_PAGE') {
+        try {
+          suggestedUrl = await discoverFeed(response.finalUrl, { html: response.body, exclude: [url, response.finalUrl], limits, signal });
+        } catch (error) {
+          signal?.throwIfAborted();
+          logger.warn(`Feed discovery failed for ${response.finalUrl}:`, error);
+        }
+      }
+      return { status: compatibilityCheck.status, failure: compatibilityCheck.failure, details: { suggestedUrl }, stop: true };
+    }
+  },
+  {
+    // Stage 3: update frequency for compatible feeds
+    name: "update-frequency",
+    run: ({ response, feed, policy }) => {
+      const { status, failure, warnings, incompatibleReason: _incompatibleReason, ...details } =
+        getFeedUpdateFrequency(response, feed, policy);
+      return { status, failure, warnings, details };
+    }
+  },
+  {
+    // Stage 4: spec lint, alongside the analyzer's own warnings
+    name: "lint",
+    workingOnly: true,
+    run: ({ response, feed }) => ({ warnings: lintFeed(response, feed) })
+  },
+  {
+    // Stage 5: mixed content of https feeds
+    name: "mixed-content",
+    workingOnly: true,
+    run: ({ response, feed }) => {
+      const warning = findMixedContent(response, feed);
+      return warning ? { warnings: [warning] } : undefined;
+    }
+  },
+  {
+    // Stage 6: moves announced inside the content
+    name: "move-signal",
+    workingOnly: true,
+    run: ({ response, feed }) => ({ details: { moveSignal: detectFeedMove(response, feed) } })
+  },
+  {
+    // Stage 7: episode details and media reachability of podcast feeds
+    name: "podcast",
+    workingOnly: true,
+    run: async ({ response, feed, limits, signal }) => ({
+      details: { podcast: await checkPodcast(response, feed, { limits, signal }) }
+    })
+  },
+  {
+    // Stage 8: WebSub hubs that can push the updates
+    name: "websub",
+    workingOnly: true,
+    run: ({ response, feed }) => ({ details: { websub: detectWebSub(response, feed) } })
+  },
+  {
+    // Stage 9: HTTPS equivalent of http:// feeds that have not permanently moved
+    name: "https",
+    workingOnly: true,
+    run: async ({ response, feed, limits, signal }) => {
+      if (getPermanentRedirectTarget(response.redirects)) {
+        return undefined;
+      }
+      return { details: { httpsUrl: await probeHttpsUpgrade(response, feed, { limits, signal }) } };
+    }
+  }
+];
+
+/**
+ * Tests if a status marks a working feed
+ */
+function isWorkingStatus(status: FeedValidationResult['status']): boolean {
+  return status === 'active' || status === 'inactive';
+}
+
+/**
+ * Runs a chain of rules over a fetched feed
+ * Rules run in order; each sees the result of the rules before it. Rules marked `workingOnly`
+ * are skipped once the feed is no longer working, and a rule can end the chain with `stop`.
+ * A built-in stage that decides the status (accessibility, compatibility, update frequency) and throws
+ * fails the feed with a PARSE_ERROR and ends the chain; any other rule that throws is skipped.
+ * Errors of a cancelled validation are rethrown.
+ * @param rules The rules to run
+ * @param context The response and validation options; the result starts as 'dead' until a rule finds a feed
+ * @returns The combined result of all rules that ran
+ */
+export async function runValidationRules(
+  rules: readonly ValidationRule[],
+  context: Omit<ValidationRuleContext, 'feed' | 'result'>
+): Promise<FeedValidationResult> {
+  let result: FeedValidationResult = { url: context.url, status: 'dead' };
+  const warnings: NonNullable<FeedValidationResult['warnings']> = [];
+  // Parsed once, on first access, and shared by the built-in stages and custom rules
+  let feed: ParsedFeed | null | undefined;
+  const ruleContext: ValidationRuleContext = {
+    ...context,
+    get feed() {
+      if (feed === undefined) {
+        feed = parseFeedDocument(context.response.body);
+      }
+      return feed;
+    },
+    get result() {
+      return { ...result, warnings: warnings.length > 0 ? [...warnings] : undefined };
+    }
+  };
+
+  for (const rule of rules) {
+    if (rule.workingOnly && !isWorkingStatus(result.status)) {
+      continue;
+    }
+    let outcome: ValidationRuleOutcome | void;
+    try {
+      outcome = await rule.run(ruleContext);
+    } catch (error) {
+      context.signal?.throwIfAborted();
+      if (rule.workingOnly || !BUILT_IN_RULES.includes(rule)) {
+        // A broken analysis or custom rule must not fail the validation
+        logger.warn(`Rule ${rule.name} failed for ${context.url}, skipping it:`, error);
+        continue;
+      }
+      // Without its status stages the feed cannot be judged: record the error instead of going on
+      logger.warn(`Rule ${rule.name} failed for ${context.url}:`, error);
+      outcome = {
+        status: 'incompatible',
+        failure: { code: 'PARSE_ERROR', message: `Validation stage ${rule.name} failed: ${getErrorMessage(error)}` },
+        stop: true
+      };
+    }
+    if (!outcome) {
+      continue;
+    }
+
+    result = { ...result, ...outcome.details };
+    if (outcome.status) {
+      const failure = outcome.failure ?? (isWorkingStatus(result.status) && !isWorkingStatus(outcome.status)
+        ? { code: 'RULE_FAILED' as const, message: `Marked ${outcome.status} by rule ${rule.name}` }
+        : undefined);
+      if (outcome.status !== result.status) {
+        logger.debug(`Rule ${rule.name} changed the status of ${context.url} from ${result.status} to ${outcome.status}`);
+      }
+      result.status = outcome.status;
+      result.failure = failure ?? (isWorkingStatus(outcome.status) ? undefined : result.failure);
+      result.error = result.failure?.message;
+    } else if (outcome.failure) {
+      result.failure = outcome.failure;
+      result.error = outcome.failure.message;
+    }
+    for (const warning of outcome.warnings ?? []) {
+      warnings.push(warning.code === 'CUSTOM_RULE' && !warning.rule ? { ...warning, rule: rule.name } : warning);
+    }
+    if (outcome.stop) {
+      break;
+    }
+  }
+
+  return { ...result, warnings: warnings.length > 0 ? warnings : undefined };
+}
+
+/**
+ * Rules loaded per config module, so that every validation of a process shares them
+ */
+const loadedRules = new Map<string, Promise<ValidationRule[]>>();
+
+/**
+ * Tests if a value exported by a config module is a validation rule
+ */
+function isValidationRule(value: unknown): value is ValidationRule {
+  const rule = value as Partial<ValidationRule> | null;
+  return !!rule && typeof rule === "object" && typeof rule.name === "string" && !!rule.name &&
+    typeof rule.run === "function";
+}
+
+/**
+ * Imports the custom rules of a config module
+ * The module exports an array of rules as `rules` or as its default export.
+ * @param specifier Path (relative to the working directory) or URL of the module
+ * @returns The rules, in the order the module lists them
+ * @throws Error if the module cannot be imported or exports anything other than rules
+ */
+async function importRules(specifier: string): Promise<ValidationRule[]> {
+  const url = URL.canParse(specifier) ? specifier : toFileUrl(resolve(specifier)).href;
+  const module = await import(url);
+  const rules: unknown = module.rules ?? module.default;
+  if (!Array.isArray(rules) || !rules.every(isValidationRule)) {
+    throw new Error(`Validation rules module ${specifier} must export an array of rules with a name and a run function`);
+  }
+  const builtInNames = new Set(BUILT_IN_RULES.map((rule) => rule.name));
+  const names = new Set<string>();
+  for (const rule of rules) {
+    if (builtInNames.has(rule.name) || names.has(rule.name)) {
+      throw new Error(`Validation rules module ${specifier} registers rule ${rule.name} more than once`);
+    }
+    names.add(rule.name);
+  }
+  logger.info(`Registered ${rules.length} custom validation rules from ${specifier}: ${[...names].join(", ")}`);
+  return rules;
+}
+
+/**
+ * Loads the custom rules of a config module, once per process
+ * Called at startup by the CLI and the web server, so that a broken module stops them right away.
+ * @param specifier Path or URL of the module, e.g. from VALIDATION_RULES_MODULE; null for no custom rules
+ * @returns The custom rules, to run after the built-in ones
+ * @throws Error if the module cannot be imported or exports anything other than rules
+ */
+export function loadValidationRules(specifier: string | null): Promise<ValidationRule[]> {
+  if (!specifier) {
+    return Promise.resolve([]);
+  }
+  let rules = loadedRules.get(specifier);
+  if (!rules) {
+    // A failed import is not kept, so that a fixed module can be loaded again
+    rules = importRules(specifier).catch((error) => {
+      loadedRules.delete(specifier);
+      throw error;
+    });
+    loadedRules.set(specifier, rules);
+  }
+  return rules;
+}
@@ -0,0 +1,124 @@
+import { assertEquals, assertRejects } from "@std/assert";
+import { BUILT_IN_RULES, loadValidationRules, runValidationRules } from "./validationRules.ts";
+import type { FeedResponse } from "./types/fetch.types.ts";
+import type { ValidationRule } from "./types/rule.types.ts";
+
+const URL = "https://example.com/feed.json";
+
+function createResponse(overrides: Partial<FeedResponse> = {}): FeedResponse {
+  return {
+    url: URL,
+    finalUrl: URL,
+    redirects: [],
+    status: 200,
+    statusText: "OK",
+    ok: true,
+    headers: new Headers({ "content-type": "application/feed+json" }),
+    contentType: "application/feed+json",
+    body: JSON.stringify({ version: "https://jsonfeed.org/version/1.1", title: "Example", items: [] }),
+    attempts: 1,
+    notModified: false,
+    ...overrides
+  };
+}
+
+/** Stands in for the built-in stages that find a working feed */
+const ACTIVE: ValidationRule = { name: "seed", run: () => ({ status: "active" }) };
+
+Deno.test("runValidationRules attributes custom warnings and fails working feeds with RULE_FAILED", async () => {
+  const result = await runValidationRules([
+    ACTIVE,
+    { name: "no-ads", run: () => ({ warnings: [{ code: "CUSTOM_RULE", message: "Ads in entries" }] }) },
+    { name: "strict", run: () => ({ status: "failing" }) },
+    { name: "after-failure", workingOnly: true, run: () => ({ details: { title: "not reached" } }) }
+  ], { url: URL, response: createResponse() });
+
+  assertEquals(result.status, "failing");
+  assertEquals(result.failure?.code, "RULE_FAILED");
+  assertEquals(result.warnings, [{ code: "CUSTOM_RULE", message: "Ads in entries", rule: "no-ads" }]);
+  assertEquals(result.title, undefined);
+});
+
+Deno.test("runValidationRules skips a custom rule that throws", async () => {
+  const result = await runValidationRules([
+    ACTIVE,
+    { name: "broken", run: () => { throw new Error("boom"); } },
+    { name: "title", run: () => ({ details: { title: "Example" } }) }
+  ], { url: URL, response: createResponse() });
+
+  assertEquals(result.status, "active");
+  assertEquals(result.failure, undefined);
+  assertEquals(result.title, "Example");
+});
+
+Deno.test("runValidationRules fails the feed and stops when a status stage throws", async () => {
+  const response = createResponse();
+  Object.defineProperty(response, "body", { get: () => { throw new Error("body unavailable"); } });
+  let reached = false;
+  const result = await runValidationRules([
+    ...BUILT_IN_RULES,
+    { name: "custom", run: () => { reached = true; } }
+  ], { url: URL, response });
+
+  assertEquals(result.status, "incompatible");
+  assertEquals(result.failure?.code, "PARSE_ERROR");
+  assertEquals(reached, false);
+});
+
+Deno.test("runValidationRules runs the built-in stages over the shared parsed feed", async () => {
+  const published = new Date(Date.now() - 24 * 60 * 60 * 1000).toUTCString();
+  const body = `<?xml version="1.0"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">
+  <channel>
+    <title>Example</title>
+    <link>https://example.com/</link>
+    <atom:link href="https://example.com/new-feed.xml" rel="self"/>
+    <atom:link href="https://hub.example.com/" rel="hub"/>
+    <item><title>First post</title><link>https://example.com/1</link><pubDate>${published}</pubDate></item>
+  </channel>
+</rss>`;
+  const result = await runValidationRules(BUILT_IN_RULES, {
+    url: URL,
+    response: createResponse({ body, contentType: "application/rss+xml", headers: new Headers() })
+  });
+
+  assertEquals(result.status, "active");
+  assertEquals(result.title, "Example");
+  assertEquals(result.warnings?.map((warning) => warning.code), ["MISSING_GUID"]);
+  assertEquals(result.moveSignal?.url, "https://example.com/new-feed.xml");
+  assertEquals(result.websub, { hubs: ["https://hub.example.com/"], topic: "https://example.com/new-feed.xml" });
+});
+
+Deno.test("runValidationRules rethrows errors of a cancelled validation", async () => {
+  const controller = new AbortController();
+  controller.abort(new Error("Validation cancelled"));
+  await assertRejects(
+    () => runValidationRules([{ name: "slow", run: () => { throw new Error("aborted"); } }], {
+      url: URL,
+      response: createResponse(),
+      signal: controller.signal
+    }),
+    Error,
+    "Validation cancelled"
+  );
+});
+
+Deno.test("loadValidationRules loads a module once and rejects invalid modules", async () => {
+  assertEquals(await loadValidationRules(null), []);
+
+  const valid = `data:application/javascript,export const rules = [{ name: "custom", run() {} }];`;
+  const rules = await loadValidationRules(valid);
+  assertEquals(rules.map((rule) => rule.name), ["custom"]);
+  assertEquals(await loadValidationRules(valid), rules);
+
+  await assertRejects(
+    () => loadValidationRules(`data:application/javascript,export default [{ name: "lint", run() {} }];`),
+    Error,
+    "more than once"
+  );
+  await assertRejects(
+    () => loadValidationRules(`data:application/javascript,export const rules = "none";`),
+    Error,
+    "must export an array"
+  );
+});
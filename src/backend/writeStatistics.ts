@@ -2,7 +2,9 @@
  * Module for generating statistics for OPML feed analysis
  * Creates markdown reports for feed status distribution
  */
-import { FeedCollection } from "./types/feed.types.ts";
+import { FeedCollection, FeedEntry, FeedErrorCode, FeedWarningCode } from "./types/feed.types.ts";
+import { FEED_ERROR_CODES, FEED_ERROR_LABELS } from "./feedErrors.ts";
+import { FEED_WARNING_CODES, FEED_WARNING_LABELS } from "./feedWarnings.ts";
 import { createLogger } from "../utils/logger.ts";
 
 const logger = createLogger("statistics");
@@ -17,16 +19,24 @@ interface Statistics {
   deadFeeds: number;
   /** Number of feeds not updated recently */
   inactiveFeeds: number;
-  /** Number of active feeds */
+  /** Number of active feeds, excluding podcasts with dead media */
   activeFeeds: number;
+  /** Number of podcast feeds */
+  podcastFeeds: number;
+  /** Active podcasts whose newest episodes do not resolve */
+  deadMediaFeeds: string[];
   /** Number of incompatible feeds */
   incompatibleFeeds: number;
   /** Top categories by number of active feeds */
   topCategories: {name: string; count: number}[];
   /** Most frequently updated feeds */
   mostUpdatedFeeds: {title: string; updates: number}[];
-  /** Sample of incompatible feeds with reasons */
-  incompatibleSamples: {reason: string; urls: string[]}[];
+  /** Dead and incompatible feeds grouped by error code */
+  failuresByCode: {code: FeedErrorCode | 'UNKNOWN'; label: string; urls: string[]}[];
+  /** Number of working feeds with at least one warning */
+  feedsWithWarnings: number;
+  /** Working feeds grouped by warning code, each with the warning's message */
+  warningsByCode: {code: FeedWarningCode; label: string; feeds: string[]}[];
 }
 
 /**
@@ -52,27 +62,18 @@ export async function generateStatistics(
 }
 
 /**
- * Standardizes error messages, particularly handling Content-Type related errors
- * @param reason The original error message
- * @returns The standardized error message
+ * Describes the detail of a feed's failure for the report, e.g. the HTTP status or Content-Type
+ * @param feed The failed feed
+ * @returns The detail text, empty if there is none
  */
-function standardizeErrorReason(reason: string): string {
-  // Handle errors with Content-Type
-  if (reason.includes('Content-Type:') || reason.includes('content type:')) {
-    const contentTypeMatch = reason.match(/(?:Content-Type:|content type:)\s*([^;]+)/i);
-    if (contentTypeMatch) {
-      // Get the basic error message with Content-Type
-      let standardizedReason = `Invalid feed format. Content-Type: ${contentTypeMatch[1].trim()}`;
-      
-      // Preserve additional error context if present
-      if (reason.includes('Received HTML page instead of RSS/Atom feed')) {
-        standardizedReason += '. Received HTML page instead of RSS/Atom feed';
-      }
-      return standardizedReason;
-    }
+function describeFailureDetail(feed: FeedEntry): string {
+  if (feed.failure?.httpStatus) {
+    return ` (HTTP ${feed.failure.httpStatus})`;
   }
-  
-  return reason;
+  if (feed.failure?.contentType) {
+    return ` (Content-Type: ${feed.failure.contentType})`;
+  }
+  return '';
 }
 
 /**
@@ -88,13 +89,19 @@ function calculateStatistics(opmlData: FeedCollection): Statistics {
   const totalFeeds = allFeeds.length;
   const deadFeeds = allFeeds.filter(f => f.status === "dead").length;
   const inactiveFeeds = allFeeds.filter(f => f.status === "inactive").length;
-  const activeFeeds = allFeeds.filter(f => f.status === "active").length;
+  // A podcast whose episodes cannot be played does not count as fully active
+  const isFullyActive = (f: FeedEntry) => f.status === "active" && !f.podcast?.deadMedia;
+  const activeFeeds = allFeeds.filter(isFullyActive).length;
+  const podcastFeeds = allFeeds.filter(f => f.podcast).length;
+  const deadMediaFeeds = allFeeds
+    .filter(f => f.status === "active" && f.podcast?.deadMedia)
+    .map(f => `${f.url} (${f.podcast!.failedMediaUrls?.[0] ?? 'no enclosure resolves'})`);
   const incompatibleFeeds = allFeeds.filter(f => f.status === "incompatible").length;
   
   // Find categories with most active feeds
   const categoryCounts = new Map<string, number>();
   Object.entries(opmlData.categories).forEach(([category, feeds]) => {
-    const activeCount = feeds.filter(f => f.status === "active").length;
+    const activeCount = feeds.filter(isFullyActive).length;
     if (activeCount > 0) {
       categoryCounts.set(category, activeCount);
     }
@@ -108,7 +115,7 @@ function calculateStatistics(opmlData: FeedCollection): Statistics {
   
   // Get top 5 most frequently updated feeds
   const mostUpdatedFeeds = allFeeds
-    .filter(f => f.status === "active")
+    .filter(isFullyActive)
     .sort((a, b) => (b.updatesInLast3Months || 0) - (a.updatesInLast3Months || 0))
     .slice(0, 5)
     .map(f => ({ 
@@ -116,38 +123,60 @@ function calculateStatistics(opmlData: FeedCollection): Statistics {
       updates: f.updatesInLast3Months || 0 
     }));
 
-  // Get all incompatible feeds grouped by reason
-  const incompatibleFeedsByReason = new Map<string, { urls: string[] }>();
+  // Group dead and incompatible feeds by error code
+  const failedFeedsByCode = new Map<FeedErrorCode | 'UNKNOWN', string[]>();
   allFeeds
-    .filter(f => f.status === "incompatible" && f.incompatibleReason)
+    .filter(f => f.status === "dead" || f.status === "incompatible")
     .forEach(f => {
-      // First standardize the error reason, then truncate to 100 characters
-      const standardizedReason = standardizeErrorReason(f.incompatibleReason || 'Unknown reason');
-      const reasonKey = standardizedReason.slice(0, 100);
-      
-      if (!incompatibleFeedsByReason.has(reasonKey)) {
-        incompatibleFeedsByReason.set(reasonKey, { urls: [] });
+      const code = f.failure?.code ?? 'UNKNOWN';
+      if (!failedFeedsByCode.has(code)) {
+        failedFeedsByCode.set(code, []);
       }
-      incompatibleFeedsByReason.get(reasonKey)!.urls.push(f.url);
+      failedFeedsByCode.get(code)!.push(`${f.url}${describeFailureDetail(f)}`);
     });
 
-  // Convert to array format for template use
-  const incompatibleSamples = Array.from(incompatibleFeedsByReason.entries())
-    .map(([reason, data]) => ({
-      reason,
-      urls: data.urls
+  // Convert to array format for template use, in taxonomy order
+  const failuresByCode = [...FEED_ERROR_CODES, 'UNKNOWN' as const]
+    .filter(code => failedFeedsByCode.has(code))
+    .map(code => ({
+      code,
+      label: code === 'UNKNOWN' ? 'Unclassified failure' : FEED_ERROR_LABELS[code],
+      urls: failedFeedsByCode.get(code)!
     }));
   
+  // Group working feeds by warning code, so feed owners can be told what to fix
+  const warnedFeedsByCode = new Map<FeedWarningCode, string[]>();
+  const warnedFeeds = allFeeds.filter(f => (f.status === "active" || f.status === "inactive") && f.warnings?.length);
+  warnedFeeds.forEach(f => {
+    f.warnings!.forEach(warning => {
+      if (!warnedFeedsByCode.has(warning.code)) {
+        warnedFeedsByCode.set(warning.code, []);
+      }
+      warnedFeedsByCode.get(warning.code)!.push(`${f.url} - ${warning.message}`);
+    });
+  });
+  const warningsByCode = FEED_WARNING_CODES
+    .filter(code => warnedFeedsByCode.has(code))
+    .map(code => ({
+      code,
+      label: FEED_WARNING_LABELS[code],
+      feeds: warnedFeedsByCode.get(code)!
+    }));
+
   logger.debug("Statistics calculation complete");
   return {
     totalFeeds,
     deadFeeds,
     inactiveFeeds,
     activeFeeds,
+    podcastFeeds,
+    deadMediaFeeds,
     incompatibleFeeds,
     topCategories,
     mostUpdatedFeeds,
-    incompatibleSamples
+    failuresByCode,
+    feedsWithWarnings: warnedFeeds.length,
+    warningsByCode
   };
 }
 
@@ -168,6 +197,8 @@ async function generateMarkdown(stats: Statistics, outputDir: string, inputFileN
 - **Inactive Feeds**: ${stats.inactiveFeeds} (${((stats.inactiveFeeds / stats.totalFeeds) * 100).toFixed(1)}%)
 - **Active Feeds**: ${stats.activeFeeds} (${((stats.activeFeeds / stats.totalFeeds) * 100).toFixed(1)}%)
 - **Incompatible Feeds**: ${stats.incompatibleFeeds} (${((stats.incompatibleFeeds / stats.totalFeeds) * 100).toFixed(1)}%)
+- **Active Podcasts with Dead Media**: ${stats.deadMediaFeeds.length} (${((stats.deadMediaFeeds.length / stats.totalFeeds) * 100).toFixed(1)}%)
+- **Podcasts**: ${stats.podcastFeeds}
 
 ## Top Categories
 ${
@@ -183,22 +214,41 @@ ${
   ).join("\n")
 }
 
-${stats.incompatibleFeeds > 0 ? `
-## Incompatible Feeds Analysis
+${stats.failuresByCode.length > 0 ? `
+## Failure Analysis
 
 ### Summary
-Total incompatible feeds: ${stats.incompatibleFeeds}
-Number of distinct error categories: ${stats.incompatibleSamples.length}
+Total failed feeds: ${stats.deadFeeds + stats.incompatibleFeeds} (${stats.deadFeeds} dead, ${stats.incompatibleFeeds} incompatible)
+Number of distinct error codes: ${stats.failuresByCode.length}
 
-### Feeds by Error Category
-${stats.incompatibleSamples.map((category, i) => `
-#### ${i + 1}. Error Category: ${category.reason}
+### Feeds by Error Code
+${stats.failuresByCode.map((category, i) => `
+#### ${i + 1}. ${category.code}: ${category.label}
 Number of feeds affected: ${category.urls.length}
 
 Affected URLs:
 ${category.urls.map((url, j) => `${j + 1}. ${url}`).join("\n")}
 `).join("\n")}
 ` : ''}
+${stats.deadMediaFeeds.length > 0 ? `
+## Podcasts with Dead Media
+Active podcast feeds whose newest episode files do not resolve:
+
+${stats.deadMediaFeeds.map((feed, i) => `${i + 1}. ${feed}`).join("\n")}
+` : ''}
+${stats.warningsByCode.length > 0 ? `
+## Spec Conformance Warnings
+
+Working feeds with warnings: ${stats.feedsWithWarnings}
+
+| Code | Warning | Feeds |
+|------|---------|-------|
+${stats.warningsByCode.map(category => `| ${category.code} | ${category.label} | ${category.feeds.length} |`).join("\n")}
+${stats.warningsByCode.map(category => `
+### ${category.code}: ${category.label}
+${category.feeds.map((feed, j) => `${j + 1}. ${feed}`).join("\n")}
+`).join("\n")}
+` : ''}
 `;
 
   await Deno.writeTextFile(`${outputDir}/processing_statistics_${inputFileName}.md`, markdownContent);
@@ -0,0 +1,63 @@
+/**
+ * Helpers for reading documents parsed with @libs/xml
+ * Repeated elements are parsed as arrays and single ones are not, attributes are prefixed with "@"
+ * and the text of an element with attributes is stored under "#text".
+ */
+
+/**
+ * A parsed XML element
+ */
+export type XmlNode = Record<string, unknown>;
+
+/**
+ * Wraps a parsed XML value in an array, as repeated elements are arrays and single ones are not
+ */
+export function asArray(value: unknown): unknown[] {
+  if (value === undefined || value === null) {
+    return [];
+  }
+  return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * Reads the text content of a parsed XML element
+ * @returns The trimmed text, or undefined if the element is absent or empty
+ */
+export function textOf(value: unknown): string | undefined {
+  if (typeof value === "string" || typeof value === "number") {
+    return String(value).trim() || undefined;
+  }
+  if (value && typeof value === "object" && "#text" in value) {
+    return textOf((value as XmlNode)["#text"]);
+  }
+  return undefined;
+}
+
+/**
+ * Reads an attribute of a parsed XML element
+ */
+export function attributeOf(value: unknown, name: string): string | undefined {
+  if (value && typeof value === "object" && !Array.isArray(value)) {
+    return textOf((value as XmlNode)[`@${name}`]);
+  }
+  return undefined;
+}
+
+/**
+ * Finds the href of a link with the given relation among Atom-style <link> elements
+ * @param links The link elements
+ * @param rel The relation; "alternate" also matches links without a rel attribute
+ */
+export function findLink(links: unknown, rel: string): string | undefined {
+  const link = asArray(links).find((item) => (attributeOf(item, "rel") ?? "alternate") === rel);
+  return attributeOf(link, "href");
+}
+
+/**
+ * Reads the text of an RSS <link> element
+ * A channel may carry Atom-style <link> elements without a namespace next to its own, which makes
+ * the value an array; the first link with text content is the RSS link.
+ */
+export function linkTextOf(value: unknown): string | undefined {
+  return asArray(value).map(textOf).find((text) => text !== undefined);
+}
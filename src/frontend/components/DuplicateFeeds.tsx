@@ -0,0 +1,69 @@
+// src/frontend/components/DuplicateFeeds.tsx
+import type { DuplicateFeedGroup, DuplicateReason } from "../../backend/types/feed.types.ts";
+
+const REASON_LABELS: Record<DuplicateReason, string> = {
+  EQUIVALENT_URL: "Equivalent URL",
+  SAME_CONTENT: "Same website and title",
+};
+
+interface DuplicateFeedsProps {
+  groups: DuplicateFeedGroup[];
+  /** Merges the other feeds of a group into the kept one */
+  onMerge: (keepUrl: string, mergeUrls: string[]) => void;
+  isMerging: boolean;
+}
+
+/**
+ * Duplicates report: feeds that are the same subscription, with an action to keep one of them
+ */
+export default function DuplicateFeeds({ groups, onMerge, isMerging }: DuplicateFeedsProps) {
+  return (
+    <div class="w-full bg-white/90 backdrop-blur-sm rounded-lg shadow-sm border border-fresh-teal/30 overflow-hidden">
+      <div class="px-6 py-5 border-b border-fresh-teal/20">
+        <h3 class="text-lg font-medium text-slate-900">Duplicate Feeds</h3>
+        <p class="text-sm text-slate-500">
+          {groups.length} {groups.length === 1 ? "group" : "groups"} of feeds that look like the same subscription.
+          Keeping one merges the others into it; their URLs are remembered as aliases.
+        </p>
+      </div>
+      <ul class="divide-y divide-slate-200">
+        {groups.map((group) => (
+          <li key={group.keepUrl} class="px-6 py-4">
+            <div class="flex flex-wrap gap-2 mb-2">
+              {group.reasons.map((reason) => (
+                <span key={reason} class="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-800">
+                  {REASON_LABELS[reason]}
+                </span>
+              ))}
+            </div>
+            <table class="min-w-full text-sm">
+              <tbody>
+                {group.feeds.map((feed) => (
+                  <tr key={feed.url}>
+                    <td class="py-1 pr-4 text-slate-900">
+                      <div class="font-medium">{feed.title}</div>
+                      <div class="text-xs text-slate-500 break-all">{feed.url}</div>
+                    </td>
+                    <td class="py-1 pr-4 text-slate-500 whitespace-nowrap">{feed.category}</td>
+                    <td class="py-1 pr-4 text-slate-500 whitespace-nowrap">{feed.status}</td>
+                    <td class="py-1 text-right whitespace-nowrap">
+                      <button
+                        type="button"
+                        disabled={isMerging}
+                        onClick={() => onMerge(feed.url, group.feeds.filter((other) => other.url !== feed.url).map((other) => other.url))}
+                        class={`inline-flex items-center px-2 py-1 border text-xs font-medium rounded-md disabled:opacity-50 disabled:cursor-not-allowed ${feed.url === group.keepUrl ? 'border-transparent text-slate-800 bg-fresh-yellow hover:bg-yellow-400' : 'border-slate-300 text-slate-700 bg-white hover:bg-slate-50'}`}
+                        title={feed.url === group.keepUrl ? "Suggested: working, HTTPS, not proxied, most updates" : undefined}
+                      >
+                        Keep this
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -1,8 +1,12 @@
 // src/frontend/components/FeedList.tsx
-import { JSX } from "preact";
+import { Fragment, JSX } from "preact";
+import { useState } from "preact/hooks";
 import type { FeedRecord } from "../../backend/types/feed.types.ts";
+import { FEED_ERROR_LABELS } from "../../backend/feedErrors.ts";
+import { FEED_WARNING_LABELS } from "../../backend/feedWarnings.ts";
+import HealthScore from "./HealthScore.tsx";
 
-type SortField = 'url' | 'category' | 'status' | 'lastUpdate' | 'updatesInLast3Months' | 'lastValidated';
+type SortField = 'url' | 'category' | 'status' | 'healthScore' | 'lastUpdate' | 'updatesInLast3Months' | 'lastValidated';
 type SortDirection = 'asc' | 'desc';
 
 interface FeedListProps {
@@ -17,6 +21,8 @@ interface FeedListProps {
   onSelectFeed?: (url: string, isSelected: boolean) => void;
   onSelectAll?: (isSelected: boolean) => void;
   selectAllChecked?: boolean;
+  // Called to move a feed to the target of its permanent redirect, or to the given replacement URL
+  onMigrateFeed?: (url: string, newUrl?: string) => void;
 }
 
 export default function FeedList({
@@ -30,8 +36,11 @@ export default function FeedList({
   selectedFeeds = new Set<string>(),
   onSelectFeed = () => {},
   onSelectAll = () => {},
-  selectAllChecked = false
+  selectAllChecked = false,
+  onMigrateFeed
 }: FeedListProps) {
+  // Feed whose warning details are shown below its row
+  const [expandedFeed, setExpandedFeed] = useState<string | null>(null);
   // Ensure feeds is always an array
   const feedsArray = Array.isArray(feeds) ? feeds : [];
   // Use an absolute positioned loading indicator that doesn't cause layout shifts
@@ -61,17 +70,19 @@ export default function FeedList({
     const getColumnClass = () => {
       switch (field) {
         case 'url':
-          return 'w-[30%]'; // Reduced URL width to give more space to other columns
+          return 'w-[26%]'; // Reduced URL width to give more space to other columns
         case 'category':
           return 'w-[12%]';
         case 'status':
           return 'w-[10%]';
+        case 'healthScore':
+          return 'w-[9%]';
         case 'lastUpdate':
-          return 'w-[19%]'; // Increased to ensure dates are fully visible
+          return 'w-[17%]'; // Increased to ensure dates are fully visible
         case 'updatesInLast3Months':
           return 'w-[10%]';
         case 'lastValidated':
-          return 'w-[19%]'; // Increased to ensure dates are fully visible
+          return 'w-[17%]'; // Increased to ensure dates are fully visible
         default:
           return '';
       }
@@ -133,6 +144,7 @@ export default function FeedList({
                     <SortableHeader field="url" label="Name" />
                     <SortableHeader field="category" label="Category" />
                     <SortableHeader field="status" label="Status" />
+                    <SortableHeader field="healthScore" label="Health" />
                     <SortableHeader field="lastUpdate" label="Last Update" />
                     <SortableHeader field="updatesInLast3Months" label="Updates (3mo)" />
                     <SortableHeader field="lastValidated" label="Last Valid" />
@@ -140,132 +152,297 @@ export default function FeedList({
                 </thead>
                 <tbody class="bg-white divide-y divide-slate-200">
                   {feedsArray.map((feed, index) => (
-                    <tr key={feed.url} class={index % 2 === 0 ? 'bg-white' : 'bg-slate-50'}>
-                      {/* Row Selection Checkbox */}
-                      <td class="px-4 py-4">
-                        <div class="flex items-center justify-center">
-                          <input
-                            type="checkbox"
-                            class="h-4 w-4 text-fresh-emerald focus:ring-fresh-emerald border-slate-300 rounded"
-                            checked={selectedFeeds.has(feed.url)}
-                            onChange={(e) => onSelectFeed(feed.url, e.currentTarget.checked)}
-                          />
-                        </div>
-                      </td>
-                      <td class="px-6 py-4 text-sm font-medium text-slate-900">
-                        <div class="flex items-center">
-                          <svg class="flex-shrink-0 mr-1.5 h-4 w-4 text-slate-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                            <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2"
-                              d="M13.828 10.172a4 4 0 00-5.656 0l-4 4a4 4 0 105.656 5.656l1.102-1.101m-.758-4.899a4 4 0 005.656 0l4-4a4 4 0 00-5.656-5.656l-1.1 1.1" />
-                          </svg>
-                          <a
-                            href="#"
-                            class="text-fresh-emerald hover:text-fresh-turquoiseDeep transition-colors duration-200 block overflow-hidden text-ellipsis"
-                            title={feed.url}
-                            onClick={(e) => {
-                              e.preventDefault();
-                              globalThis.open(feed.url, '_blank', 'noopener,noreferrer');
-                            }}
-                            style={{ maxWidth: 'calc(100% - 1.5rem)' }}
-                          >
-                            {/* Display feed.text, fallback to feed.url if missing */}
-                            <span class="truncate">{feed.text || feed.url}</span>
-                          </a>
-                        </div>
-                      </td>
-                      <td class="px-6 py-4 text-sm text-slate-500">
-                        <div class="flex items-center">
-                          <svg class="flex-shrink-0 mr-1.5 h-4 w-4 text-slate-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                            <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2"
-                              d="M7 7h.01M7 3h5c.512 0 1.024.195 1.414.586l7 7a2 2 0 010 2.828l-7 7a2 2 0 01-2.828 0l-7-7A1.994 1.994 0 013 12V7a4 4 0 014-4z" />
-                          </svg>
-                          <span class="truncate" title={feed.category || "Uncategorized"}>{feed.category || "Uncategorized"}</span>
-                        </div>
-                      </td>
-                      <td class="px-6 py-4 text-center">
-                        <div class="flex justify-center">
-                          <span
-                            class={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
-                              feed.status === "active"
-                                ? "bg-green-100 text-green-800"
-                                : feed.status === "inactive"
-                                ? "bg-yellow-100 text-yellow-800"
-                                : feed.status === "dead"
-                                ? "bg-red-100 text-red-800"
-                                : feed.status === "incompatible"
-                                ? "bg-purple-100 text-purple-800"
-                                : "bg-slate-100 text-slate-800" // Default/Unknown
-                            }`}
-                          >
-                            {feed.status === "active" && (
-                              <svg class="-ml-0.5 mr-1.5 h-2 w-2 text-green-400" fill="currentColor" viewBox="0 0 8 8">
-                                <circle cx="4" cy="4" r="3" />
-                              </svg>
-                            )}
-                            {feed.status === "inactive" && (
-                              <svg class="-ml-0.5 mr-1.5 h-2 w-2 text-yellow-400" fill="currentColor" viewBox="0 0 8 8">
-                                <circle cx="4" cy="4" r="3" />
-                              </svg>
-                            )}
-                            {feed.status === "dead" && (
-                              <svg class="-ml-0.5 mr-1.5 h-2 w-2 text-red-400" fill="currentColor" viewBox="0 0 8 8">
-                                <circle cx="4" cy="4" r="3" />
-                              </svg>
-                            )}
-                            {feed.status}
-                          </span>
-                        </div>
-                      </td>
-                      <td class="px-6 py-4 text-sm text-slate-500">
-                        <div class="flex items-center">
-                          <svg class="flex-shrink-0 mr-1.5 h-4 w-4 text-slate-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                            <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2"
-                              d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
-                          </svg>
-                          <span class="truncate">
-                            {feed.lastUpdate
-                              ? new Date(feed.lastUpdate).toLocaleString(undefined, {
-                                  year: 'numeric',
-                                  month: '2-digit',
-                                  day: '2-digit',
-                                  hour: '2-digit',
-                                  minute: '2-digit',
-                                  hour12: false // Use 24-hour format to save space
-                                })
-                              : "Never"}
-                          </span>
-                        </div>
-                      </td>
-                      <td class="px-6 py-4 text-center">
-                        <div class="flex justify-center">
-                          <span
-                            class={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${feed.updatesInLast3Months > 10 ? 'bg-green-100 text-green-800' : feed.updatesInLast3Months > 3 ? 'bg-blue-100 text-blue-800' : feed.updatesInLast3Months > 0 ? 'bg-yellow-100 text-yellow-800' : 'bg-slate-100 text-slate-800'}`}
-                          >
-                            {feed.updatesInLast3Months}
-                          </span>
-                        </div>
-                      </td>
-                      <td class="px-6 py-4 text-sm text-slate-500">
-                        <div class="flex items-center">
-                          <svg class="flex-shrink-0 mr-1.5 h-4 w-4 text-slate-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                            <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2"
-                              d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
-                          </svg>
-                          <span class="truncate">
-                            {feed.lastValidated
-                              ? new Date(feed.lastValidated).toLocaleString(undefined, {
-                                  year: 'numeric',
-                                  month: '2-digit',
-                                  day: '2-digit',
-                                  hour: '2-digit',
-                                  minute: '2-digit',
-                                  hour12: false // Use 24-hour format to save space
-                                })
-                              : "Never"}
-                          </span>
-                        </div>
-                      </td>
-                    </tr>
+                    <Fragment key={feed.url}>
+                      <tr class={index % 2 === 0 ? 'bg-white' : 'bg-slate-50'}>
+                        {/* Row Selection Checkbox */}
+                        <td class="px-4 py-4">
+                          <div class="flex items-center justify-center">
+                            <input
+                              type="checkbox"
+                              class="h-4 w-4 text-fresh-emerald focus:ring-fresh-emerald border-slate-300 rounded"
+                              checked={selectedFeeds.has(feed.url)}
+                              onChange={(e) => onSelectFeed(feed.url, e.currentTarget.checked)}
+                            />
+                          </div>
+                        </td>
+                        <td class="px-6 py-4 text-sm font-medium text-slate-900">
+                          <div class="flex items-center">
+                            <svg class="flex-shrink-0 mr-1.5 h-4 w-4 text-slate-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                              <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2"
+                                d="M13.828 10.172a4 4 0 00-5.656 0l-4 4a4 4 0 105.656 5.656l1.102-1.101m-.758-4.899a4 4 0 005.656 0l4-4a4 4 0 00-5.656-5.656l-1.1 1.1" />
+                            </svg>
+                            <a
+                              href="#"
+                              class="text-fresh-emerald hover:text-fresh-turquoiseDeep transition-colors duration-200 block overflow-hidden text-ellipsis"
+                              title={feed.url}
+                              onClick={(e) => {
+                                e.preventDefault();
+                                globalThis.open(feed.url, '_blank', 'noopener,noreferrer');
+                              }}
+                              style={{ maxWidth: 'calc(100% - 1.5rem)' }}
+                            >
+                              {/* Display feed.text, fallback to feed.url if missing */}
+                              <span class="truncate">{feed.text || feed.url}</span>
+                            </a>
+                          </div>
+                        </td>
+                        <td class="px-6 py-4 text-sm text-slate-500">
+                          <div class="flex items-center">
+                            <svg class="flex-shrink-0 mr-1.5 h-4 w-4 text-slate-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                              <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2"
+                                d="M7 7h.01M7 3h5c.512 0 1.024.195 1.414.586l7 7a2 2 0 010 2.828l-7 7a2 2 0 01-2.828 0l-7-7A1.994 1.994 0 013 12V7a4 4 0 014-4z" />
+                            </svg>
+                            <span class="truncate" title={feed.category || "Uncategorized"}>{feed.category || "Uncategorized"}</span>
+                          </div>
+                        </td>
+                        <td class="px-6 py-4 text-center">
+                          <div class="flex justify-center">
+                            <span
+                              class={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+                                feed.status === "active"
+                                  ? "bg-green-100 text-green-800"
+                                  : feed.status === "inactive"
+                                  ? "bg-yellow-100 text-yellow-800"
+                                  : feed.status === "failing"
+                                  ? "bg-orange-100 text-orange-800"
+                                  : feed.status === "dead"
+                                  ? "bg-red-100 text-red-800"
+                                  : feed.status === "incompatible"
+                                  ? "bg-purple-100 text-purple-800"
+                                  : "bg-slate-100 text-slate-800" // Default/Unknown
+                              }`}
+                            >
+                              {feed.status === "active" && (
+                                <svg class="-ml-0.5 mr-1.5 h-2 w-2 text-green-400" fill="currentColor" viewBox="0 0 8 8">
+                                  <circle cx="4" cy="4" r="3" />
+                                </svg>
+                              )}
+                              {feed.status === "inactive" && (
+                                <svg class="-ml-0.5 mr-1.5 h-2 w-2 text-yellow-400" fill="currentColor" viewBox="0 0 8 8">
+                                  <circle cx="4" cy="4" r="3" />
+                                </svg>
+                              )}
+                              {feed.status === "failing" && (
+                                <svg class="-ml-0.5 mr-1.5 h-2 w-2 text-orange-400" fill="currentColor" viewBox="0 0 8 8">
+                                  <circle cx="4" cy="4" r="3" />
+                                </svg>
+                              )}
+                              {feed.status === "dead" && (
+                                <svg class="-ml-0.5 mr-1.5 h-2 w-2 text-red-400" fill="currentColor" viewBox="0 0 8 8">
+                                  <circle cx="4" cy="4" r="3" />
+                                </svg>
+                              )}
+                              {feed.status}
+                            </span>
+                          </div>
+                          {/* Classified failure of the last validation */}
+                          {feed.failure && (
+                            <div class="mt-1 flex justify-center">
+                              <span
+                                class="inline-flex items-center px-2 py-0.5 rounded text-xs font-mono bg-slate-100 text-slate-600"
+                                title={`${FEED_ERROR_LABELS[feed.failure.code]}: ${feed.failure.message}`}
+                              >
+                                {feed.failure.httpStatus ? `HTTP ${feed.failure.httpStatus}` : feed.failure.code}
+                              </span>
+                            </div>
+                          )}
+                          {/* Podcast details; dead media means the feed works but its episodes cannot be played */}
+                          {feed.podcast && (
+                            <div class="mt-1 flex justify-center">
+                              <span
+                                class={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${feed.podcast.deadMedia ? 'bg-red-100 text-red-800' : 'bg-purple-100 text-purple-800'}`}
+                                title={[
+                                  `${feed.podcast.episodeCount} episodes`,
+                                  feed.podcast.latestEpisode ? `latest ${new Date(feed.podcast.latestEpisode).toLocaleDateString()}` : '',
+                                  feed.podcast.failedMediaUrls ? `${feed.podcast.failedMediaUrls.length} of ${feed.podcast.mediaChecked} newest enclosures unreachable` : ''
+                                ].filter(Boolean).join(', ')}
+                              >
+                                {feed.podcast.deadMedia ? 'Dead media' : 'Podcast'}
+                              </span>
+                            </div>
+                          )}
+                          {/* Hubs that can push the feed's updates */}
+                          {feed.websub && (
+                            <div class="mt-1 flex justify-center">
+                              <span
+                                class="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-sky-100 text-sky-800"
+                                title={`WebSub hubs: ${feed.websub.hubs.join(', ')}`}
+                              >
+                                Push
+                              </span>
+                            </div>
+                          )}
+                          {/* Non-fatal problems of a working feed */}
+                          {feed.warnings && feed.warnings.length > 0 && (
+                            <div class="mt-1 flex justify-center">
+                              <button
+                                type="button"
+                                class="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-800 hover:bg-amber-200"
+                                title={feed.warnings.map((warning) => `${warning.rule ?? FEED_WARNING_LABELS[warning.code]}: ${warning.message}`).join("\n")}
+                                onClick={() => setExpandedFeed(expandedFeed === feed.url ? null : feed.url)}
+                              >
+                                {feed.warnings.length === 1 ? "1 warning" : `${feed.warnings.length} warnings`}
+                              </button>
+                            </div>
+                          )}
+                          {/* Feed permanently redirected to a new URL */}
+                          {feed.movedTo && (
+                            <div class="mt-1 flex items-center justify-center space-x-1">
+                              <span
+                                class="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800"
+                                title={`Moved to ${feed.movedTo}`}
+                              >
+                                Moved
+                              </span>
+                              {onMigrateFeed && (
+                                <button
+                                  type="button"
+                                  class="text-xs text-fresh-emerald hover:text-fresh-turquoiseDeep underline"
+                                  title={`Update subscription to ${feed.movedTo}`}
+                                  onClick={() => onMigrateFeed(feed.url)}
+                                >
+                                  Migrate
+                                </button>
+                              )}
+                            </div>
+                          )}
+                          {/* New location announced inside the feed content */}
+                          {feed.moveSignal && !feed.movedTo && (
+                            <div class="mt-1 flex items-center justify-center space-x-1">
+                              <span
+                                class="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800"
+                                title={`Announced move to ${feed.moveSignal.url}: ${feed.moveSignal.detail}`}
+                              >
+                                Moving
+                              </span>
+                              {onMigrateFeed && (
+                                <button
+                                  type="button"
+                                  class="text-xs text-fresh-emerald hover:text-fresh-turquoiseDeep underline"
+                                  title={`Update subscription to ${feed.moveSignal.url}`}
+                                  onClick={() => onMigrateFeed(feed.url, feed.moveSignal!.url)}
+                                >
+                                  Migrate
+                                </button>
+                              )}
+                            </div>
+                          )}
+                          {/* Working feed discovered on the feed's page or website */}
+                          {feed.suggestedUrl && (
+                            <div class="mt-1 flex items-center justify-center space-x-1">
+                              <span
+                                class="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-teal-100 text-teal-800"
+                                title={`Suggested replacement: ${feed.suggestedUrl}`}
+                              >
+                                Suggested
+                              </span>
+                              {onMigrateFeed && (
+                                <button
+                                  type="button"
+                                  class="text-xs text-fresh-emerald hover:text-fresh-turquoiseDeep underline"
+                                  title={`Replace subscription with ${feed.suggestedUrl}`}
+                                  onClick={() => onMigrateFeed(feed.url, feed.suggestedUrl)}
+                                >
+                                  Accept
+                                </button>
+                              )}
+                            </div>
+                          )}
+                          {/* Same channel served over HTTPS */}
+                          {feed.httpsUrl && (
+                            <div class="mt-1 flex items-center justify-center space-x-1">
+                              <span
+                                class="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800"
+                                title={`Also served over HTTPS at ${feed.httpsUrl}`}
+                              >
+                                HTTPS
+                              </span>
+                              {onMigrateFeed && (
+                                <button
+                                  type="button"
+                                  class="text-xs text-fresh-emerald hover:text-fresh-turquoiseDeep underline"
+                                  title={`Update subscription to ${feed.httpsUrl}`}
+                                  onClick={() => onMigrateFeed(feed.url, feed.httpsUrl)}
+                                >
+                                  Upgrade
+                                </button>
+                              )}
+                            </div>
+                          )}
+                        </td>
+                        <td class="px-6 py-4 text-center">
+                          <HealthScore feed={feed} />
+                        </td>
+                        <td class="px-6 py-4 text-sm text-slate-500">
+                          <div class="flex items-center">
+                            <svg class="flex-shrink-0 mr-1.5 h-4 w-4 text-slate-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                              <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2"
+                                d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
+                            </svg>
+                            <span class="truncate">
+                              {feed.lastUpdate
+                                ? new Date(feed.lastUpdate).toLocaleString(undefined, {
+                                    year: 'numeric',
+                                    month: '2-digit',
+                                    day: '2-digit',
+                                    hour: '2-digit',
+                                    minute: '2-digit',
+                                    hour12: false // Use 24-hour format to save space
+                                  })
+                                : "Never"}
+                            </span>
+                          </div>
+                        </td>
+                        <td class="px-6 py-4 text-center">
+                          <div class="flex justify-center">
+                            <span
+                              title={feed.cadence?.postsPerWeek !== undefined
+                                ? `${feed.cadence.postsPerWeek} posts/week, median interval ${feed.cadence.medianIntervalHours}h, longest gap ${feed.cadence.longestGapHours}h`
+                                : undefined}
+                              class={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${feed.updatesInLast3Months > 10 ? 'bg-green-100 text-green-800' : feed.updatesInLast3Months > 3 ? 'bg-blue-100 text-blue-800' : feed.updatesInLast3Months > 0 ? 'bg-yellow-100 text-yellow-800' : 'bg-slate-100 text-slate-800'}`}
+                            >
+                              {feed.updatesInLast3Months}
+                            </span>
+                          </div>
+                        </td>
+                        <td class="px-6 py-4 text-sm text-slate-500">
+                          <div class="flex items-center">
+                            <svg class="flex-shrink-0 mr-1.5 h-4 w-4 text-slate-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                              <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2"
+                                d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                            </svg>
+                            <span class="truncate">
+                              {feed.lastValidated
+                                ? new Date(feed.lastValidated).toLocaleString(undefined, {
+                                    year: 'numeric',
+                                    month: '2-digit',
+                                    day: '2-digit',
+                                    hour: '2-digit',
+                                    minute: '2-digit',
+                                    hour12: false // Use 24-hour format to save space
+                                  })
+                                : "Never"}
+                            </span>
+                          </div>
+                        </td>
+                      </tr>
+                      {/* Details of the feed's warnings, toggled from the warnings badge */}
+                      {expandedFeed === feed.url && feed.warnings && (
+                        <tr class={index % 2 === 0 ? 'bg-white' : 'bg-slate-50'}>
+                          <td></td>
+                          <td colSpan={7} class="px-6 pb-4 text-sm text-slate-600">
+                            <ul class="list-disc pl-5 space-y-1">
+                              {feed.warnings.map((warning) => (
+                                <li key={warning.code}>
+                                  <span class="font-medium text-amber-800">{warning.rule ?? FEED_WARNING_LABELS[warning.code]}</span>
+                                  {`: ${warning.message}`}
+                                </li>
+                              ))}
+                            </ul>
+                          </td>
+                        </tr>
+                      )}
+                    </Fragment>
                   ))}
                 </tbody>
               </table>
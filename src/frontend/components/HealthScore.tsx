@@ -0,0 +1,53 @@
+// src/frontend/components/HealthScore.tsx
+import type { FeedRecord } from "../../backend/types/feed.types.ts";
+
+/** Size of the trend sparkline in pixels */
+const TREND_WIDTH = 48;
+const TREND_HEIGHT = 16;
+
+interface HealthScoreProps {
+  feed: Pick<FeedRecord, 'healthScore' | 'healthFactors' | 'validationHistory'>;
+}
+
+/**
+ * Health score of a feed with its trend over the recorded validations
+ */
+export default function HealthScore({ feed }: HealthScoreProps) {
+  if (feed.healthScore === undefined) {
+    return <span class="text-xs text-slate-400">—</span>;
+  }
+
+  const scores = (feed.validationHistory || [])
+    .map((entry) => entry.healthScore)
+    .filter((score): score is number => score !== undefined);
+  const change = scores.length > 1 ? scores[scores.length - 1] - scores[scores.length - 2] : 0;
+  const points = scores
+    .map((score, index) => `${(index / Math.max(1, scores.length - 1)) * TREND_WIDTH},${TREND_HEIGHT - (score / 100) * TREND_HEIGHT}`)
+    .join(" ");
+  const factors = feed.healthFactors;
+
+  return (
+    <div class="flex flex-col items-center">
+      <span
+        class={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${feed.healthScore >= 80 ? 'bg-green-100 text-green-800' : feed.healthScore >= 50 ? 'bg-yellow-100 text-yellow-800' : 'bg-red-100 text-red-800'}`}
+        title={factors
+          ? `Reliability ${factors.reliability}, freshness ${factors.freshness}, latency ${factors.latency ?? 'n/a'}, warnings ${factors.warnings}, redirects ${factors.redirects}`
+          : undefined}
+      >
+        {feed.healthScore}
+        {change !== 0 && (
+          <span class={`ml-1 ${change > 0 ? 'text-green-600' : 'text-red-600'}`}>
+            {change > 0 ? `▲${change}` : `▼${-change}`}
+          </span>
+        )}
+      </span>
+      {/* Score after each of the recorded validations, oldest first */}
+      {scores.length > 1 && (
+        <svg class="mt-1 text-slate-400" width={TREND_WIDTH} height={TREND_HEIGHT} viewBox={`0 0 ${TREND_WIDTH} ${TREND_HEIGHT}`}>
+          <title>{`Health over the last ${scores.length} validations: ${scores.join(", ")}`}</title>
+          <polyline points={points} fill="none" stroke="currentColor" stroke-width="1.5" stroke-linejoin="round" />
+        </svg>
+      )}
+    </div>
+  );
+}
@@ -4,12 +4,19 @@
 
 import * as $_404 from "./routes/_404.tsx";
 import * as $_app from "./routes/_app.tsx";
+import * as $api_duplicates from "./routes/api/duplicates.ts";
 import * as $api_export from "./routes/api/export.ts";
 import * as $api_feeds from "./routes/api/feeds.ts";
+import * as $api_https_upgrade from "./routes/api/https-upgrade.ts";
+import * as $api_migrate from "./routes/api/migrate.ts";
+import * as $api_policy from "./routes/api/policy.ts";
+import * as $api_schedule from "./routes/api/schedule.ts";
 import * as $api_status from "./routes/api/status.ts";
 import * as $api_upload from "./routes/api/upload.ts";
 import * as $api_validate from "./routes/api/validate.ts";
+import * as $api_validation_control from "./routes/api/validation-control.ts";
 import * as $api_validation_status from "./routes/api/validation-status.ts";
+import * as $api_websub_id_ from "./routes/api/websub/[id].ts";
 import * as $greet_name_ from "./routes/greet/[name].tsx";
 import * as $index from "./routes/index.tsx";
 import * as $ws from "./routes/ws.ts";
@@ -17,6 +24,7 @@ import * as $ExportButton from "./islands/ExportButton.tsx";
 import * as $FeedListControls from "./islands/FeedListControls.tsx";
 import * as $FeedManagementIsland from "./islands/FeedManagementIsland.tsx";
 import * as $OPMLUploaderIsland from "./islands/OPMLUploaderIsland.tsx";
+import * as $ScheduleSettings from "./islands/ScheduleSettings.tsx";
 import * as $ValidationStatus from "./islands/ValidationStatus.tsx";
 import type { Manifest } from "$fresh/server.ts";
 
@@ -24,12 +32,19 @@ const manifest = {
   routes: {
     "./routes/_404.tsx": $_404,
     "./routes/_app.tsx": $_app,
+    "./routes/api/duplicates.ts": $api_duplicates,
     "./routes/api/export.ts": $api_export,
     "./routes/api/feeds.ts": $api_feeds,
+    "./routes/api/https-upgrade.ts": $api_https_upgrade,
+    "./routes/api/migrate.ts": $api_migrate,
+    "./routes/api/policy.ts": $api_policy,
+    "./routes/api/schedule.ts": $api_schedule,
     "./routes/api/status.ts": $api_status,
     "./routes/api/upload.ts": $api_upload,
     "./routes/api/validate.ts": $api_validate,
+    "./routes/api/validation-control.ts": $api_validation_control,
     "./routes/api/validation-status.ts": $api_validation_status,
+    "./routes/api/websub/[id].ts": $api_websub_id_,
     "./routes/greet/[name].tsx": $greet_name_,
     "./routes/index.tsx": $index,
     "./routes/ws.ts": $ws,
@@ -39,6 +54,7 @@ const manifest = {
     "./islands/FeedListControls.tsx": $FeedListControls,
     "./islands/FeedManagementIsland.tsx": $FeedManagementIsland,
     "./islands/OPMLUploaderIsland.tsx": $OPMLUploaderIsland,
+    "./islands/ScheduleSettings.tsx": $ScheduleSettings,
     "./islands/ValidationStatus.tsx": $ValidationStatus,
   },
   baseUrl: import.meta.url,
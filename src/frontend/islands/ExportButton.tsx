@@ -10,6 +10,7 @@ interface ExportButtonProps {
 
 export default function ExportButton({ selectedFeeds, allFeeds }: ExportButtonProps) {
   const [includeCategoryStructure, setIncludeCategoryStructure] = useState<boolean>(true);
+  const [useNewUrls, setUseNewUrls] = useState<boolean>(false);
   const [isExporting, setIsExporting] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -32,7 +33,8 @@ export default function ExportButton({ selectedFeeds, allFeeds }: ExportButtonPr
         body: JSON.stringify({
           feeds: feedsToExport,
           options: {
-            includeCategoryStructure
+            includeCategoryStructure,
+            useNewUrls
           }
         })
       });
@@ -101,6 +103,22 @@ export default function ExportButton({ selectedFeeds, allFeeds }: ExportButtonPr
           </div>
         </label>
       </div>
+      <div class="flex items-center">
+        <input
+          id="use-new-urls"
+          type="checkbox"
+          checked={useNewUrls}
+          onChange={(e) => setUseNewUrls(e.currentTarget.checked)}
+          class="h-4 w-4 text-fresh-teal focus:ring-fresh-yellow border-fresh-teal/30 rounded"
+        />
+        <label
+          for="use-new-urls"
+          class="ml-2 text-sm text-slate-700"
+          title="Export moved feeds with their new URL, from a permanent redirect or a move announced in the feed"
+        >
+          Use new URLs
+        </label>
+      </div>
       <button
         type="button"
         onClick={handleExport}
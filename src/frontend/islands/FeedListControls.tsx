@@ -3,23 +3,28 @@ import { useState, useEffect, useMemo } from "preact/hooks";
 // We're using useState for selection state instead of signals
 import FeedList from "../components/FeedList.tsx";
 import ExportButton from "./ExportButton.tsx";
-import type { FeedRecord, FeedStatus } from "../../backend/types/feed.types.ts";
+import type { FeedErrorCode, FeedRecord, FeedStatus } from "../../backend/types/feed.types.ts";
+import { FEED_ERROR_CODES, FEED_ERROR_LABELS } from "../../backend/feedErrors.ts";
 
 interface FeedListControlsProps {
   feeds: FeedRecord[];
   isLoading?: boolean;
   onSelectionChange?: (selectedFeeds: Set<string>) => void;
+  onMigrateFeed?: (url: string, newUrl?: string) => void;
+  /** Moves the given http:// feeds to their HTTPS equivalents */
+  onUpgradeHttps?: (urls: string[]) => void;
 }
 
-type SortField = 'url' | 'category' | 'status' | 'lastUpdate' | 'updatesInLast3Months' | 'lastValidated';
+type SortField = 'url' | 'category' | 'status' | 'healthScore' | 'lastUpdate' | 'updatesInLast3Months' | 'lastValidated';
 type SortDirection = 'asc' | 'desc';
 
-export default function FeedListControls({ feeds, isLoading = false, onSelectionChange }: FeedListControlsProps) {
+export default function FeedListControls({ feeds, isLoading = false, onSelectionChange, onMigrateFeed, onUpgradeHttps }: FeedListControlsProps) {
   const [error, setError] = useState<string | null>(null);
 
   // Filter states
   const [statusFilter, setStatusFilter] = useState<FeedStatus | 'all'>('all');
   const [categoryFilter, setCategoryFilter] = useState<string>('all');
+  const [errorFilter, setErrorFilter] = useState<FeedErrorCode | 'all'>('all');
   const [searchQuery, setSearchQuery] = useState<string>('');
 
   // Selection state
@@ -41,6 +46,19 @@ export default function FeedListControls({ feeds, isLoading = false, onSelection
     }
   }, [feeds]);
 
+  // Error codes present in the current feeds, in taxonomy order
+  const errorCodes = useMemo(() => {
+    const present = new Set(feeds.map(feed => feed.failure?.code));
+    return FEED_ERROR_CODES.filter(code => present.has(code));
+  }, [feeds]);
+
+  // Feeds with an HTTPS equivalent: the selected ones if any are selected, otherwise all of them
+  const httpsUpgradeUrls = useMemo(() => {
+    const upgradable = feeds.filter(feed => feed.httpsUrl).map(feed => feed.url);
+    const selected = upgradable.filter(url => selectedFeeds.has(url));
+    return selected.length > 0 ? selected : upgradable;
+  }, [feeds, selectedFeeds]);
+
   // Handle sort toggle
   const handleSort = (field: SortField) => {
     if (sortField === field) {
@@ -68,6 +86,11 @@ export default function FeedListControls({ feeds, isLoading = false, onSelection
       result = result.filter(feed => (feed.category || 'Uncategorized') === categoryFilter);
     }
 
+    // Apply error code filter
+    if (errorFilter !== 'all') {
+      result = result.filter(feed => feed.failure?.code === errorFilter);
+    }
+
     // Apply search filter (case insensitive)
     if (searchQuery.trim()) {
       const query = searchQuery.trim().toLowerCase();
@@ -99,6 +122,11 @@ export default function FeedListControls({ feeds, isLoading = false, onSelection
           valueA = a.status;
           valueB = b.status;
           break;
+        case 'healthScore':
+          // Feeds not scored yet rank below every scored feed
+          valueA = a.healthScore ?? -1;
+          valueB = b.healthScore ?? -1;
+          break;
         case 'lastUpdate':
           valueA = a.lastUpdate ? new Date(a.lastUpdate).getTime() : 0;
           valueB = b.lastUpdate ? new Date(b.lastUpdate).getTime() : 0;
@@ -123,7 +151,7 @@ export default function FeedListControls({ feeds, isLoading = false, onSelection
     });
 
     return result;
-  }, [feeds, statusFilter, categoryFilter, searchQuery, sortField, sortDirection]);
+  }, [feeds, statusFilter, categoryFilter, errorFilter, searchQuery, sortField, sortDirection]);
 
   // Update selection and selectAll checkbox state when filters change
   useEffect(() => {
@@ -148,7 +176,7 @@ export default function FeedListControls({ feeds, isLoading = false, onSelection
     // We don't modify the selectedFeeds here to preserve selections when filters change
   // Only depend on the filter states and the current selection
   // This prevents potential infinite loops
-  }, [statusFilter, categoryFilter, searchQuery, feeds, selectedFeeds, filteredAndSortedFeeds]);
+  }, [statusFilter, categoryFilter, errorFilter, searchQuery, feeds, selectedFeeds, filteredAndSortedFeeds]);
 
   // Notify parent component when selection changes
   useEffect(() => {
@@ -161,6 +189,7 @@ export default function FeedListControls({ feeds, isLoading = false, onSelection
   const handleResetFilters = () => {
     setStatusFilter('all');
     setCategoryFilter('all');
+    setErrorFilter('all');
     setSearchQuery('');
     setSortField('url');
     setSortDirection('asc');
@@ -289,7 +318,7 @@ export default function FeedListControls({ feeds, isLoading = false, onSelection
                 </svg>
               </button>
             </div>
-            <div class="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div class="grid grid-cols-1 md:grid-cols-4 gap-4">
               {/* Status Filter */}
               <div>
                 <label for="status-filter" class="block text-xs font-medium text-slate-500 mb-1">Status</label>
@@ -302,6 +331,7 @@ export default function FeedListControls({ feeds, isLoading = false, onSelection
                   <option value="all">All Statuses</option>
                   <option value="active">Active</option>
                   <option value="inactive">Inactive</option>
+                  <option value="failing">Failing</option>
                   <option value="dead">Dead</option>
                   <option value="incompatible">Incompatible</option>
                 </select>
@@ -324,6 +354,22 @@ export default function FeedListControls({ feeds, isLoading = false, onSelection
                 </select>
               </div>
 
+              {/* Error Code Filter */}
+              <div>
+                <label for="error-filter" class="block text-xs font-medium text-slate-500 mb-1">Error</label>
+                <select
+                  id="error-filter"
+                  value={errorFilter}
+                  onChange={(e) => setErrorFilter(e.currentTarget.value as FeedErrorCode | 'all')}
+                  class="block w-full rounded-md border-slate-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                >
+                  <option value="all">All Errors</option>
+                  {errorCodes.map(code => (
+                    <option key={code} value={code}>{FEED_ERROR_LABELS[code]}</option>
+                  ))}
+                </select>
+              </div>
+
               {/* Search Filter */}
               <div>
                 <label for="search-filter" class="block text-xs font-medium text-slate-500 mb-1">Search URL</label>
@@ -398,7 +444,19 @@ export default function FeedListControls({ feeds, isLoading = false, onSelection
                 )}
               </div>
 
-              <ExportButton selectedFeeds={selectedFeeds} allFeeds={feeds} />
+              <div class="flex items-center space-x-2">
+                {onUpgradeHttps && httpsUpgradeUrls.length > 0 && (
+                  <button
+                    type="button"
+                    class="inline-flex items-center px-3 py-1 border border-slate-300 text-sm leading-5 font-medium rounded-md text-slate-700 bg-white hover:bg-slate-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-fresh-yellow"
+                    title="Move http:// feeds to the https:// URLs found to serve the same channel"
+                    onClick={() => onUpgradeHttps(httpsUpgradeUrls)}
+                  >
+                    Upgrade {httpsUpgradeUrls.length} to HTTPS
+                  </button>
+                )}
+                <ExportButton selectedFeeds={selectedFeeds} allFeeds={feeds} />
+              </div>
             </div>
           </div>
         )}
@@ -414,6 +472,7 @@ export default function FeedListControls({ feeds, isLoading = false, onSelection
           onSelectFeed={handleSelectFeed}
           onSelectAll={handleSelectAll}
           selectAllChecked={selectAllChecked}
+          onMigrateFeed={onMigrateFeed}
         />
       </div>
     </div>
@@ -3,7 +3,8 @@ import { useSignal } from "@preact/signals";
 import { useEffect } from "preact/hooks";
 import FeedListControls from "./FeedListControls.tsx";
 import ValidationStatus from "./ValidationStatus.tsx";
-import type { FeedRecord } from "../../backend/types/feed.types.ts";
+import DuplicateFeeds from "../components/DuplicateFeeds.tsx";
+import type { DuplicateFeedGroup, FeedRecord } from "../../backend/types/feed.types.ts";
 import { apiFetch } from "../utils/apiFetch.ts";
 
 /**
@@ -16,6 +17,8 @@ export default function FeedManagementIsland() {
   const previousFeeds = useSignal<FeedRecord[]>([]);
   const isLoading = useSignal<boolean>(true);
   const lastUpdateTimestamp = useSignal<number>(Date.now());
+  const duplicateGroups = useSignal<DuplicateFeedGroup[]>([]);
+  const isMerging = useSignal<boolean>(false);
 
   // Selection state
   const selectedFeeds = useSignal<Set<string>>(new Set<string>());
@@ -51,6 +54,77 @@ export default function FeedManagementIsland() {
     } finally {
       isLoading.value = false;
     }
+    await fetchDuplicates();
+  };
+
+  // Load the duplicates report; validation fills in the titles and website links it compares
+  const fetchDuplicates = async () => {
+    try {
+      const response = await apiFetch("/api/duplicates");
+      if (!response.ok) {
+        throw new Error(`Failed to fetch duplicates: ${response.status}`);
+      }
+      const data = await response.json();
+      duplicateGroups.value = data.groups || [];
+    } catch (error) {
+      console.error("Error fetching duplicates:", error);
+    }
+  };
+
+  // Merge duplicate feeds into the one to keep, then refresh the list
+  const mergeFeeds = async (keepUrl: string, mergeUrls: string[]) => {
+    try {
+      isMerging.value = true;
+      const response = await apiFetch("/api/duplicates", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ keepUrl, mergeUrls })
+      });
+      if (!response.ok) {
+        throw new Error(`Failed to merge feeds: ${response.status}`);
+      }
+      await fetchFeeds();
+    } catch (error) {
+      console.error("Error merging feeds:", error);
+    } finally {
+      isMerging.value = false;
+    }
+  };
+
+  // Move a feed to the URL it permanently redirects to (or to an accepted replacement), then refresh the list
+  const migrateFeed = async (url: string, newUrl?: string) => {
+    try {
+      const response = await apiFetch("/api/migrate", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ url, newUrl })
+      });
+      if (!response.ok) {
+        throw new Error(`Failed to migrate feed: ${response.status}`);
+      }
+      await fetchFeeds();
+    } catch (error) {
+      console.error("Error migrating feed:", error);
+    }
+  };
+
+  // Move http:// feeds to their HTTPS equivalents in bulk, then refresh the list
+  const upgradeHttps = async (urls: string[]) => {
+    try {
+      const response = await apiFetch("/api/https-upgrade", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ urls })
+      });
+      if (!response.ok) {
+        throw new Error(`Failed to upgrade feeds to HTTPS: ${response.status}`);
+      }
+      const data = await response.json();
+      console.log(`Upgraded ${data.upgraded?.length || 0} feeds to HTTPS, skipped ${data.skipped?.length || 0}`);
+      await fetchFeeds();
+    } catch (error) {
+      console.error("Error upgrading feeds to HTTPS:", error);
+    }
   };
 
   // Load feeds on component mount
@@ -73,7 +147,18 @@ export default function FeedManagementIsland() {
         feeds={isLoading.value && previousFeeds.value.length > 0 ? previousFeeds.value : feeds.value}
         isLoading={isLoading.value}
         onSelectionChange={(newSelection) => selectedFeeds.value = newSelection}
+        onMigrateFeed={migrateFeed}
+        onUpgradeHttps={upgradeHttps}
       />
+
+      {/* Duplicates report, only when there are duplicates */}
+      {duplicateGroups.value.length > 0 && (
+        <DuplicateFeeds
+          groups={duplicateGroups.value}
+          onMerge={mergeFeeds}
+          isMerging={isMerging.value}
+        />
+      )}
     </div>
   );
 }
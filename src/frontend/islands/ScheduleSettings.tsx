@@ -0,0 +1,167 @@
+// src/frontend/islands/ScheduleSettings.tsx
+import { useSignal } from "@preact/signals";
+import { useEffect } from "preact/hooks";
+import { apiFetch } from "../utils/apiFetch.ts";
+import { SCHEDULE_STATUSES } from "../../backend/revalidationSchedule.ts";
+import type { ValidationSchedule } from "../../backend/types/validation.types.ts";
+import type { FeedStatus } from "../../backend/types/feed.types.ts";
+
+// Interval choices offered for each status, in hours
+const INTERVAL_OPTIONS: { hours: number; label: string }[] = [
+  { hours: 0, label: "Never" },
+  { hours: 6, label: "Every 6 hours" },
+  { hours: 12, label: "Every 12 hours" },
+  { hours: 24, label: "Daily" },
+  { hours: 72, label: "Every 3 days" },
+  { hours: 168, label: "Weekly" },
+  { hours: 720, label: "Monthly" },
+];
+
+const STATUS_LABELS: Record<FeedStatus, string> = {
+  active: "Active",
+  inactive: "Inactive",
+  failing: "Failing",
+  dead: "Dead",
+  incompatible: "Incompatible",
+};
+
+export default function ScheduleSettings() {
+  const schedule = useSignal<ValidationSchedule | null>(null);
+  const isSaving = useSignal<boolean>(false);
+  const isDirty = useSignal<boolean>(false);
+  const error = useSignal<string | null>(null);
+
+  // Load the saved schedule on mount
+  useEffect(() => {
+    (async () => {
+      try {
+        const response = await apiFetch("/api/schedule");
+        if (!response.ok) {
+          throw new Error(`Failed to load schedule: ${response.status} ${response.statusText}`);
+        }
+        schedule.value = await response.json();
+      } catch (err) {
+        console.error("Error loading revalidation schedule:", err);
+        error.value = err instanceof Error ? err.message : String(err);
+      }
+    })();
+  }, []);
+
+  const update = (changes: Partial<ValidationSchedule>) => {
+    if (!schedule.value) {
+      return;
+    }
+    schedule.value = { ...schedule.value, ...changes };
+    isDirty.value = true;
+  };
+
+  const save = async () => {
+    if (!schedule.value) {
+      return;
+    }
+    try {
+      isSaving.value = true;
+      error.value = null;
+      const response = await apiFetch("/api/schedule", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          enabled: schedule.value.enabled,
+          intervalHours: schedule.value.intervalHours,
+        }),
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || `Failed to save schedule: ${response.status} ${response.statusText}`);
+      }
+      schedule.value = await response.json();
+      isDirty.value = false;
+    } catch (err) {
+      console.error("Error saving revalidation schedule:", err);
+      error.value = err instanceof Error ? err.message : String(err);
+    } finally {
+      isSaving.value = false;
+    }
+  };
+
+  return (
+    <div class="w-full bg-white/90 backdrop-blur-sm rounded-lg shadow-sm border border-fresh-teal/30 overflow-hidden">
+      <div class="px-6 py-5 border-b border-fresh-teal/20 flex items-center justify-between">
+        <div>
+          <h3 class="text-lg font-medium text-slate-900">Scheduled Revalidation</h3>
+          <p class="text-sm text-slate-500">Automatically revalidate your feeds by status</p>
+        </div>
+        {schedule.value && (
+          <label class="inline-flex items-center cursor-pointer">
+            <input
+              type="checkbox"
+              class="h-4 w-4 text-fresh-teal border-slate-300 rounded focus:ring-fresh-teal"
+              checked={schedule.value.enabled}
+              onChange={(e) => update({ enabled: (e.target as HTMLInputElement).checked })}
+            />
+            <span class="ml-2 text-sm font-medium text-slate-700">Enabled</span>
+          </label>
+        )}
+      </div>
+
+      <div class="p-6">
+        {!schedule.value && !error.value && (
+          <p class="text-sm text-slate-500">Loading schedule...</p>
+        )}
+
+        {schedule.value && (
+          <div class="grid grid-cols-1 md:grid-cols-5 gap-4">
+            {SCHEDULE_STATUSES.map((status) => {
+              const hours = schedule.value!.intervalHours[status];
+              const lastRun = schedule.value!.lastRuns[status];
+              return (
+                <div key={status}>
+                  <label class="block text-sm font-medium text-slate-700 mb-1">{STATUS_LABELS[status]}</label>
+                  <select
+                    class="block w-full pl-3 pr-10 py-2 text-sm border-slate-300 focus:outline-none focus:ring-fresh-teal focus:border-fresh-teal rounded-md disabled:opacity-50"
+                    value={hours}
+                    disabled={!schedule.value!.enabled}
+                    onChange={(e) => update({
+                      intervalHours: {
+                        ...schedule.value!.intervalHours,
+                        [status]: Number((e.target as HTMLSelectElement).value),
+                      },
+                    })}
+                  >
+                    {/* Keep intervals set through the API selectable */}
+                    {!INTERVAL_OPTIONS.some((option) => option.hours === hours) && (
+                      <option value={hours}>Every {hours} hours</option>
+                    )}
+                    {INTERVAL_OPTIONS.map((option) => (
+                      <option key={option.hours} value={option.hours}>{option.label}</option>
+                    ))}
+                  </select>
+                  <p class="mt-1 text-xs text-slate-500">
+                    {lastRun ? `Last run ${new Date(lastRun).toLocaleString()}` : "Not run yet"}
+                  </p>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {error.value && (
+          <p class="mt-4 text-sm text-red-600">{error.value}</p>
+        )}
+
+        {schedule.value && (
+          <div class="mt-4 flex justify-end">
+            <button
+              type="button"
+              onClick={save}
+              disabled={!isDirty.value || isSaving.value}
+              class="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-slate-800 bg-fresh-yellow hover:bg-yellow-400 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-fresh-yellow disabled:bg-slate-300 disabled:cursor-not-allowed"
+            >
+              {isSaving.value ? "Saving..." : "Save Schedule"}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -15,11 +15,12 @@ interface ValidationStatusProps {
 
 export default function ValidationStatus({ feedCount, selectedFeeds, allFeeds, onValidationComplete }: ValidationStatusProps) {
   // Validation state management
-  const validationState = useSignal<'idle' | 'starting' | 'polling' | 'processing' | 'completed' | 'error'>('idle');
+  const validationState = useSignal<'idle' | 'starting' | 'polling' | 'processing' | 'paused' | 'completed' | 'cancelled' | 'error'>('idle');
   const validationId = useSignal<string | null>(null);
   const validationProgressDetails = useSignal<ValidationProgress | null>(null);
   const validationError = useSignal<string | null>(null);
   const lastUpdateTimestamp = useSignal<number>(Date.now());
+  const isControlPending = useSignal<boolean>(false);
   const pollingIntervalRef = useRef<number | null>(null);
 
   // Clean up polling on unmount
@@ -82,6 +83,49 @@ export default function ValidationStatus({ feedCount, selectedFeeds, allFeeds, o
     }
   };
 
+  // Pause, resume or cancel the running validation
+  const handleControl = async (action: 'pause' | 'resume' | 'cancel') => {
+    if (!validationId.value) {
+      return;
+    }
+    try {
+      isControlPending.value = true;
+      const response = await apiFetch("/api/validation-control", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ validationId: validationId.value, action }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || `Failed to ${action} validation: ${response.status} ${response.statusText}`);
+      }
+
+      const session = await response.json();
+      if (session.status === 'paused') {
+        validationState.value = 'paused';
+      } else if (session.status === 'processing') {
+        validationState.value = 'processing';
+      } else if (session.status === 'cancelled') {
+        validationState.value = 'cancelled';
+        clearInterval(pollingIntervalRef.current!);
+        pollingIntervalRef.current = null;
+
+        // Show the results stored before the cancellation
+        if (onValidationComplete) {
+          onValidationComplete();
+        }
+      }
+    } catch (error) {
+      // The polling loop keeps reporting the actual session state
+      console.error(`Error trying to ${action} validation:`, error);
+    } finally {
+      isControlPending.value = false;
+    }
+  };
+
   // Poll for validation status updates
   const startPollingValidationStatus = () => {
     if (pollingIntervalRef.current !== null) {
@@ -118,6 +162,17 @@ export default function ValidationStatus({ feedCount, selectedFeeds, allFeeds, o
             if (onValidationComplete) {
               onValidationComplete();
             }
+          } else if (data.status === 'cancelled') {
+            validationState.value = 'cancelled';
+            clearInterval(pollingIntervalRef.current!);
+            pollingIntervalRef.current = null;
+
+            if (onValidationComplete) {
+              onValidationComplete();
+            }
+          } else if (data.status === 'paused') {
+            validationState.value = 'paused';
+            validationProgressDetails.value = data.progress || null;
           } else if (data.status === 'error') {
             validationState.value = 'error';
             validationError.value = data.error || 'Unknown error occurred during validation';
@@ -167,6 +222,22 @@ export default function ValidationStatus({ feedCount, selectedFeeds, allFeeds, o
             Processing
           </span>
         )}
+        {validationState.value === 'paused' && (
+          <span class="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800">
+            <svg class="-ml-0.5 mr-1.5 h-2 w-2 text-yellow-400" fill="currentColor" viewBox="0 0 8 8">
+              <circle cx="4" cy="4" r="3" />
+            </svg>
+            Paused
+          </span>
+        )}
+        {validationState.value === 'cancelled' && (
+          <span class="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-slate-100 text-slate-800">
+            <svg class="-ml-0.5 mr-1.5 h-2 w-2 text-slate-400" fill="currentColor" viewBox="0 0 8 8">
+              <circle cx="4" cy="4" r="3" />
+            </svg>
+            Cancelled
+          </span>
+        )}
         {validationState.value === 'completed' && (
           <span class="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-fresh-mint/40 text-slate-800">
             <svg class="-ml-0.5 mr-1.5 h-2 w-2 text-fresh-teal" fill="currentColor" viewBox="0 0 8 8">
@@ -239,8 +310,8 @@ export default function ValidationStatus({ feedCount, selectedFeeds, allFeeds, o
           </div>
         )}
 
-        {/* Processing with progress bar */}
-        {validationState.value === 'processing' && validationProgressDetails.value && (
+        {/* Processing (or paused) with progress bar */}
+        {(validationState.value === 'processing' || validationState.value === 'paused') && validationProgressDetails.value && (
           <div class="transition-all duration-300 ease-in-out" key={lastUpdateTimestamp.value}>
             <div class="mb-2 flex justify-between items-center">
               <span class="text-sm font-medium text-slate-700">Validation Progress</span>
@@ -275,6 +346,48 @@ export default function ValidationStatus({ feedCount, selectedFeeds, allFeeds, o
           </div>
         )}
 
+        {/* Pause, resume and cancel controls */}
+        {(validationState.value === 'processing' || validationState.value === 'paused') && (
+          <div class="mt-4 flex justify-center space-x-3">
+            {validationState.value === 'processing' ? (
+              <button
+                type="button"
+                onClick={() => handleControl('pause')}
+                disabled={isControlPending.value}
+                class="inline-flex items-center px-3 py-1.5 border border-slate-300 text-sm font-medium rounded-md text-slate-700 bg-white hover:bg-slate-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-fresh-teal disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <svg class="-ml-0.5 mr-1.5 h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+                  <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M10 9v6m4-6v6" />
+                </svg>
+                Pause
+              </button>
+            ) : (
+              <button
+                type="button"
+                onClick={() => handleControl('resume')}
+                disabled={isControlPending.value}
+                class="inline-flex items-center px-3 py-1.5 border border-transparent text-sm font-medium rounded-md text-slate-800 bg-fresh-yellow hover:bg-yellow-400 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-fresh-yellow disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <svg class="-ml-0.5 mr-1.5 h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+                  <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M14.752 11.168l-3.197-2.132A1 1 0 0010 9.87v4.263a1 1 0 001.555.832l3.197-2.132a1 1 0 000-1.664z" />
+                </svg>
+                Resume
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={() => handleControl('cancel')}
+              disabled={isControlPending.value}
+              class="inline-flex items-center px-3 py-1.5 border border-red-200 text-sm font-medium rounded-md text-red-700 bg-white hover:bg-red-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <svg class="-ml-0.5 mr-1.5 h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+                <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M6 18L18 6M6 6l12 12" />
+              </svg>
+              Cancel
+            </button>
+          </div>
+        )}
+
         {/* Processing without details */}
         {validationState.value === 'processing' && !validationProgressDetails.value && (
           <div class="text-center py-4">
@@ -320,6 +433,37 @@ export default function ValidationStatus({ feedCount, selectedFeeds, allFeeds, o
           </div>
         )}
 
+        {/* Cancelled state */}
+        {validationState.value === 'cancelled' && (
+          <div class="text-center">
+            <h3 class="text-lg font-medium text-slate-900 mb-1">Validation Cancelled</h3>
+            <p class="text-slate-600 mb-4">
+              {validationProgressDetails.value
+                ? `${validationProgressDetails.value.processedFeeds} of ${validationProgressDetails.value.totalFeeds} feeds were validated before cancelling.`
+                : 'The validation was cancelled.'}
+            </p>
+            <button
+              type="button"
+              onClick={() => {
+                // If there are selected feeds, validate only those
+                // Otherwise, validate all feeds
+                const validateSelected = selectedFeeds && selectedFeeds.size > 0 && selectedFeeds.size < feedCount;
+                handleValidate(validateSelected);
+              }}
+              class="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-slate-800 bg-fresh-yellow hover:bg-yellow-400 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-fresh-yellow"
+              disabled={feedCount === 0}
+            >
+              <svg class="-ml-1 mr-2 h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+                <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+              </svg>
+              {selectedFeeds && selectedFeeds.size > 0 && selectedFeeds.size < feedCount
+                ? `Validate Selected (${selectedFeeds.size})`
+                : `Validate All Feeds (${feedCount})`
+              }
+            </button>
+          </div>
+        )}
+
         {/* Error state */}
         {validationState.value === 'error' && (
           <div class="text-center">
@@ -9,5 +9,65 @@
 import { start } from "$fresh/server.ts";
 import manifest from "./fresh.gen.ts";
 import config from "./fresh.config.ts";
+import { createLogger } from "../utils/logger.ts";
+import { KVStorageService } from "../backend/services/storage/index.ts";
+import {
+  REVALIDATION_CRON_SCHEDULE,
+  runScheduledRevalidation,
+  ValidationServiceImpl,
+} from "../backend/services/validation/index.ts";
+import { getMockWebSocketService } from "../backend/services/websocket/mock-websocket.service.ts";
+import { WEBSUB_RENEWAL_CRON_SCHEDULE, WebSubServiceImpl } from "../backend/services/websub/index.ts";
+import { loadValidationConfig } from "../backend/validationConfig.ts";
+import { loadValidationRules } from "../backend/validationRules.ts";
+
+const logger = createLogger("main");
+
+// Reuse one storage service for the startup recovery and every cron tick
+let storageInstance: KVStorageService | null = null;
+
+/**
+ * Get or create the storage service instance
+ */
+async function getStorageService(): Promise<KVStorageService> {
+  if (!storageInstance) {
+    storageInstance = await KVStorageService.initialize();
+  }
+  return storageInstance;
+}
+
+// Load the custom validation rules before serving, so that a broken module stops the server
+// instead of failing every validation
+try {
+  await loadValidationRules(loadValidationConfig().rulesModule);
+} catch (error) {
+  logger.error("Failed to load custom validation rules:", error);
+  Deno.exit(1);
+}
+
+// Resume validations interrupted by a restart or deployment, without delaying startup
+getStorageService()
+  .then((storage) => new ValidationServiceImpl(storage, getMockWebSocketService()).recoverOrphanedSessions())
+  .catch((error) => logger.error("Failed to recover orphaned validation sessions:", error));
+
+// Revalidate the feeds of users with a due schedule; Deno Deploy requires crons to be registered at startup
+Deno.cron("revalidate-feeds", REVALIDATION_CRON_SCHEDULE, async () => {
+  try {
+    const storage = await getStorageService();
+    await runScheduledRevalidation(storage, getMockWebSocketService());
+  } catch (error) {
+    logger.error("Scheduled revalidation failed:", error);
+  }
+});
+
+// Renew WebSub leases before the hubs let them expire; does nothing unless WEBSUB_CALLBACK_BASE_URL is set
+Deno.cron("renew-websub-leases", WEBSUB_RENEWAL_CRON_SCHEDULE, async () => {
+  try {
+    const storage = await getStorageService();
+    await new WebSubServiceImpl(storage).renewLeases();
+  } catch (error) {
+    logger.error("WebSub lease renewal failed:", error);
+  }
+});
 
 await start(manifest, config);
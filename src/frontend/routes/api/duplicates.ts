@@ -0,0 +1,95 @@
+// src/frontend/routes/api/duplicates.ts
+import { Handlers } from "$fresh/server.ts";
+import { createLogger } from "../../../utils/logger.ts";
+import { extractUserIdFromRequest } from "../../../utils/user.ts";
+import { KVStorageService } from "../../../backend/services/storage/index.ts";
+import { findDuplicateFeeds } from "../../../backend/duplicateFeeds.ts";
+
+// Reuse storage service singleton
+let storageInstance: KVStorageService | null = null;
+
+/**
+ * Get or create the storage service instance
+ */
+async function getStorageService(): Promise<KVStorageService> {
+  if (!storageInstance) {
+    storageInstance = await KVStorageService.initialize();
+  }
+  return storageInstance;
+}
+
+const logger = createLogger("api:duplicates");
+
+export const handler: Handlers = {
+  /**
+   * GET handler returning the user's duplicate feeds, in groups with the feed suggested to keep first
+   */
+  async GET(req) {
+    // Multi-user support: extract userId from headers
+    const [userId, errorResponse] = extractUserIdFromRequest(req);
+    if (errorResponse) return errorResponse;
+
+    try {
+      const storage = await getStorageService();
+      const groups = findDuplicateFeeds(await storage.listAllFeeds(userId!));
+      return new Response(JSON.stringify({ groups }), {
+        headers: { "Content-Type": "application/json" }
+      });
+    } catch (error) {
+      logger.error("Error finding duplicate feeds:", error);
+      return new Response(JSON.stringify({
+        error: "Failed to find duplicate feeds",
+        message: error instanceof Error ? error.message : String(error)
+      }), {
+        status: 500,
+        headers: { "Content-Type": "application/json" }
+      });
+    }
+  },
+
+  /**
+   * POST handler to merge duplicate feeds into the one to keep
+   * Body: { keepUrl: string, mergeUrls: string[] } - the merged feeds are deleted and their URLs kept as aliases
+   */
+  async POST(req) {
+    // Multi-user support: extract userId from headers
+    const [userId, errorResponse] = extractUserIdFromRequest(req);
+    if (errorResponse) return errorResponse;
+
+    try {
+      const { keepUrl, mergeUrls }: { keepUrl?: string; mergeUrls?: string[] } = await req.json();
+      if (!keepUrl || !Array.isArray(mergeUrls) || mergeUrls.length === 0 || mergeUrls.some((url) => typeof url !== "string")) {
+        return new Response(JSON.stringify({ error: "Missing keepUrl or mergeUrls" }), {
+          status: 400,
+          headers: { "Content-Type": "application/json" }
+        });
+      }
+
+      const storage = await getStorageService();
+      for (const url of [keepUrl, ...mergeUrls]) {
+        if (!await storage.getFeedData(userId!, url)) {
+          return new Response(JSON.stringify({ error: `Feed not found: ${url}` }), {
+            status: 404,
+            headers: { "Content-Type": "application/json" }
+          });
+        }
+      }
+
+      const feed = await storage.mergeFeeds(userId!, keepUrl, mergeUrls);
+      logger.info(`Merged ${mergeUrls.join(", ")} into ${keepUrl}`);
+
+      return new Response(JSON.stringify(feed), {
+        headers: { "Content-Type": "application/json" }
+      });
+    } catch (error) {
+      logger.error("Error merging duplicate feeds:", error);
+      return new Response(JSON.stringify({
+        error: "Failed to merge duplicate feeds",
+        message: error instanceof Error ? error.message : String(error)
+      }), {
+        status: 500,
+        headers: { "Content-Type": "application/json" }
+      });
+    }
+  }
+};
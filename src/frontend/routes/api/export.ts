@@ -11,6 +11,7 @@ interface ExportRequest {
   options?: {
     includeValidationHistory?: boolean;
     includeCategoryStructure?: boolean; 
+    useNewUrls?: boolean;
   };
 }
 
@@ -42,7 +43,8 @@ export const handler: Handlers = {
       
       const opmlContent = generateOPMLForExport(feedCollection, { 
         title: "Exported Feeds",
-        includeAllStatuses: true  // Previously, export could filter by status, but since frontend filtering is now available, we always export all statuses by default.
+        includeAllStatuses: true,  // Previously, export could filter by status, but since frontend filtering is now available, we always export all statuses by default.
+        useNewUrls: options?.useNewUrls
       });
       
       // Create download response with simplified filename format
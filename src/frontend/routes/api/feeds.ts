@@ -5,6 +5,7 @@ import { extractUserIdFromRequest } from "../../../utils/user.ts";
 import { KVStorageService } from "../../../backend/services/storage/index.ts";
 import type { ListFeedsOptions, ListFeedsResult } from "../../../backend/types/storage.types.ts";
 import type { FeedStatus } from "../../../backend/types/feed.types.ts";
+import { isFeedErrorCode } from "../../../backend/feedErrors.ts";
 
 // Reuse storage service singleton
 let storageInstance: KVStorageService | null = null;
@@ -37,9 +38,15 @@ export const handler: Handlers = {
       
       // Handle status filter with type safety
       const status = url.searchParams.get("status");
-      if (status && ["active", "inactive", "dead", "incompatible"].includes(status)) {
+      if (status && ["active", "inactive", "failing", "dead", "incompatible"].includes(status)) {
         options.status = status as FeedStatus;
       }
+
+      // Handle error code filter (e.g. ?errorCode=HTTP_4XX)
+      const errorCode = url.searchParams.get("errorCode");
+      if (isFeedErrorCode(errorCode)) {
+        options.errorCode = errorCode;
+      }
       
       // Extract userId from headers (multi-user support)
       const [userId, errorResponse] = extractUserIdFromRequest(req);
@@ -0,0 +1,86 @@
+// src/frontend/routes/api/https-upgrade.ts
+import { Handlers } from "$fresh/server.ts";
+import { createLogger } from "../../../utils/logger.ts";
+import { extractUserIdFromRequest } from "../../../utils/user.ts";
+import { KVStorageService } from "../../../backend/services/storage/index.ts";
+
+// Reuse storage service singleton
+let storageInstance: KVStorageService | null = null;
+
+/**
+ * Get or create the storage service instance
+ */
+async function getStorageService(): Promise<KVStorageService> {
+  if (!storageInstance) {
+    storageInstance = await KVStorageService.initialize();
+  }
+  return storageInstance;
+}
+
+const logger = createLogger("api:https-upgrade");
+
+/**
+ * Lists the URLs of all feeds of a user for which validation found an HTTPS equivalent
+ */
+async function listUpgradableUrls(storage: KVStorageService, userId: string): Promise<string[]> {
+  const feeds = await storage.listAllFeeds(userId);
+  return feeds.filter((feed) => feed.httpsUrl).map((feed) => feed.url);
+}
+
+export const handler: Handlers = {
+  /**
+   * POST handler to move http:// feeds to the https:// URL found to serve the same channel
+   * Body: { urls?: string[] } - defaults to all feeds with an HTTPS equivalent; the old URLs are kept as aliases.
+   * Feeds without a verified HTTPS equivalent are skipped, so only URLs checked during validation are rewritten.
+   */
+  async POST(req) {
+    // Multi-user support: extract userId from headers
+    const [userId, errorResponse] = extractUserIdFromRequest(req);
+    if (errorResponse) return errorResponse;
+
+    try {
+      const { urls }: { urls?: string[] } = await req.json().catch(() => ({}));
+      if (urls !== undefined && (!Array.isArray(urls) || urls.some((url) => typeof url !== "string"))) {
+        return new Response(JSON.stringify({ error: "urls must be an array of feed URLs" }), {
+          status: 400,
+          headers: { "Content-Type": "application/json" }
+        });
+      }
+
+      const storage = await getStorageService();
+      const upgraded: { url: string; newUrl: string }[] = [];
+      const skipped: { url: string; reason: string }[] = [];
+      for (const url of urls ?? await listUpgradableUrls(storage, userId!)) {
+        const existing = await storage.getFeedData(userId!, url);
+        const httpsUrl = existing?.value.httpsUrl;
+        if (!existing) {
+          skipped.push({ url, reason: "Feed not found" });
+        } else if (!httpsUrl || !httpsUrl.startsWith("https:")) {
+          skipped.push({ url, reason: "No HTTPS equivalent found during validation" });
+        } else {
+          try {
+            await storage.migrateFeedUrl(userId!, url, httpsUrl);
+            upgraded.push({ url, newUrl: httpsUrl });
+          } catch (error) {
+            logger.warn(`Failed to upgrade feed ${url} to ${httpsUrl}:`, error);
+            skipped.push({ url, reason: error instanceof Error ? error.message : String(error) });
+          }
+        }
+      }
+      logger.info(`Upgraded ${upgraded.length} feeds to HTTPS, skipped ${skipped.length}`);
+
+      return new Response(JSON.stringify({ upgraded, skipped }), {
+        headers: { "Content-Type": "application/json" }
+      });
+    } catch (error) {
+      logger.error("Error upgrading feeds to HTTPS:", error);
+      return new Response(JSON.stringify({
+        error: "Failed to upgrade feeds to HTTPS",
+        message: error instanceof Error ? error.message : String(error)
+      }), {
+        status: 500,
+        headers: { "Content-Type": "application/json" }
+      });
+    }
+  }
+};
@@ -0,0 +1,97 @@
+// src/frontend/routes/api/migrate.ts
+import { Handlers } from "$fresh/server.ts";
+import { createLogger } from "../../../utils/logger.ts";
+import { extractUserIdFromRequest } from "../../../utils/user.ts";
+import { KVStorageService } from "../../../backend/services/storage/index.ts";
+
+// Reuse storage service singleton
+let storageInstance: KVStorageService | null = null;
+
+/**
+ * Get or create the storage service instance
+ */
+async function getStorageService(): Promise<KVStorageService> {
+  if (!storageInstance) {
+    storageInstance = await KVStorageService.initialize();
+  }
+  return storageInstance;
+}
+
+const logger = createLogger("api:migrate");
+
+/**
+ * Tests if a string is an absolute http(s) URL
+ */
+function isHttpUrl(value: string): boolean {
+  if (!URL.canParse(value)) {
+    return false;
+  }
+  const { protocol } = new URL(value);
+  return protocol === "http:" || protocol === "https:";
+}
+
+export const handler: Handlers = {
+  /**
+   * POST handler to migrate a feed to the target of its permanent redirect or to a replacement URL
+   * Body: { url: string, newUrl?: string } - newUrl defaults to the redirect target found during validation;
+   * pass the feed's suggestedUrl, moveSignal.url or httpsUrl to accept another replacement found during validation.
+   * Any other newUrl is refused, as it becomes the feed's key, alias and exported xmlUrl.
+   */
+  async POST(req) {
+    // Multi-user support: extract userId from headers
+    const [userId, errorResponse] = extractUserIdFromRequest(req);
+    if (errorResponse) return errorResponse;
+
+    try {
+      const { url, newUrl }: { url?: string; newUrl?: string } = await req.json();
+      if (!url) {
+        return new Response(JSON.stringify({ error: "Missing url" }), {
+          status: 400,
+          headers: { "Content-Type": "application/json" }
+        });
+      }
+
+      const storage = await getStorageService();
+      const existing = await storage.getFeedData(userId!, url);
+      if (!existing) {
+        return new Response(JSON.stringify({ error: "Feed not found" }), {
+          status: 404,
+          headers: { "Content-Type": "application/json" }
+        });
+      }
+
+      const targetUrl = newUrl || existing.value.movedTo;
+      if (!targetUrl) {
+        return new Response(JSON.stringify({ error: "Feed has no permanent redirect to migrate to" }), {
+          status: 400,
+          headers: { "Content-Type": "application/json" }
+        });
+      }
+
+      const { movedTo, suggestedUrl, moveSignal, httpsUrl } = existing.value;
+      const offeredUrls = [movedTo, suggestedUrl, moveSignal?.url, httpsUrl];
+      if (!offeredUrls.includes(targetUrl) || !isHttpUrl(targetUrl)) {
+        return new Response(JSON.stringify({ error: "newUrl must be a replacement found while validating the feed" }), {
+          status: 400,
+          headers: { "Content-Type": "application/json" }
+        });
+      }
+
+      const feed = await storage.migrateFeedUrl(userId!, url, targetUrl);
+      logger.info(`Migrated feed ${url} to ${targetUrl}`);
+
+      return new Response(JSON.stringify(feed), {
+        headers: { "Content-Type": "application/json" }
+      });
+    } catch (error) {
+      logger.error("Error migrating feed:", error);
+      return new Response(JSON.stringify({
+        error: "Failed to migrate feed",
+        message: error instanceof Error ? error.message : String(error)
+      }), {
+        status: 500,
+        headers: { "Content-Type": "application/json" }
+      });
+    }
+  }
+};
@@ -0,0 +1,98 @@
+// src/frontend/routes/api/policy.ts
+import { Handlers } from "$fresh/server.ts";
+import { createLogger } from "../../../utils/logger.ts";
+import { extractUserIdFromRequest } from "../../../utils/user.ts";
+import { KVStorageService } from "../../../backend/services/storage/index.ts";
+import { createDefaultPolicySettings, parsePolicySettings } from "../../../backend/activityPolicy.ts";
+
+// Reuse storage service singleton
+let storageInstance: KVStorageService | null = null;
+
+/**
+ * Get or create the storage service instance
+ */
+async function getStorageService(): Promise<KVStorageService> {
+  if (!storageInstance) {
+    storageInstance = await KVStorageService.initialize();
+  }
+  return storageInstance;
+}
+
+const logger = createLogger("api:policy");
+
+export const handler: Handlers = {
+  /**
+   * GET handler returning the user's activity policy settings, or the built-in policy
+   */
+  async GET(req) {
+    // Multi-user support: extract userId from headers
+    const [userId, errorResponse] = extractUserIdFromRequest(req);
+    if (errorResponse) return errorResponse;
+
+    try {
+      const storage = await getStorageService();
+      const settings = await storage.getActivityPolicySettings(userId!) ?? createDefaultPolicySettings();
+      return new Response(JSON.stringify(settings), {
+        headers: { "Content-Type": "application/json" }
+      });
+    } catch (error) {
+      logger.error("Error loading activity policy:", error);
+      return new Response(JSON.stringify({
+        error: "Failed to load activity policy",
+        message: error instanceof Error ? error.message : String(error)
+      }), {
+        status: 500,
+        headers: { "Content-Type": "application/json" }
+      });
+    }
+  },
+
+  /**
+   * PUT handler to replace the user's activity policy settings
+   * Body: { default: ActivityPolicy, categories?: { [category]: Partial<ActivityPolicy> } }
+   * Applies to validations started afterwards; running sessions keep the policy they started with
+   */
+  async PUT(req) {
+    // Multi-user support: extract userId from headers
+    const [userId, errorResponse] = extractUserIdFromRequest(req);
+    if (errorResponse) return errorResponse;
+
+    try {
+      let body: unknown;
+      try {
+        body = await req.json();
+      } catch {
+        return new Response(JSON.stringify({ error: "Invalid JSON body" }), {
+          status: 400,
+          headers: { "Content-Type": "application/json" }
+        });
+      }
+
+      const parsed = parsePolicySettings(body);
+      if ("error" in parsed) {
+        return new Response(JSON.stringify({ error: parsed.error }), {
+          status: 400,
+          headers: { "Content-Type": "application/json" }
+        });
+      }
+
+      const settings = { ...parsed, updatedAt: new Date().toISOString() };
+      const storage = await getStorageService();
+      await storage.saveActivityPolicySettings(userId!, settings);
+      logger.info(`Updated activity policy for user ${userId} (${Object.keys(settings.categories).length} category overrides)`);
+
+      return new Response(JSON.stringify(settings), {
+        headers: { "Content-Type": "application/json" }
+      });
+    } catch (error) {
+      logger.error("Error saving activity policy:", error);
+      return new Response(JSON.stringify({
+        error: "Failed to save activity policy",
+        message: error instanceof Error ? error.message : String(error)
+      }), {
+        status: 500,
+        headers: { "Content-Type": "application/json" }
+      });
+    }
+  }
+};
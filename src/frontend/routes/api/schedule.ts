@@ -0,0 +1,103 @@
+// src/frontend/routes/api/schedule.ts
+import { Handlers } from "$fresh/server.ts";
+import { createLogger } from "../../../utils/logger.ts";
+import { extractUserIdFromRequest } from "../../../utils/user.ts";
+import { KVStorageService } from "../../../backend/services/storage/index.ts";
+import { createDefaultSchedule, parseScheduleSettings } from "../../../backend/revalidationSchedule.ts";
+
+// Reuse storage service singleton
+let storageInstance: KVStorageService | null = null;
+
+/**
+ * Get or create the storage service instance
+ */
+async function getStorageService(): Promise<KVStorageService> {
+  if (!storageInstance) {
+    storageInstance = await KVStorageService.initialize();
+  }
+  return storageInstance;
+}
+
+const logger = createLogger("api:schedule");
+
+export const handler: Handlers = {
+  /**
+   * GET handler returning the user's revalidation schedule, or the disabled default schedule
+   */
+  async GET(req) {
+    // Multi-user support: extract userId from headers
+    const [userId, errorResponse] = extractUserIdFromRequest(req);
+    if (errorResponse) return errorResponse;
+
+    try {
+      const storage = await getStorageService();
+      const schedule = await storage.getValidationSchedule(userId!) ?? createDefaultSchedule();
+      return new Response(JSON.stringify(schedule), {
+        headers: { "Content-Type": "application/json" }
+      });
+    } catch (error) {
+      logger.error("Error loading revalidation schedule:", error);
+      return new Response(JSON.stringify({
+        error: "Failed to load revalidation schedule",
+        message: error instanceof Error ? error.message : String(error)
+      }), {
+        status: 500,
+        headers: { "Content-Type": "application/json" }
+      });
+    }
+  },
+
+  /**
+   * PUT handler to update the user's revalidation schedule
+   * Body: { enabled: boolean, intervalHours: { [status]: number } } - 0 hours never revalidates that status
+   */
+  async PUT(req) {
+    // Multi-user support: extract userId from headers
+    const [userId, errorResponse] = extractUserIdFromRequest(req);
+    if (errorResponse) return errorResponse;
+
+    try {
+      let body: unknown;
+      try {
+        body = await req.json();
+      } catch {
+        return new Response(JSON.stringify({ error: "Invalid JSON body" }), {
+          status: 400,
+          headers: { "Content-Type": "application/json" }
+        });
+      }
+
+      const settings = parseScheduleSettings(body);
+      if ("error" in settings) {
+        return new Response(JSON.stringify({ error: settings.error }), {
+          status: 400,
+          headers: { "Content-Type": "application/json" }
+        });
+      }
+
+      // Keep the times of previous runs so saving does not trigger an immediate revalidation
+      const storage = await getStorageService();
+      const current = await storage.getValidationSchedule(userId!) ?? createDefaultSchedule();
+      const schedule = {
+        ...current,
+        ...settings,
+        updatedAt: new Date().toISOString()
+      };
+      await storage.saveValidationSchedule(userId!, schedule);
+      logger.info(`Updated revalidation schedule for user ${userId} (enabled: ${schedule.enabled})`);
+
+      return new Response(JSON.stringify(schedule), {
+        headers: { "Content-Type": "application/json" }
+      });
+    } catch (error) {
+      logger.error("Error saving revalidation schedule:", error);
+      return new Response(JSON.stringify({
+        error: "Failed to save revalidation schedule",
+        message: error instanceof Error ? error.message : String(error)
+      }), {
+        status: 500,
+        headers: { "Content-Type": "application/json" }
+      });
+    }
+  }
+};
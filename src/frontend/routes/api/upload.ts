@@ -3,7 +3,7 @@ import { createLogger } from "../../../utils/logger.ts";
 import { extractUserIdFromRequest } from "../../../utils/user.ts";
 import { parseOpmlContents } from "../../../backend/parseOPML.ts";
 import { KVStorageService } from "../../../backend/services/storage/index.ts";
-import type { FeedRecord } from "../../../backend/types/feed.types.ts";
+import type { FeedRecord, OpmlDuplicate } from "../../../backend/types/feed.types.ts";
 
 const logger = createLogger("api:upload");
 
@@ -74,7 +74,7 @@ export const handler: Handlers = {
       // Parse OPML
       let opmlData;
       try {
-        opmlData = await parseOpmlContents(new Uint8Array(arrayBuffer));
+        opmlData = await parseOpmlContents(new Uint8Array(arrayBuffer), file.type);
       } catch (error) {
         logger.error(`Error parsing OPML: ${error}`);
         return new Response(JSON.stringify({
@@ -98,11 +98,27 @@ export const handler: Handlers = {
       
       // Process each category and its feeds
       logger.info(`Processing ${Object.keys(opmlData.categories).length} categories, saving to database...`);
+      // Feeds are stored by URL, so a feed listed twice keeps its first category
+      const storedCategories = new Map<string, string>();
+      const duplicates: OpmlDuplicate[] = [];
       for (const [category, feeds] of Object.entries(opmlData.categories)) {
         for (const feed of feeds) {
+          // Feeds migrated after a permanent redirect are stored under their new URL
+          const canonicalUrl = await storage.resolveFeedAlias(userId!, feed.url) ?? feed.url;
+          if (canonicalUrl !== feed.url) {
+            logger.debug(`Feed ${feed.url} is an alias of ${canonicalUrl}`);
+          }
+          const keptCategory = storedCategories.get(canonicalUrl);
+          if (keptCategory !== undefined) {
+            logger.warn(`Skipping feed ${feed.url} in category ${category}: already listed in ${keptCategory}`);
+            duplicates.push({ url: feed.url, category, keptCategory });
+            continue;
+          }
+          storedCategories.set(canonicalUrl, category);
+          const existing = await storage.getFeedData(userId!, canonicalUrl);
           const feedRecord: FeedRecord = {
             userId: userId!, // Multi-user: associate feed with user
-            url: feed.url,
+            url: canonicalUrl,
             text: feed.text,
             title: feed.title,
             type: feed.type,
@@ -114,7 +130,8 @@ export const handler: Handlers = {
             incompatibleReason: feed.incompatibleReason,
             category,
             lastValidated: null as string | null,
-            validationHistory: []
+            validationHistory: [],
+            aliases: existing?.value.aliases
           };
           await storage.saveFeedData(userId!, feedRecord);
         }
@@ -125,7 +142,9 @@ export const handler: Handlers = {
       return new Response(JSON.stringify({
         id: uploadId,
         status: "uploaded",
-        filename: file.name
+        filename: file.name,
+        // Feeds listed in several categories, stored under their first category only
+        duplicates
       }), {
         status: 200,
         headers: { "Content-Type": "application/json" }
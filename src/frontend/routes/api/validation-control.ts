@@ -0,0 +1,91 @@
+// src/frontend/routes/api/validation-control.ts
+import { Handlers } from "$fresh/server.ts";
+import { createLogger } from "../../../utils/logger.ts";
+import { extractUserIdFromRequest } from "../../../utils/user.ts";
+import { KVStorageService } from "../../../backend/services/storage/index.ts";
+import { ValidationServiceImpl } from "../../../backend/services/validation/index.ts";
+import { getMockWebSocketService } from "../../../backend/services/websocket/mock-websocket.service.ts";
+import type { ValidationSession } from "../../../backend/types/validation.types.ts";
+
+const logger = createLogger("api:validation-control");
+
+type ValidationControlAction = "pause" | "resume" | "cancel";
+
+/**
+ * Get or create the storage service instance
+ */
+async function getStorageService(): Promise<KVStorageService> {
+  return await KVStorageService.initialize();
+}
+
+export const handler: Handlers = {
+  /**
+   * POST handler to pause, resume or cancel a validation session
+   * Body: { validationId: string, action: "pause" | "resume" | "cancel" }
+   */
+  async POST(req) {
+    // Multi-user support: extract userId from headers
+    const [userId, errorResponse] = extractUserIdFromRequest(req);
+    if (errorResponse) return errorResponse;
+
+    try {
+      const { validationId, action }: { validationId?: string; action?: ValidationControlAction } = await req.json();
+      if (!validationId || (action !== "pause" && action !== "resume" && action !== "cancel")) {
+        return new Response(JSON.stringify({ error: "Missing validationId or invalid action (pause, resume, cancel)" }), {
+          status: 400,
+          headers: { "Content-Type": "application/json" }
+        });
+      }
+
+      // Get service instances
+      const storage = await getStorageService();
+      const mockWebSocketService = getMockWebSocketService();
+      const validationService = new ValidationServiceImpl(storage, mockWebSocketService);
+
+      const current = await validationService.getValidationStatus(userId!, validationId);
+      if (!current) {
+        return new Response(JSON.stringify({ error: "Validation session not found" }), {
+          status: 404,
+          headers: { "Content-Type": "application/json" }
+        });
+      }
+
+      let session: ValidationSession | null;
+      switch (action) {
+        case "pause":
+          session = await validationService.pauseValidation(userId!, validationId);
+          break;
+        case "resume":
+          session = await validationService.resumeValidation(userId!, validationId);
+          break;
+        case "cancel":
+          session = await validationService.cancelValidation(userId!, validationId);
+          break;
+      }
+
+      // The session is not in a state that allows the action (e.g. resuming a running session)
+      if (!session) {
+        return new Response(JSON.stringify({
+          error: `Cannot ${action} a validation that is ${current.status}`
+        }), {
+          status: 409,
+          headers: { "Content-Type": "application/json" }
+        });
+      }
+
+      logger.info(`Validation ${validationId}: ${action} -> ${session.status}`);
+      return new Response(JSON.stringify(session), {
+        headers: { "Content-Type": "application/json" }
+      });
+    } catch (error) {
+      logger.error("Error controlling validation:", error);
+      return new Response(JSON.stringify({
+        error: "Failed to control validation",
+        message: error instanceof Error ? error.message : String(error)
+      }), {
+        status: 500,
+        headers: { "Content-Type": "application/json" }
+      });
+    }
+  }
+};
@@ -0,0 +1,77 @@
+// src/frontend/routes/api/websub/[id].ts
+import { Handlers } from "$fresh/server.ts";
+import { createLogger } from "../../../../utils/logger.ts";
+import { KVStorageService } from "../../../../backend/services/storage/index.ts";
+import { ValidationServiceImpl } from "../../../../backend/services/validation/index.ts";
+import { WebSubServiceImpl } from "../../../../backend/services/websub/index.ts";
+import { getMockWebSocketService } from "../../../../backend/services/websocket/mock-websocket.service.ts";
+
+// Reuse storage service singleton
+let storageInstance: KVStorageService | null = null;
+
+/**
+ * Get or create the storage service instance
+ */
+async function getStorageService(): Promise<KVStorageService> {
+  if (!storageInstance) {
+    storageInstance = await KVStorageService.initialize();
+  }
+  return storageInstance;
+}
+
+const logger = createLogger("api:websub");
+
+/**
+ * WebSub callback of one subscription
+ * Called by hubs, not by the web UI, so requests carry no user ID: the subscription ID identifies the feed.
+ */
+export const handler: Handlers = {
+  /**
+   * GET handler for the hub's intent verification
+   * Query: hub.mode, hub.topic, hub.challenge, hub.lease_seconds (or hub.reason for denied subscriptions)
+   */
+  async GET(req, ctx) {
+    try {
+      const storage = await getStorageService();
+      const body = await new WebSubServiceImpl(storage).verifyIntent(ctx.params.id, new URL(req.url).searchParams);
+      if (body === null) {
+        return new Response("Unknown subscription", { status: 404, headers: { "Content-Type": "text/plain" } });
+      }
+      return new Response(body, { headers: { "Content-Type": "text/plain" } });
+    } catch (error) {
+      logger.error("Error verifying WebSub intent:", error);
+      return new Response("Failed to verify subscription", { status: 500, headers: { "Content-Type": "text/plain" } });
+    }
+  },
+
+  /**
+   * POST handler for content notifications
+   * Acknowledged right away; an authentic notification refreshes the feed record in the background
+   */
+  async POST(req, ctx) {
+    try {
+      const storage = await getStorageService();
+      const notification = await new WebSubServiceImpl(storage).receiveNotification(
+        ctx.params.id,
+        new Uint8Array(await req.arrayBuffer()),
+        req.headers.get("x-hub-signature")
+      );
+      if (!notification) {
+        // Tells the hub to stop delivering to this callback
+        return new Response("Unknown subscription", { status: 410, headers: { "Content-Type": "text/plain" } });
+      }
+
+      // Invalid signatures are acknowledged too, as the specification requires, but the content is ignored
+      if (notification.authentic) {
+        const { userId, feedUrl } = notification.subscription;
+        new ValidationServiceImpl(storage, getMockWebSocketService()).refreshFeed(userId, feedUrl)
+          .then((result) => logger.debug(`Refreshed ${feedUrl} after WebSub notification, status: ${result?.status}`))
+          .catch((error) => logger.error(`Failed to refresh ${feedUrl} after WebSub notification:`, error));
+      }
+      return new Response(null, { status: 202 });
+    } catch (error) {
+      logger.error("Error receiving WebSub notification:", error);
+      return new Response("Failed to receive notification", { status: 500, headers: { "Content-Type": "text/plain" } });
+    }
+  }
+};
@@ -2,6 +2,7 @@
 import { Head } from "$fresh/runtime.ts";
 import OPMLUploaderIsland from "../islands/OPMLUploaderIsland.tsx";
 import FeedManagementIsland from "../islands/FeedManagementIsland.tsx";
+import ScheduleSettings from "../islands/ScheduleSettings.tsx";
 
 export default function Home() {
   return (
@@ -56,6 +57,7 @@ export default function Home() {
             <div class="space-y-8">
               <OPMLUploaderIsland />
               <FeedManagementIsland />
+              <ScheduleSettings />
             </div>
           </div>
         </main>